@@ -1,101 +1,271 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
 import classNames from 'classnames';
-import { CandlestickSeries, createChart, type ISeriesApi, type UTCTimestamp } from 'lightweight-charts';
+import {
+  CandlestickSeries,
+  HistogramSeries,
+  LineSeries,
+  LineStyle,
+  createChart,
+  type IPriceLine,
+  type ISeriesApi,
+  type UTCTimestamp,
+} from 'lightweight-charts';
+import {
+  adminMoves,
+  alertKinds,
+  assets,
+  bookSides,
+  difficulties,
+  fiatCurrencies,
+  ledgerEntryTypes,
+  leverageCaps,
+  modes,
+  orderTypes,
+  playerNameMaxLength,
+  priceProviders,
+  replaySpeeds,
+  timeframes,
+  wallets,
+  type AccountStats,
+  type AdminLogEntry,
+  type AdminMove,
+  type AlertHit,
+  type AlertKind,
+  type Analytics,
+  type BookLevel,
+  type BookSide,
+  type BotArchetype,
+  type Candle,
+  type ClientToServerEvents,
+  type ConvertQuote,
+  type Difficulty,
+  type ErrorAck,
+  type EquitySample,
+  type ErrorCode,
+  type FeedStatus,
+  type FeeRates,
+  type FeeSchedule,
+  type FiatCurrency,
+  type GameReplay,
+  type GameReplayFrame,
+  type HallOfFameFilters,
+  type HallOfFamePage,
+  type LeaderboardRow,
+  type LedgerEntry,
+  type LedgerEntryType,
+  type Liquidation,
+  type MarginCall,
+  type MarginMode,
+  type MarketUpdate,
+  type MarketState,
+  type Mode,
+  type OrderBook,
+  type OrderEvent,
+  type OrderResult,
+  type OrderType,
+  type PatternHint,
+  type PlaceOrderPayload,
+  type PlayerProfileDetail,
+  type PlayerProfilesPage,
+  type Position,
+  type PriceAlert,
+  type PriceFeedState,
+  type PriceProvider,
+  type ReplayDataset,
+  type ReplaySettings,
+  type ReplaySpeed,
+  type Reply,
+  type RestingOrder,
+  type RoomEvent,
+  type RoomState,
+  type RoundResults,
+  type ScenarioObjective,
+  type ScenarioObjectiveSpec,
+  type ScenarioSummary,
+  type ServerToClientEvents,
+  type SessionState,
+  type Timeframe,
+  type Wallet,
+} from '../../shared/protocol';
 import './App.css';
 
-const assets = [
-  'BTC',
-  'ETH',
-  'ICP',
-  'XCN',
-  'USDT',
-  'DASH',
-  'NEAR',
-  'SOL',
-  'USD',
-  'EUR',
-  'JPY',
-  'CNY',
-  'TRY',
-];
-
-const patterns = [
-  'Falling wedge spotted – watch for a fake breakout.',
-  'Ascending wedge forming – pressure building on bulls.',
-  'Fake breakout just happened, volume drying up.',
-  'Sideways chop – stay patient, avoid FOMO.',
-  'Momentum spike incoming – scale in slowly.',
-];
-
-const difficulties = ['Real-World', 'Easy', 'Medium', 'Hard'] as const;
-const modes = ['EZ-Mode', 'Admin', 'Whale'] as const;
-const priceProviders = ['internal', 'coingecko', 'binance'] as const;
-
-type Difficulty = (typeof difficulties)[number];
-type Mode = (typeof modes)[number];
-type PriceProvider = (typeof priceProviders)[number];
+const ledgerTypeLabels: Record<LedgerEntry['type'], string> = {
+  fill: 'Exécution',
+  conversion: 'Conversion',
+  fee: 'Frais',
+  liquidation: 'Liquidation',
+  funding: 'Funding',
+  faucet: 'Faucet',
+  close: 'Clôture',
+  transfer: 'Transfert',
+};
 
-type Candle = {
-  time: number;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
+const patternLabels: Record<PatternHint['name'], string> = {
+  falling_wedge: 'Falling wedge',
+  rising_wedge: 'Ascending wedge',
+  breakout: 'Breakout',
+  fake_breakout: 'Fake breakout',
+  pump: 'Pump',
+  capitulation: 'Capitulation',
+  range: 'Range',
 };
 
-type OrderBook = {
-  bids: { price: number; size: number }[];
-  asks: { price: number; size: number }[];
+const patternPhaseLabels: Record<string, string> = {
+  formation: 'formation',
+  breakout: 'cassure',
+  range: 'range',
+  reversal: 'retournement',
+  accumulation: 'accumulation',
+  pump: 'pump',
+  dump: 'dump',
+  bleed: 'saignée',
+  capitulation: 'capitulation',
+  relief: 'rebond',
 };
 
-type MarketState = {
-  prices: Record<string, number>;
-  candles: Record<string, Candle[]>;
-  orderBook: Record<string, OrderBook>;
+const patternExpectedLabels: Record<PatternHint['expected'], string> = {
+  breakout_up: 'cassure haussière',
+  breakout_down: 'cassure baissière',
+  reversal_up: 'retournement haussier',
+  reversal_down: 'retournement baissier',
+  none: 'pas de direction',
 };
 
-type Position = {
-  symbol: string;
-  side: 'long' | 'short';
-  entryPrice: number;
-  quantity: number;
-  leverage: number;
-  margin: number;
+const archetypeLabels: Record<BotArchetype, string> = {
+  momentum: 'Momentum',
+  mean_reversion: 'Mean reversion',
+  market_maker: 'Market maker',
+  degen: 'Degen',
+  whale: 'Whale',
 };
 
-type BotRow = {
-  id: string;
-  name: string;
-  balance: number;
-  realizedPnl: number;
-  unrealizedPnl: number;
+// Mirrors the one setup the server imposes on the daily challenge.
+const dailySetup = { difficulty: 'Medium', mode: 'EZ-Mode', priceProvider: 'internal' } as const;
+
+const priceProviderLabels: Record<PriceProvider, string> = {
+  internal: 'Interne (sans API externe)',
+  coingecko: 'coingecko',
+  binance: 'binance',
+  replay: 'Replay historique (fichiers locaux)',
+};
+const feeLabels: Record<keyof FeeRates, string> = {
+  maker: 'Frais maker',
+  taker: 'Frais taker',
+  spread: 'Spread',
 };
+// Candles fetched per get_candles page, both on load and when scrolling back.
+const candlePageSize = 300;
+const alertKindLabels: Record<AlertKind, string> = {
+  above: 'Au-dessus de',
+  below: 'En dessous de',
+  move: 'Variation de (%)',
+};
+const walletLabels: Record<Wallet, string> = {
+  spot: 'Spot',
+  derivatives: 'Dérivés',
+};
+const adminMoveLabels: Record<AdminMove, string> = {
+  crash: 'Krach',
+  pump: 'Pump',
+};
+const bookSideLabels: Record<BookSide, string> = {
+  bids: 'Achats (bids)',
+  asks: 'Ventes (asks)',
+  both: 'Les deux côtés',
+};
+const objectiveStatusLabels: Record<ScenarioObjective['status'], string> = {
+  pending: 'En cours',
+  done: 'Réussi',
+  failed: 'Échoué',
+};
+const notificationsKey = 'cryptycoon.notifications';
+const displayCurrencyKey = 'cryptycoon.displayCurrency';
+const currencySymbols: Record<FiatCurrency, string> = {
+  USD: '$',
+  EUR: '€',
+  JPY: '¥',
+  CNY: 'CN¥',
+  TRY: '₺',
+};
+const toastDurationMs = 8000;
+const weekMs = 7 * 24 * 3_600_000;
+// Playback speed of the game viewer: one recorded tick per step.
+const replayStepMs = 400;
+
+type Toast = { id: number; tone: 'info' | 'warning' | 'danger'; title: string; text: string };
+
+// The server samples equity every tick; the analytics panel only needs a slower refresh.
+const analyticsRefreshMs = 15_000;
 
-type SessionState = {
-  playerName: string;
-  difficulty: Difficulty;
-  mode: Mode;
-  priceProvider: PriceProvider;
-  holdings: Record<string, number>;
-  positions: Position[];
-  realizedPnl: number;
-  unrealizedPnl: number;
-  market: MarketState;
-  bots: BotRow[];
-  startedAt: number;
-  faucetClaimed: boolean;
+const orderTypeLabels: Record<RestingOrder['type'], string> = {
+  market: 'Market',
+  limit: 'Limit',
+  stop: 'Stop-market',
+  stop_limit: 'Stop-limit',
+  take_profit: 'Take-profit',
+  stop_loss: 'Stop-loss',
 };
 
-type OrderForm = {
-  base: string;
-  quote: string;
-  side: 'buy' | 'sell';
-  size: number;
-  leverage: number;
+const errorMessages: Record<ErrorCode, string> = {
+  INVALID_PAYLOAD: 'Requête invalide.',
+  INVALID_FIELD: 'Champ invalide',
+  LEVERAGE_TOO_HIGH: 'Levier au-delà du maximum de ce mode',
+  SESSION_NOT_FOUND: 'Session introuvable.',
+  ROOM_NOT_FOUND: 'Aucune salle avec ce code.',
+  NOT_HOST: "Seul l'hôte peut faire cela.",
+  NOT_EVERYONE_READY: "Tout le monde n'est pas prêt.",
+  GAME_NOT_STARTED: "La partie n'a pas commencé.",
+  GAME_ALREADY_STARTED: 'La partie a déjà commencé.',
+  ROUND_OVER: 'La manche est terminée.',
+  ROUND_STILL_RUNNING: 'La manche est encore en cours.',
+  REPLAY_FINISHED: 'Le replay est terminé.',
+  UNKNOWN_SYMBOL: 'Actif inconnu.',
+  PAIR_NOT_SUPPORTED: 'Paire non supportée.',
+  UNSUPPORTED_ORDER_TYPE: "Type d'ordre non supporté.",
+  LIMIT_PRICE_REQUIRED: 'Prix limite requis.',
+  STOP_PRICE_REQUIRED: 'Prix de déclenchement requis.',
+  INVALID_ORDER_SIZE: 'Taille invalide.',
+  INVALID_LIMIT_PRICE: 'Prix limite invalide.',
+  INVALID_STOP_PRICE: 'Prix de déclenchement invalide.',
+  INSUFFICIENT_BALANCE: 'Solde insuffisant.',
+  INSUFFICIENT_BALANCE_SPOT: 'Solde insuffisant pour un trade spot.',
+  INSUFFICIENT_MARGIN: 'Marge insuffisante pour un trade à levier.',
+  NO_LIQUIDITY: 'Aucune liquidité disponible.',
+  NO_POSITION_TO_REDUCE: 'Aucune position à réduire.',
+  FLIP_REJECTED: 'Position réduite, mais retournement refusé',
+  POSITION_NOT_FOUND: 'Position introuvable.',
+  ORDER_NOT_FOUND: 'Ordre introuvable.',
+  INVALID_CLOSE_FRACTION: 'Fraction de clôture invalide.',
+  INVALID_REDUCE_QUANTITY: 'Quantité à réduire invalide.',
+  INVALID_MARGIN_AMOUNT: 'Montant de marge invalide.',
+  CROSS_MARGIN_FIXED: 'Les positions cross utilisent le wallet comme marge.',
+  MARGIN_TOO_LOW: 'La marge ne peut pas descendre aussi bas.',
+  FAUCET_UNAVAILABLE: 'Faucet indisponible : déjà utilisé ou solde non nul.',
+  INVALID_API_KEY: "Clé d'API invalide ou manquante.",
+  RATE_LIMITED: 'Trop de requêtes, réessayez dans un instant.',
+  UNKNOWN_COMMAND: 'Commande inconnue.',
+  ALERT_PRICE_REQUIRED: "Prix de l'alerte requis.",
+  ALERT_PERCENT_REQUIRED: "Pourcentage de l'alerte requis.",
+  ALERT_NOT_FOUND: 'Alerte introuvable.',
+  TOO_MANY_ALERTS: "Trop d'alertes",
+  SPOT_NO_LEVERAGE: 'Un ordre spot ne peut pas être levier, reduce-only ou lié à une position.',
+  SAME_CURRENCY: 'Choisissez deux devises différentes.',
+  TRANSFER_WOULD_LIQUIDATE: 'Ce transfert laisserait les positions cross sous leur marge de maintenance.',
+  MARKET_HALTED: 'Cotation suspendue sur cet actif, réessayez après la reprise.',
+  ASSET_NOT_IN_SCENARIO: "Cet actif n'est pas disponible dans ce scénario.",
+  SCENARIO_FINISHED: 'Le scénario est terminé : relancez la partie pour le rejouer.',
+  PLAYER_NOT_FOUND: 'Aucune partie terminée pour ce joueur.',
+  ADMIN_ONLY: 'Réservé aux salles en mode Admin.',
+  ADMIN_IN_SCENARIO: "La console admin n'est pas disponible dans un scénario.",
+  BOT_NOT_FOUND: 'Bot introuvable.',
+  GAME_NOT_FOUND: 'Partie enregistrée introuvable.',
 };
 
+type OrderForm = Required<PlaceOrderPayload>;
+
 const localHosts = ['localhost', '127.0.0.1', '::1'];
+const sessionTokenKey = 'cryptycoon.sessionToken';
 
 function resolveSocketUrl() {
   if (import.meta.env.VITE_SERVER_URL) return import.meta.env.VITE_SERVER_URL;
@@ -123,8 +293,10 @@ function resolveSocketUrl() {
 
 const socketUrl = resolveSocketUrl();
 
+type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
 function useSocket() {
-  return useMemo(
+  return useMemo<GameSocket>(
     () =>
       io(socketUrl, {
         autoConnect: false,
@@ -144,31 +316,433 @@ function formatPrice(value?: number) {
   return Number(value).toFixed(4);
 }
 
+function formatDuration(ms: number) {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000)
+    .toString()
+    .padStart(2, '0');
+  return `${minutes}:${seconds}`;
+}
+
+const feedStatusLabels: Record<FeedStatus, string> = {
+  idle: 'en attente',
+  ok: 'OK',
+  degraded: 'dégradé',
+  down: 'hors ligne',
+};
+
+// "binance · OK · 2 s", with the fallback feeds that stood in for it.
+function describeFeed(feed: PriceFeedState) {
+  const fallbacks = feed.sources.filter((source) => source !== feed.requested);
+  const age = feed.ageMs === null ? '' : ` · ${feed.ageMs < 60_000 ? `${Math.round(feed.ageMs / 1000)} s` : formatDuration(feed.ageMs)}`;
+  return `${feedStatusLabels[feed.status]}${fallbacks.length ? ` via ${fallbacks.join(', ')}` : ''}${age}`;
+}
+
+function describePattern(patterns: MarketState['patterns'], asset: string) {
+  if (patterns === null) return 'Indices masqués : à vous de lire le graphique.';
+  const pattern = patterns?.[asset];
+  if (!pattern) return 'Aucune figure en cours, le prix dérive librement.';
+  return `${patternLabels[pattern.name]} – phase ${patternPhaseLabels[pattern.phase] ?? pattern.phase}, résolution attendue : ${patternExpectedLabels[pattern.expected]} (~${pattern.remainingTicks} ticks).`;
+}
+
+// Live ticks only ever touch the latest candle: replace it, or append the next one.
+function mergeCandle(candles: Candle[], candle: Candle) {
+  const last = candles[candles.length - 1];
+  if (!last || candle.time > last.time) return [...candles, candle];
+  if (candle.time === last.time) return [...candles.slice(0, -1), candle];
+  return candles;
+}
+
+// A level is its price plus `own`; a size of 0 removes it.
+function applyBookLevels(levels: BookLevel[], changes: BookLevel[], descending: boolean) {
+  const key = (level: BookLevel) => `${level.price}:${level.own ? 'own' : ''}`;
+  const next = new Map(levels.map((level) => [key(level), level]));
+  changes.forEach((level) => (level.size > 0 ? next.set(key(level), level) : next.delete(key(level))));
+  return Array.from(next.values()).sort((a, b) => (descending ? b.price - a.price : a.price - b.price));
+}
+
+// Folds a market_update into the market: a snapshot replaces the streamed parts, a delta patches them.
+function applyMarketUpdate(prev: MarketState | null, update: MarketUpdate): MarketState {
+  const orderBook: Record<string, OrderBook> = { ...(update.snapshot ? {} : prev?.orderBook), ...update.orderBook };
+  Object.entries(update.bookDeltas).forEach(([symbol, delta]) => {
+    const book = orderBook[symbol] ?? { bids: [], asks: [] };
+    orderBook[symbol] = { bids: applyBookLevels(book.bids, delta.bids, true), asks: applyBookLevels(book.asks, delta.asks, false) };
+  });
+  return {
+    ...prev,
+    prices: update.snapshot ? update.prices : { ...prev?.prices, ...update.prices },
+    orderBook,
+    patterns: update.patterns,
+    funding: update.funding,
+    insuranceFund: update.insuranceFund,
+    halted: update.halted,
+    feed: update.feed,
+  };
+}
+
+function applyLeaderboardUpdate(rows: LeaderboardRow[], update: MarketUpdate) {
+  if (update.snapshot) return update.leaderboard;
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  update.leaderboardRemoved.forEach((id) => byId.delete(id));
+  update.leaderboard.forEach((row) => byId.set(row.id, row));
+  return (update.leaderboardOrder ?? rows.map((row) => row.id)).flatMap((id) => byId.get(id) ?? []);
+}
+
+// datetime-local inputs work in local time without seconds.
+function toLocalInput(ms: number) {
+  const date = new Date(ms - new Date(ms).getTimezoneOffset() * 60000);
+  return date.toISOString().slice(0, 16);
+}
+
+function describeReplay(replay: ReplaySettings) {
+  return `${replay.dataset} x${replay.speed} (${new Date(replay.from).toLocaleString()} → ${new Date(replay.to).toLocaleString()})`;
+}
+
+function formatRate(rate = 0) {
+  return `${(rate * 100).toFixed(3)} %`;
+}
+
+function roundRatePercent(rate: number) {
+  return Number((rate * 100).toFixed(4));
+}
+
+// Fees whose tier applies to the given traded volume.
+function currentFeeRates(schedule: FeeSchedule | undefined, volumeUsd: number) {
+  if (!schedule) return null;
+  return schedule.tiers.filter((tier) => volumeUsd >= tier.minVolumeUsd).pop() || schedule.tiers[0];
+}
+
+function describeCosts(response: OrderResult) {
+  if (response.fee === undefined) return '';
+  const liquidity = response.liquidity === 'maker' ? 'maker' : 'taker';
+  return ` | frais ${formatter.format(response.fee)} (${liquidity} ${formatRate(response.feeRate)}), spread ${formatter.format(response.spreadCost ?? 0)}`;
+}
+
+function describeFill(response: OrderResult) {
+  const levels = response.fills?.length ?? 0;
+  const unfilled = response.unfilledSize ? ` | ${response.unfilledSize.toFixed(4)} non rempli` : '';
+  return `${(response.filledSize ?? 0).toFixed(4)} rempli sur ${levels} niveau${levels > 1 ? 'x' : ''} à ${formatPrice(response.averagePrice)} de moyenne${unfilled}${describeCosts(response)}`;
+}
+
+// Localized text for a rejection, with the field, cap or cause the server attached.
+function describeError(response: ErrorAck): string {
+  const message = errorMessages[response.code] ?? response.error;
+  if (response.code === 'LEVERAGE_TOO_HIGH') return `${message} (x${response.limit}).`;
+  if (response.code === 'TOO_MANY_ALERTS') return `${message} (${response.limit} max).`;
+  if (response.code === 'INVALID_FIELD') return `${message} : ${response.field}.`;
+  if (response.code === 'FLIP_REJECTED' && response.cause) return `${message} : ${errorMessages[response.cause]}`;
+  return message;
+}
+
+function formatStat(value: number | null, suffix = '') {
+  return value === null ? '-' : `${formatter.format(value)}${suffix}`;
+}
+
+// Formats a USD amount in the display currency; prices hold the USD value of one unit of each fiat.
+type Money = (usd: number | null) => string;
+
+function moneyFormatter(currency: FiatCurrency, prices?: Record<string, number>): Money {
+  // Without a market (the hall of fame, before a game) there is no rate: amounts stay in USD.
+  const rate = prices?.[currency];
+  const symbol = currencySymbols[rate ? currency : 'USD'];
+  return (usd) => (usd === null ? '-' : `${formatter.format(usd / (rate || 1))} ${symbol}`);
+}
+
+const statRows: { label: string; value: (stats: AccountStats, money: Money) => string }[] = [
+  { label: 'Équité', value: (stats, money) => money(stats.equity) },
+  { label: 'Rendement', value: (stats) => formatStat(stats.returnPct, ' %') },
+  {
+    label: 'Drawdown max',
+    value: (stats, money) => `${formatStat(stats.maxDrawdownPct, ' %')} (${money(stats.maxDrawdownUsd)})`,
+  },
+  { label: 'Sharpe (horaire)', value: (stats) => formatStat(stats.sharpe) },
+  { label: 'Sortino (horaire)', value: (stats) => formatStat(stats.sortino) },
+  {
+    label: 'Taux de gain',
+    value: (stats) => (stats.winRatePct === null ? '-' : `${formatStat(stats.winRatePct, ' %')} sur ${stats.closedTrades}`),
+  },
+  { label: 'Gain moyen', value: (stats, money) => money(stats.averageWin) },
+  { label: 'Perte moyenne', value: (stats, money) => money(stats.averageLoss) },
+  { label: 'Profit factor', value: (stats) => formatStat(stats.profitFactor) },
+  {
+    label: 'Levier actuel / moyen / max',
+    value: ({ leverage }) => `x${leverage.current} / x${leverage.average} / x${leverage.max}`,
+  },
+  { label: 'Trades / liquidations', value: (stats) => `${stats.trades} / ${stats.liquidations}` },
+  {
+    label: 'Exposition',
+    value: (stats, money) =>
+      Object.entries(stats.exposure)
+        .map(([asset, exposure]) => `${asset} ${exposure.net >= 0 ? 'long' : 'short'} ${money(Math.abs(exposure.net))}`)
+        .join(' · ') || 'Aucune position',
+  },
+];
+
+// Curves are drawn in the display currency at the current rate.
+function equityLine(curve: EquitySample[], rate: number) {
+  return curve.map((sample) => ({ time: Math.floor(sample.time / 1000) as UTCTimestamp, value: sample.equity / rate }));
+}
+
+// A round's closing frame shares its time with the tick before it, and the chart wants
+// strictly increasing times: the later point wins.
+// Each point is converted at its own frame's rate, as it was shown during the game.
+function replayEquityLine(frames: GameReplayFrame[], playerId: string, currency: FiatCurrency) {
+  const points = new Map<number, number>();
+  frames.forEach((frame) => {
+    const equity = frame.equity[playerId];
+    if (equity !== undefined) points.set(Math.floor(frame.time / 1000), equity / (frame.prices[currency] || 1));
+  });
+  return Array.from(points, ([time, value]) => ({ time: time as UTCTimestamp, value }));
+}
+
+const replayLineColors = ['#2b7bff', '#0cc0a4', '#f59e0b', '#f28b82', '#a78bfa', '#93c5fd'];
+
+function describeAlert(alert: PriceAlert) {
+  if (alert.kind === 'move') return `${alert.symbol} bouge de ${alert.percent} % depuis ${formatPrice(alert.basePrice)}`;
+  return `${alert.symbol} ${alert.kind === 'above' ? 'au-dessus de' : 'en dessous de'} ${formatPrice(alert.price)}`;
+}
+
+function alertToast(hit: AlertHit): Omit<Toast, 'id'> {
+  return { tone: 'info', title: `Alerte ${hit.alert.symbol}`, text: `${describeAlert(hit.alert)} : ${formatPrice(hit.price)}.` };
+}
+
+function marginCallToast(call: MarginCall): Omit<Toast, 'id'> {
+  return {
+    tone: 'warning',
+    title: `Appel de marge ${call.symbol}/${call.quote}`,
+    text: `${call.side} x${call.leverage} à ${call.distancePct} % de sa liquidation (${formatPrice(call.liquidationPrice)}), ratio de marge ${call.marginRatio} %.`,
+  };
+}
+
+function liquidationToast(liquidation: Liquidation): Omit<Toast, 'id'> {
+  return {
+    tone: 'danger',
+    title: `Position liquidée : ${liquidation.symbol}/${liquidation.quote}`,
+    text: `${liquidation.side} ${liquidation.quantity.toFixed(4)} x${liquidation.leverage} (${liquidation.marginMode === 'cross' ? 'croisée' : 'isolée'}) entrée ${formatPrice(liquidation.entryPrice)}, liquidée à ${formatPrice(liquidation.price)} : ${formatter.format(liquidation.realizedPnl)} ${liquidation.currency}, frais ${formatter.format(liquidation.fee)}.`,
+  };
+}
+
+function describeObjective(objective: ScenarioObjectiveSpec, money: Money) {
+  if (objective.type === 'reach_equity') return `Atteindre ${money(objective.value ?? 0)} d'équité`;
+  if (objective.type === 'keep_equity') return `Ne jamais descendre sous ${money(objective.value ?? 0)}`;
+  if (objective.type === 'no_liquidation') return 'Aucune liquidation';
+  if (objective.type === 'exposed_during') {
+    return `Être en position x${objective.minLeverage ?? 1} ou plus au déclenchement de « ${objective.event} »`;
+  }
+  return `Finir avec un meilleur rendement que ${objective.bot}`;
+}
+
+function objectiveProgress(objective: Partial<ScenarioObjective> & ScenarioObjectiveSpec, money: Money) {
+  if (objective.current === undefined) return '';
+  if (objective.type === 'beat_bot') {
+    return `${formatter.format(objective.current)} % contre ${formatter.format(objective.target ?? 0)} %`;
+  }
+  return objective.type === 'reach_equity' || objective.type === 'keep_equity' ? money(objective.current) : '';
+}
+
+function describeAdminEntry(entry: AdminLogEntry, money: Money) {
+  switch (entry.action) {
+    case 'admin_set_price':
+      return `Prix ${entry.symbol} fixé à ${formatPrice(entry.price)}`;
+    case 'admin_set_volatility':
+      return `Volatilité ${entry.symbol} x${entry.multiplier}`;
+    case 'admin_move':
+      return `${adminMoveLabels[entry.direction ?? 'crash']} ${entry.symbol} de ${entry.percent} % sur ${entry.seconds}s`;
+    case 'admin_halt':
+      return entry.halted
+        ? `Cotation ${entry.symbol} suspendue${entry.seconds ? ` ${entry.seconds}s` : ''}`
+        : `Reprise de la cotation ${entry.symbol}`;
+    case 'admin_inject_liquidity':
+      return `Liquidité ${entry.symbol} : ${money(entry.notionalUsd ?? 0)} (${bookSideLabels[entry.side ?? 'both']})`;
+    case 'admin_set_bot':
+      return `Agressivité de ${entry.name} x${entry.aggressiveness}`;
+    case 'admin_news':
+      return `News : ${entry.headline}`;
+    default:
+      return entry.action;
+  }
+}
+
+function describeRoomEvent(event: Omit<RoomEvent, 'at'>, money: Money) {
+  if (event.type === 'news') return `${event.name} : ${event.headline}`;
+  if (event.type === 'join') return `${event.name} a rejoint la salle.`;
+  if (event.type === 'leave') return `${event.name} a quitté la salle.`;
+  if (event.type === 'liquidation') return `${event.name} liquidé sur ${event.symbol} (${event.side} x${event.leverage}).`;
+  return `${event.name} : ${event.side} ${event.size} ${event.symbol} (${money(event.notionalUsd ?? 0)}).`;
+}
+
+const recordedActionLabels: Record<string, string> = {
+  cancel_order: 'annule un ordre',
+  amend_order: 'modifie un ordre',
+  close_position: 'clôture une position',
+  reduce_position: 'réduit une position',
+  set_position_tpsl: 'pose un TP / SL',
+  adjust_margin: 'ajuste sa marge',
+  convert: 'convertit',
+  transfer: 'transfère',
+  claim_faucet: 'réclame le faucet',
+  continue_round: 'lance la manche suivante',
+  join: 'rejoint la partie',
+  leave: 'quitte la partie',
+};
+
+function describeRecordedAction({ name, event, payload }: GameReplayFrame['actions'][number]) {
+  if (event === 'place_order') return `${name} : ${payload.side} ${payload.size} ${payload.base}/${payload.quote}`;
+  if (event.startsWith('admin_')) return `${name} (console Admin) : ${event.slice('admin_'.length)}`;
+  return `${name} ${recordedActionLabels[event] ?? event}`;
+}
+
+type Step = 'welcome' | 'setup' | 'lobby' | 'play' | 'results' | 'hall' | 'rewatch';
+
+type HallView = { difficulty?: Difficulty; mode?: Mode; period: 'all' | 'week' | 'daily' };
+
+// The weekly view is the last seven days, counted when the request is made; the daily one is
+// today's challenge, whose seed the server knows.
+function hallOfFameQuery({ difficulty, mode, period }: HallView) {
+  const filters: HallOfFameFilters = {
+    difficulty,
+    mode,
+    since: period === 'week' ? Date.now() - weekMs : undefined,
+    seed: period === 'daily' ? 'daily' : undefined,
+  };
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined) params.set(key, String(value));
+  });
+  return params.toString();
+}
+
+async function fetchJson<T>(path: string): Promise<T> {
+  const response = await fetch(`${socketUrl}${path}`);
+  if (!response.ok) throw new Error(`${path}: HTTP ${response.status}`);
+  return response.json() as Promise<T>;
+}
+
+// The price an amendment edits: the limit for limit orders (and triggered stop-limits), the trigger otherwise.
+function amendableField(order: RestingOrder): 'limitPrice' | 'stopPrice' {
+  if (order.type === 'limit' || (order.type === 'stop_limit' && order.triggered)) return 'limitPrice';
+  return 'stopPrice';
+}
+
 function App() {
   const socket = useSocket();
-  const socketRef = useRef<Socket | null>(null);
+  const socketRef = useRef<GameSocket | null>(null);
   const pendingStartRef = useRef<(() => void) | null>(null);
-  const [step, setStep] = useState<'welcome' | 'setup' | 'play'>('welcome');
+  const [step, setStep] = useState<Step>('welcome');
   const [playerName, setPlayerName] = useState('');
+  const [roomCode, setRoomCode] = useState('');
+  const [roomFeed, setRoomFeed] = useState<RoomEvent[]>([]);
+  const [bottomTab, setBottomTab] = useState<'feed' | 'history'>('feed');
+  const [history, setHistory] = useState<LedgerEntry[]>([]);
+  const [historyTotal, setHistoryTotal] = useState(0);
+  const [historySymbol, setHistorySymbol] = useState('');
+  const [historyType, setHistoryType] = useState<LedgerEntryType | ''>('');
+  const [analytics, setAnalytics] = useState<Analytics | null>(null);
+  // Bot whose equity curve is overlaid on ours.
+  const [compareWith, setCompareWith] = useState('');
+  const [alertKind, setAlertKind] = useState<AlertKind>('above');
+  const [alertValue, setAlertValue] = useState('');
+  const [marginCallDraft, setMarginCallDraft] = useState('');
+  const [transferDraft, setTransferDraft] = useState({ currency: 'USD', amount: '' });
+  const [convertDraft, setConvertDraft] = useState({ from: 'USD', to: 'EUR', amount: '' });
+  const [convertPreview, setConvertPreview] = useState<ConvertQuote | null>(null);
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const [adminDraft, setAdminDraft] = useState({
+    price: '',
+    multiplier: '1',
+    percent: '20',
+    seconds: '30',
+    haltSeconds: '',
+    side: 'both' as BookSide,
+    notionalUsd: '1000000',
+    botId: '',
+    aggressiveness: '2',
+    headline: '',
+  });
+  const [adminLog, setAdminLog] = useState<AdminLogEntry[]>([]);
+  const [hallFilters, setHallFilters] = useState<HallView>({ period: 'all' });
+  const [hallResults, setHallResults] = useState<HallOfFamePage | null>(null);
+  const [hallPlayers, setHallPlayers] = useState<PlayerProfilesPage | null>(null);
+  const [hallProfile, setHallProfile] = useState<PlayerProfileDetail | null>(null);
+  // A shared link opens the viewer straight away: ?game=<id>.
+  const [replayGameId, setReplayGameId] = useState(() => new URLSearchParams(window.location.search).get('game'));
+  const [gameReplay, setGameReplay] = useState<GameReplay | null>(null);
+  const [replayFrame, setReplayFrame] = useState(0);
+  const [replayPlaying, setReplayPlaying] = useState(false);
+  // Where the viewer's back button leads.
+  const [replayReturn, setReplayReturn] = useState<Step>('welcome');
+  const [notifications, setNotifications] = useState(
+    () =>
+      window.localStorage.getItem(notificationsKey) === 'on' &&
+      'Notification' in window &&
+      Notification.permission === 'granted'
+  );
+  const [displayCurrency, setDisplayCurrency] = useState<FiatCurrency>(() => {
+    const stored = window.localStorage.getItem(displayCurrencyKey) as FiatCurrency | null;
+    return stored && fiatCurrencies.includes(stored) ? stored : 'USD';
+  });
   const [difficulty, setDifficulty] = useState<Difficulty>('Medium');
   const [mode, setMode] = useState<Mode>('EZ-Mode');
   const [priceProvider, setPriceProvider] = useState<PriceProvider>('internal');
+  const [replayDatasets, setReplayDatasets] = useState<ReplayDataset[]>([]);
+  const [replayDataset, setReplayDataset] = useState('');
+  const [replayFrom, setReplayFrom] = useState('');
+  const [replayTo, setReplayTo] = useState('');
+  const [replaySpeed, setReplaySpeed] = useState<ReplaySpeed>(10);
+  const [scenarios, setScenarios] = useState<ScenarioSummary[]>([]);
+  // Empty for free play.
+  const [scenarioId, setScenarioId] = useState('');
+  // Empty for a random seed per game.
+  const [seed, setSeed] = useState('');
+  const [daily, setDaily] = useState(false);
+  const [hideHints, setHideHints] = useState(false);
+  const [rankNetOfFees, setRankNetOfFees] = useState(false);
+  // Admin-mode rates, edited in percent.
+  const [adminFees, setAdminFees] = useState<FeeRates>({ maker: 0.02, taker: 0.05, spread: 0.1 });
   const [session, setSession] = useState<SessionState | null>(null);
   const [market, setMarket] = useState<MarketState | null>(null);
   const [selectedAsset, setSelectedAsset] = useState('BTC');
+  const [timeframe, setTimeframe] = useState<Timeframe>('1m');
+  const [chartCandles, setChartCandles] = useState<Candle[]>([]);
   const [orderForm, setOrderForm] = useState<OrderForm>({
+    type: 'market',
     base: 'BTC',
     quote: 'USD',
     side: 'buy',
     size: 0.01,
     leverage: 1,
+    marginMode: 'isolated',
+    wallet: 'spot',
+    reduceOnly: false,
+    limitPrice: 0,
+    stopPrice: 0,
+    takeProfit: 0,
+    stopLoss: 0,
   });
+  const [amendDrafts, setAmendDrafts] = useState<Record<string, string>>({});
+  const [marginDrafts, setMarginDrafts] = useState<Record<string, string>>({});
   const [status, setStatus] = useState<string>('');
   const [connecting, setConnecting] = useState(false);
-  const [timeLeft, setTimeLeft] = useState<string>('15:00');
+  // Remaining time as last reported by the server, counted down locally between ticks.
+  const [roundClock, setRoundClock] = useState<{ remainingMs: number; receivedAt: number } | null>(null);
+  const [clockNow, setClockNow] = useState(() => Date.now());
   const chartRef = useRef<HTMLDivElement | null>(null);
   const candleSeriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null);
-  const patternRef = useRef<string>(patterns[0]);
+  const volumeSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null);
+  // The socket handlers and the chart callbacks outlive renders, so they read the chart's series through refs.
+  const chartKeyRef = useRef<{ asset: string; timeframe: Timeframe }>({ asset: 'BTC', timeframe: '1m' });
+  // Last market_update applied, to spot a gap in the stream.
+  const marketSeqRef = useRef<number | null>(null);
+  const resyncingRef = useRef(false);
+  const chartCandlesRef = useRef<Candle[]>([]);
+  const historyRef = useRef({ loading: false, exhausted: false });
+  const analyticsChartRef = useRef<HTMLDivElement | null>(null);
+  const replayChartRef = useRef<HTMLDivElement | null>(null);
+  const replaySeriesRef = useRef<Map<string, ISeriesApi<'Line'>>>(new Map());
+  const equitySeriesRef = useRef<ISeriesApi<'Line'> | null>(null);
+  const comparisonSeriesRef = useRef<ISeriesApi<'Line'> | null>(null);
+  const toastIdRef = useRef(0);
+  const notificationsRef = useRef(notifications);
 
   useEffect(() => {
     socketRef.current = socket;
@@ -181,31 +755,130 @@ function App() {
       if (!pendingStartRef.current) {
         setConnecting(false);
       }
+      socket.emit('list_replay_datasets', {}, (response) => {
+        if (!response.code) setReplayDatasets(response.datasets);
+      });
+      socket.emit('list_scenarios', {}, (response) => {
+        if (!response.code) setScenarios(response.scenarios);
+      });
+      const token = window.localStorage.getItem(sessionTokenKey);
+      if (token && !pendingStartRef.current) {
+        socket.emit('resume_session', { token }, (response) => {
+          if (response.code) {
+            console.info('[network] Stored session could not be resumed', response);
+            window.localStorage.removeItem(sessionTokenKey);
+            setSession(null);
+            setMarket(null);
+            setStep('welcome');
+            setStatus('La partie précédente a expiré. Lancez-en une nouvelle.');
+          }
+        });
+      }
     };
 
     const handleSessionUpdate = (data: SessionState) => {
       console.info('[network] session_update received', { priceProvider: data.priceProvider, difficulty: data.difficulty });
+      window.localStorage.setItem(sessionTokenKey, data.sessionToken);
       setSession(data);
       setMarket(data.market);
-      setPattern();
-      setStep('play');
+      marketSeqRef.current = data.marketSeq;
+      setRoundClock(data.round ? { remainingMs: data.round.remainingMs, receivedAt: Date.now() } : null);
+      if (data.room.status === 'lobby') {
+        setStep('lobby');
+      } else {
+        setStep(data.round?.status === 'ended' ? 'results' : 'play');
+      }
       setStatus('');
       setConnecting(false);
     };
 
-    const handleMarketUpdate = (payload: Partial<MarketState> & { bots?: BotRow[] }) => {
+    const applyUpdate = (payload: MarketUpdate) => {
+      marketSeqRef.current = payload.seq;
+      const { asset, timeframe: chartTimeframe } = chartKeyRef.current;
+      const liveCandle = payload.lastCandles[chartTimeframe]?.[asset];
+      if (liveCandle) setChartCandles((prev) => mergeCandle(prev, liveCandle));
+      setMarket((prev) => applyMarketUpdate(prev, payload));
+      setSession((prev) =>
+        prev
+          ? {
+              ...prev,
+              ...payload.account,
+              leaderboard: applyLeaderboardUpdate(prev.leaderboard, payload),
+              round: payload.round || prev.round,
+            }
+          : prev
+      );
+      if (payload.round) {
+        setRoundClock({ remainingMs: payload.round.remainingMs, receivedAt: Date.now() });
+      }
+    };
+
+    const handleMarketUpdate = (payload: MarketUpdate) => {
       console.info('[network] market_update received', {
-        prices: Object.keys(payload.prices || {}).length,
-        candles: Object.keys(payload.candles || {}).length,
+        seq: payload.seq,
+        prices: Object.keys(payload.prices).length,
       });
-      setMarket((prev) => ({
-        prices: payload.prices || prev?.prices || {},
-        candles: payload.candles || prev?.candles || {},
-        orderBook: payload.orderBook || prev?.orderBook || {},
-      }));
-      setSession((prev) => (prev ? { ...prev, bots: payload.bots || prev.bots } : prev));
+      if (payload.snapshot || payload.seq === (marketSeqRef.current ?? 0) + 1) {
+        applyUpdate(payload);
+        return;
+      }
+      // A delta only applies on top of the one before it: after a gap, fetch the whole view.
+      if (resyncingRef.current) return;
+      resyncingRef.current = true;
+      console.warn('[network] market_update out of sequence, resyncing', { expected: (marketSeqRef.current ?? 0) + 1, seq: payload.seq });
+      socket.emit('market_resync', {}, (response) => {
+        resyncingRef.current = false;
+        if (!response.code) applyUpdate(response);
+      });
+    };
+
+    const handleRoundEnded = (results: RoundResults) => {
+      console.info('[network] round_ended received', { round: results.round, rank: results.player.rank });
+      setStep('results');
+    };
+
+    const handleRoomUpdate = (room: RoomState) => {
+      setSession((prev) =>
+        prev
+          ? { ...prev, room, difficulty: room.difficulty, mode: room.mode, priceProvider: room.priceProvider }
+          : prev
+      );
+    };
+
+    const handleRoomEvent = (event: RoomEvent) => {
+      setRoomFeed((prev) => [event, ...prev].slice(0, 30));
+      if (event.type === 'news') pushToast({ tone: 'info', title: event.name, text: event.headline ?? '' });
     };
 
+    const handleOrderEvent = (event: OrderEvent) => {
+      const { order, result } = event;
+      const label = `${orderTypeLabels[order.type]} ${order.side} ${order.base}/${order.quote}`;
+      if (event.type === 'triggered') {
+        setStatus(`${label} déclenché, limite ${formatPrice(order.limitPrice)} en attente.`);
+      } else if (event.type === 'rejected') {
+        setStatus(`${label} rejeté : ${result?.code ? describeError(result) : '-'}`);
+      } else {
+        setStatus(
+          `${label} ${event.type === 'filled' ? 'exécuté' : 'partiellement exécuté'} : ${result && !result.code ? describeFill(result) : '-'}`
+        );
+      }
+    };
+
+    // Alerts, margin calls and liquidations pop a toast, mirrored as a browser notification when allowed.
+    const pushToast = (toast: Omit<Toast, 'id'>) => {
+      toastIdRef.current += 1;
+      const id = toastIdRef.current;
+      setToasts((prev) => [...prev, { ...toast, id }].slice(-5));
+      setTimeout(() => setToasts((prev) => prev.filter((t) => t.id !== id)), toastDurationMs);
+      if (notificationsRef.current && 'Notification' in window && Notification.permission === 'granted') {
+        new Notification(toast.title, { body: toast.text });
+      }
+    };
+
+    const handleAlertTriggered = (hit: AlertHit) => pushToast(alertToast(hit));
+    const handleMarginCall = (call: MarginCall) => pushToast(marginCallToast(call));
+    const handleLiquidated = (liquidation: Liquidation) => pushToast(liquidationToast(liquidation));
+
     const handleConnectError = (err: unknown) => {
       console.error('[network] connect_error', err);
       if (pendingStartRef.current) {
@@ -222,18 +895,31 @@ function App() {
         socket.off('connect', pendingStartRef.current);
         pendingStartRef.current = null;
       }
-      setStatus('Déconnecté du serveur. Relancez la partie pour réessayer.');
+      // The server keeps the session during a grace period; socket.io reconnects and resumes it.
+      setStatus('Connexion perdue, reconnexion en cours...');
+      setConnecting(false);
+    };
+
+    const handleSessionDetached = () => {
+      setStatus('Cette partie a été reprise dans un autre onglet.');
       setSession(null);
       setMarket(null);
       setStep('welcome');
-      setConnecting(false);
     };
 
     socket.on('connect', handleConnect);
     socket.on('session_update', handleSessionUpdate);
     socket.on('market_update', handleMarketUpdate);
+    socket.on('order_event', handleOrderEvent);
+    socket.on('round_ended', handleRoundEnded);
+    socket.on('room_update', handleRoomUpdate);
+    socket.on('room_event', handleRoomEvent);
     socket.on('connect_error', handleConnectError);
     socket.on('disconnect', handleDisconnect);
+    socket.on('session_detached', handleSessionDetached);
+    socket.on('alert_triggered', handleAlertTriggered);
+    socket.on('margin_call', handleMarginCall);
+    socket.on('liquidated', handleLiquidated);
 
     return () => {
       if (pendingStartRef.current) {
@@ -243,14 +929,22 @@ function App() {
       socket.off('connect', handleConnect);
       socket.off('session_update', handleSessionUpdate);
       socket.off('market_update', handleMarketUpdate);
+      socket.off('order_event', handleOrderEvent);
+      socket.off('round_ended', handleRoundEnded);
+      socket.off('room_update', handleRoomUpdate);
+      socket.off('room_event', handleRoomEvent);
       socket.off('connect_error', handleConnectError);
       socket.off('disconnect', handleDisconnect);
+      socket.off('session_detached', handleSessionDetached);
+      socket.off('alert_triggered', handleAlertTriggered);
+      socket.off('margin_call', handleMarginCall);
+      socket.off('liquidated', handleLiquidated);
       socket.disconnect();
     };
   }, [socket]);
 
   useEffect(() => {
-    if (!market || !chartRef.current) return;
+    if (step !== 'play' || !chartRef.current) return;
     const chart = createChart(chartRef.current, {
       layout: { background: { color: '#0b1015' }, textColor: '#dfe7ef' },
       grid: {
@@ -268,23 +962,81 @@ function App() {
       wickUpColor: '#1f9d55',
       wickDownColor: '#ef4444',
     });
+    candleSeries.priceScale().applyOptions({ scaleMargins: { top: 0.08, bottom: 0.25 } });
+    // Volume sits in its own overlay scale along the bottom fifth of the pane.
+    const volumeSeries = chart.addSeries(HistogramSeries, { priceFormat: { type: 'volume' }, priceScaleId: '' });
+    volumeSeries.priceScale().applyOptions({ scaleMargins: { top: 0.8, bottom: 0 } });
     candleSeriesRef.current = candleSeries;
+    volumeSeriesRef.current = volumeSeries;
+
+    // Scrolling close to the oldest loaded candle pulls the previous page of history.
+    const loadOlderCandles = (range: { from: number } | null) => {
+      const history = historyRef.current;
+      const oldest = chartCandlesRef.current[0];
+      if (!range || range.from > 10 || !oldest || history.loading || history.exhausted) return;
+      history.loading = true;
+      const key = chartKeyRef.current;
+      socketRef.current?.emit(
+        'get_candles',
+        { symbol: key.asset, timeframe: key.timeframe, to: oldest.time, limit: candlePageSize },
+        (response) => {
+          history.loading = false;
+          if (key !== chartKeyRef.current) return;
+          const older = response.code ? [] : response.candles;
+          if (!older.length) {
+            history.exhausted = true;
+            return;
+          }
+          setChartCandles((prev) => [...older, ...prev]);
+        }
+      );
+    };
+    chart.timeScale().subscribeVisibleLogicalRangeChange(loadOlderCandles);
     const resizeObserver = new ResizeObserver(() => {
       chart.applyOptions({ width: chartRef.current?.clientWidth || 300 });
     });
     resizeObserver.observe(chartRef.current);
 
     return () => {
+      chart.timeScale().unsubscribeVisibleLogicalRangeChange(loadOlderCandles);
       chart.remove();
       resizeObserver.disconnect();
+      candleSeriesRef.current = null;
+      volumeSeriesRef.current = null;
     };
-  }, [market]);
+  }, [step]);
+
+  useEffect(() => {
+    if (step !== 'play') return;
+    const key = { asset: selectedAsset, timeframe };
+    chartKeyRef.current = key;
+    historyRef.current = { loading: false, exhausted: false };
+    setChartCandles([]);
+    socketRef.current?.emit(
+      'get_candles',
+      { symbol: selectedAsset, timeframe, limit: candlePageSize },
+      (response) => {
+        if (key !== chartKeyRef.current) return;
+        if (response.code) {
+          setStatus(describeError(response));
+          return;
+        }
+        setChartCandles(response.candles);
+      }
+    );
+  }, [step, selectedAsset, timeframe, session?.startedAt]);
+
+  // Books and candles only stream for the asset on screen; prices always cover every asset.
+  useEffect(() => {
+    if (step !== 'play') return;
+    socketRef.current?.emit('subscribe', { symbols: [selectedAsset] });
+  }, [step, selectedAsset, session?.playerId]);
 
   useEffect(() => {
-    if (!market || !candleSeriesRef.current) return;
-    const candles = market.candles?.[selectedAsset] || [];
+    chartCandlesRef.current = chartCandles;
+    if (!candleSeriesRef.current || !volumeSeriesRef.current) return;
     candleSeriesRef.current.setData(
-      candles.map((candle) => ({
+      chartCandles.map((candle) => ({
         time: (candle.time / 1000) as UTCTimestamp,
         open: candle.open,
         high: candle.high,
@@ -292,38 +1044,305 @@ function App() {
         close: candle.close,
       }))
     );
-  }, [market, selectedAsset]);
+    volumeSeriesRef.current.setData(
+      chartCandles.map((candle) => ({
+        time: (candle.time / 1000) as UTCTimestamp,
+        value: candle.volume,
+        color: candle.close >= candle.open ? 'rgba(31, 157, 85, 0.45)' : 'rgba(239, 68, 68, 0.45)',
+      }))
+    );
+  }, [chartCandles]);
+
+  // Liquidation prices (converted to USD like the chart) and alert levels of the charted asset.
+  useEffect(() => {
+    const series = candleSeriesRef.current;
+    if (!series) return undefined;
+    const lines: IPriceLine[] = [];
+    session?.positions
+      .filter((pos) => pos.symbol === selectedAsset && pos.liquidationPrice)
+      .forEach((pos) => {
+        lines.push(
+          series.createPriceLine({
+            price: (pos.liquidationPrice ?? 0) * (market?.prices[pos.quote] ?? 1),
+            color: '#ef4444',
+            lineWidth: 1,
+            lineStyle: LineStyle.Dashed,
+            axisLabelVisible: true,
+            title: `Liq. ${pos.side} x${pos.leverage}`,
+          })
+        );
+      });
+    session?.alerts
+      .filter((alert) => alert.symbol === selectedAsset && alert.price)
+      .forEach((alert) => {
+        lines.push(
+          series.createPriceLine({
+            price: alert.price ?? 0,
+            color: '#f59e0b',
+            lineWidth: 1,
+            lineStyle: LineStyle.Dotted,
+            axisLabelVisible: true,
+            title: 'Alerte',
+          })
+        );
+      });
+    return () => {
+      // The chart may already be gone along with its series.
+      if (candleSeriesRef.current === series) lines.forEach((line) => series.removePriceLine(line));
+    };
+  }, [step, selectedAsset, session?.positions, session?.alerts, market?.prices]);
+
+  useEffect(() => {
+    notificationsRef.current = notifications;
+    window.localStorage.setItem(notificationsKey, notifications ? 'on' : 'off');
+  }, [notifications]);
+
+  useEffect(() => {
+    window.localStorage.setItem(displayCurrencyKey, displayCurrency);
+  }, [displayCurrency]);
+
+  // USD value of one unit of the display currency.
+  const displayRate = market?.prices?.[displayCurrency] || 1;
+
+  useEffect(() => {
+    if (step !== 'play' || !analyticsChartRef.current) return;
+    const chart = createChart(analyticsChartRef.current, {
+      layout: { background: { color: '#0b1015' }, textColor: '#dfe7ef' },
+      grid: {
+        vertLines: { color: '#1b232d' },
+        horzLines: { color: '#1b232d' },
+      },
+      width: analyticsChartRef.current.clientWidth,
+      height: 240,
+      timeScale: { timeVisible: true },
+    });
+    equitySeriesRef.current = chart.addSeries(LineSeries, { color: '#2b7bff', lineWidth: 2, title: 'Vous' });
+    comparisonSeriesRef.current = chart.addSeries(LineSeries, { color: '#f59e0b', lineWidth: 1 });
+    const resizeObserver = new ResizeObserver(() => {
+      chart.applyOptions({ width: analyticsChartRef.current?.clientWidth || 300 });
+    });
+    resizeObserver.observe(analyticsChartRef.current);
+
+    return () => {
+      chart.remove();
+      resizeObserver.disconnect();
+      equitySeriesRef.current = null;
+      comparisonSeriesRef.current = null;
+    };
+  }, [step]);
+
+  useEffect(() => {
+    if (step !== 'play') return undefined;
+    const fetchAnalytics = () =>
+      socketRef.current?.emit('get_analytics', { compareWith: compareWith || undefined }, (response) => {
+        if (response.code) return;
+        setAnalytics(response);
+      });
+    fetchAnalytics();
+    const interval = setInterval(fetchAnalytics, analyticsRefreshMs);
+    return () => clearInterval(interval);
+  }, [step, compareWith, session?.startedAt]);
+
+  useEffect(() => {
+    if (!equitySeriesRef.current || !comparisonSeriesRef.current) return;
+    equitySeriesRef.current.setData(equityLine(analytics?.player.curve ?? [], displayRate));
+    comparisonSeriesRef.current.setData(equityLine(analytics?.comparison?.curve ?? [], displayRate));
+    comparisonSeriesRef.current.applyOptions({ title: analytics?.comparison?.name ?? '' });
+  }, [analytics, displayRate]);
+
+  // Refetched whenever the server records something new, not on every tick.
+  useEffect(() => {
+    if (step !== 'play' || bottomTab !== 'history') return;
+    socketRef.current?.emit(
+      'get_history',
+      { symbol: historySymbol || undefined, type: historyType || undefined },
+      (response) => {
+        if (response.code) return;
+        setHistory(response.entries);
+        setHistoryTotal(response.total);
+      }
+    );
+  }, [step, bottomTab, historySymbol, historyType, session?.ledgerSize]);
+
+  // Quotes follow the draft; the rate moves with prices, so the preview is refreshed on each tick too.
+  useEffect(() => {
+    const amount = Number(convertDraft.amount);
+    if (step !== 'play' || !amount || amount <= 0 || convertDraft.from === convertDraft.to) {
+      setConvertPreview(null);
+      return;
+    }
+    socketRef.current?.emit('convert', { ...convertDraft, amount, preview: true }, (response) => {
+      setConvertPreview(response.code ? null : response);
+    });
+  }, [step, convertDraft, market?.prices]);
+
+  // The Admin console's journal, loaded once per room; each action's ack appends its entry.
+  const adminHost = Boolean(
+    session?.room.mode === 'Admin' &&
+      !session.room.scenario &&
+      (session.room.isPrivate || session.room.hostId === session.playerId)
+  );
+  useEffect(() => {
+    if (step !== 'play' || !adminHost) return;
+    socketRef.current?.emit('get_admin_log', {}, (response) => {
+      if (!response.code) setAdminLog(response.entries);
+    });
+  }, [step, adminHost, session?.room.id]);
+
+  const adminAck = (response: Reply<{ entry: AdminLogEntry }>) => {
+    if (response.code) setStatus(describeError(response));
+    else setAdminLog((prev) => [...prev, response.entry]);
+  };
+
+  // The hall of fame is plain HTTP: it does not need a session, only the server.
+  useEffect(() => {
+    if (step !== 'hall') return undefined;
+    const hallQuery = hallOfFameQuery(hallFilters);
+    let cancelled = false;
+    Promise.all([
+      fetchJson<HallOfFamePage>(`/hall-of-fame?${hallQuery}`),
+      fetchJson<PlayerProfilesPage>(`/hall-of-fame/players?${hallQuery}`),
+    ])
+      .then(([results, players]) => {
+        if (cancelled) return;
+        setHallResults(results);
+        setHallPlayers(players);
+      })
+      .catch((error: Error) => {
+        console.error('[network] hall of fame request failed', error);
+        if (!cancelled) setStatus(`Hall of fame indisponible (${socketUrl}).`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [step, hallFilters]);
+
+  const showProfile = (name: string) => {
+    fetchJson<PlayerProfileDetail>(`/hall-of-fame/players/${encodeURIComponent(name)}?${hallOfFameQuery(hallFilters)}`)
+      .then(setHallProfile)
+      .catch((error: Error) => console.error('[network] profile request failed', error));
+  };
+
+  // Saved games are plain HTTP too; the server re-simulates them before answering.
+  useEffect(() => {
+    if (!replayGameId) return undefined;
+    let cancelled = false;
+    fetchJson<GameReplay>(`/games/${encodeURIComponent(replayGameId)}`)
+      .then((replay) => {
+        if (cancelled) return;
+        setGameReplay(replay);
+        setReplayFrame(0);
+        setReplayPlaying(false);
+        setStep('rewatch');
+      })
+      .catch((error: Error) => {
+        console.error('[network] game replay request failed', error);
+        if (cancelled) return;
+        setReplayGameId(null);
+        setStatus(errorMessages.GAME_NOT_FOUND);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [replayGameId]);
+
+  useEffect(() => {
+    if (step !== 'rewatch' || !gameReplay || !replayChartRef.current) return undefined;
+    const seriesByPlayer = replaySeriesRef.current;
+    const chart = createChart(replayChartRef.current, {
+      layout: { background: { color: '#0b1015' }, textColor: '#dfe7ef' },
+      grid: {
+        vertLines: { color: '#1b232d' },
+        horzLines: { color: '#1b232d' },
+      },
+      width: replayChartRef.current.clientWidth,
+      height: 280,
+      timeScale: { timeVisible: true },
+    });
+    gameReplay.players.forEach((player, i) => {
+      seriesByPlayer.set(
+        player.id,
+        chart.addSeries(LineSeries, { color: replayLineColors[i % replayLineColors.length], lineWidth: 2, title: player.name })
+      );
+    });
+    const resizeObserver = new ResizeObserver(() => {
+      chart.applyOptions({ width: replayChartRef.current?.clientWidth || 300 });
+    });
+    resizeObserver.observe(replayChartRef.current);
+
+    return () => {
+      chart.remove();
+      resizeObserver.disconnect();
+      seriesByPlayer.clear();
+    };
+  }, [step, gameReplay]);
+
+  // Scrubbing redraws every curve up to the frame being viewed.
+  useEffect(() => {
+    if (!gameReplay) return;
+    const shown = gameReplay.frames.slice(0, replayFrame + 1);
+    replaySeriesRef.current.forEach((series, id) => series.setData(replayEquityLine(shown, id, displayCurrency)));
+  }, [step, gameReplay, replayFrame, displayCurrency]);
+
+  useEffect(() => {
+    if (!replayPlaying || !gameReplay) return undefined;
+    const timeout = setTimeout(() => {
+      if (replayFrame >= gameReplay.frames.length - 1) setReplayPlaying(false);
+      else setReplayFrame(replayFrame + 1);
+    }, replayStepMs);
+    return () => clearTimeout(timeout);
+  }, [replayPlaying, replayFrame, gameReplay]);
+
+  const openGameReplay = (id: string) => {
+    setStatus('');
+    setReplayReturn(step);
+    if (id === gameReplay?.id) setStep('rewatch');
+    else setReplayGameId(id);
+  };
 
-  const setPattern = () => {
-    const choice = patterns[Math.floor(Math.random() * patterns.length)];
-    patternRef.current = choice;
+  const closeGameReplay = () => {
+    setReplayPlaying(false);
+    setStep(replayReturn);
+  };
+
+  const copyReplayLink = () => {
+    if (!gameReplay) return;
+    const link = `${window.location.origin}${window.location.pathname}?game=${gameReplay.id}`;
+    navigator.clipboard
+      .writeText(link)
+      .then(() => setStatus('Lien de la partie copié.'))
+      .catch(() => setStatus(link));
+  };
+
+  const historyExportUrl = (format: 'csv' | 'json') => {
+    const params = new URLSearchParams({ token: session?.sessionToken || '', format });
+    if (historySymbol) params.set('symbol', historySymbol);
+    if (historyType) params.set('type', historyType);
+    return `${socketUrl}/history?${params.toString()}`;
   };
 
   useEffect(() => {
-    if (!session?.startedAt) return undefined;
-    const startedAt = session.startedAt;
-    const interval = setInterval(() => {
-      const elapsed = Date.now() - startedAt;
-      const remaining = Math.max(0, 15 * 60 * 1000 - elapsed);
-      const minutes = Math.floor(remaining / 60000);
-      const seconds = Math.floor((remaining % 60000) / 1000)
-        .toString()
-        .padStart(2, '0');
-      setTimeLeft(`${minutes}:${seconds}`);
-    }, 1000);
+    if (!roundClock) return undefined;
+    const interval = setInterval(() => setClockNow(Date.now()), 1000);
     return () => clearInterval(interval);
-  }, [session?.startedAt]);
+  }, [roundClock]);
 
-  const handleStart = () => {
+  const timeLeft = roundClock
+    ? formatDuration(Math.max(0, roundClock.remainingMs - (clockNow - roundClock.receivedAt)))
+    : '--:--';
+
+  // Runs `emit` once the socket is connected, connecting first if needed.
+  const withConnection = (emit: (socketClient: GameSocket) => void) => {
     if (!playerName.trim()) {
       setStatus('Merci de saisir un nom de joueur.');
       return;
     }
     const socketClient = socketRef.current || socket;
+    setRoomFeed([]);
     const startGame = () => {
       setStatus(`Connexion au serveur (${socketUrl}) | Provider prix : ${priceProvider}`);
       setConnecting(true);
-      socketClient.emit('start_game', { playerName, difficulty, mode, priceProvider });
+      emit(socketClient);
     };
 
     if (socketClient.connected) {
@@ -346,67 +1365,418 @@ function App() {
     setConnecting(true);
   };
 
-  const handleOrder = () => {
-    if (!orderForm.size || orderForm.size <= 0) {
-      setStatus('Veuillez saisir une taille d\'ordre valide.');
+  const selectReplayDataset = (id: string) => {
+    const dataset = replayDatasets.find((d) => d.id === id);
+    setReplayDataset(id);
+    setReplayFrom(dataset ? toLocalInput(dataset.from) : '');
+    setReplayTo(dataset ? toLocalInput(dataset.to) : '');
+  };
+
+  const handlePriceProvider = (provider: PriceProvider) => {
+    setPriceProvider(provider);
+    if (provider === 'replay' && !replayDataset && replayDatasets.length) selectReplayDataset(replayDatasets[0].id);
+  };
+
+  // The server clamps the range to the dataset and falls back to the internal feed if it is unusable.
+  const replayRequest = () => ({
+    dataset: replayDataset || replayDatasets[0]?.id,
+    from: replayFrom ? new Date(replayFrom).getTime() : undefined,
+    to: replayTo ? new Date(replayTo).getTime() : undefined,
+    speed: replaySpeed,
+  });
+
+  const roomRequest = () => ({
+    playerName,
+    difficulty,
+    mode,
+    priceProvider,
+    replay: replayRequest(),
+    hideHints,
+    rankNetOfFees,
+    fees: { maker: adminFees.maker / 100, taker: adminFees.taker / 100, spread: adminFees.spread / 100 },
+    scenario: scenarioId,
+    seed,
+    daily,
+  });
+
+  const handleStart = () =>
+    withConnection((socketClient) => {
+      socketClient.emit('start_game', roomRequest());
+    });
+
+  const handleCreateRoom = () =>
+    withConnection((socketClient) => {
+      socketClient.emit('create_room', roomRequest());
+    });
+
+  const handleJoinRoom = () => {
+    if (!roomCode.trim()) {
+      setStatus('Merci de saisir un code de salle.');
       return;
     }
-    socketRef.current?.emit('place_order', orderForm, (response: { error?: string; convertedFromUsd?: number; pairPrice?: number }) => {
-      if (response?.error) {
-        setStatus(response.error);
-      } else {
-        const conversionNote = response.convertedFromUsd
-          ? ` | ${formatter.format(response.convertedFromUsd)} USD convertis en ${orderForm.quote}`
-          : '';
-        setStatus(`Ordre exécuté sur ${orderForm.base}/${orderForm.quote} à ${formatPrice(response.pairPrice)}${conversionNote}`);
-      }
+    withConnection((socketClient) => {
+      socketClient.emit('join_room', { playerName, code: roomCode }, (response) => {
+        if (response.code) {
+          setStatus(describeError(response));
+          setConnecting(false);
+        }
+      });
     });
   };
 
-  const handleFaucet = () => {
-    socketRef.current?.emit('claim_faucet');
+  const handleToggleReady = () => {
+    const ready = !session?.room.members.find((m) => m.id === session.playerId)?.ready;
+    socketRef.current?.emit('set_ready', { ready });
   };
 
-  const aggregatedBalanceValue = () => {
-    if (!session || !market) return 0;
-    const totalUsd = Object.entries(session.holdings).reduce((acc, [currency, amount]) => {
-      const price = market.prices?.[currency] || 1;
-      return acc + amount * price;
-    }, 0);
-    return totalUsd + session.realizedPnl + session.unrealizedPnl;
-  };
-
-  const aggregatedBalanceDisplay = () => formatter.format(aggregatedBalanceValue());
-
-  const leaderboard = (session?.bots || [])
-    .concat(
-      session
-        ? [{
-            id: 'player',
-            name: `${session.playerName} (Vous)`,
-            balance: aggregatedBalanceValue(),
-            realizedPnl: session.realizedPnl,
-            unrealizedPnl: session.unrealizedPnl,
-          }]
-        : []
-    )
-    .sort((a, b) => b.realizedPnl - a.realizedPnl)
-    .slice(0, 21);
+  const handleRoomSettings = (
+    changes: Partial<
+      Pick<RoomState, 'difficulty' | 'mode' | 'priceProvider' | 'hideHints' | 'rankNetOfFees' | 'fees' | 'daily'>
+    > & {
+      scenario?: string;
+      seed?: string;
+    }
+  ) => {
+    if (!session) return;
+    const { difficulty: d, mode: m, priceProvider: p, hideHints: h, rankNetOfFees: r, fees: f, scenario: sc } = session.room;
+    socketRef.current?.emit(
+      'update_room_settings',
+      {
+        difficulty: d,
+        mode: m,
+        priceProvider: p,
+        hideHints: h,
+        rankNetOfFees: r,
+        fees: f,
+        replay: session.room.replay || replayRequest(),
+        scenario: sc?.id ?? '',
+        seed: session.room.seed ?? '',
+        daily: session.room.daily,
+        ...changes,
+      },
+      (response) => {
+        if (response.code) setStatus(describeError(response));
+      }
+    );
+  };
+
+  const handleStartRoom = () => {
+    socketRef.current?.emit('start_room', {}, (response) => {
+      if (response.code) {
+        setStatus(describeError(response));
+      }
+    });
+  };
+
+  const handleOrder = () => {
+    if (!orderForm.size || orderForm.size <= 0) {
+      setStatus('Veuillez saisir une taille d\'ordre valide.');
+      return;
+    }
+    // Spot orders swap balances: no leverage, no position to reduce and nothing to protect.
+    const order =
+      orderForm.wallet === 'spot' ? { ...orderForm, leverage: 1, reduceOnly: false, takeProfit: 0, stopLoss: 0 } : orderForm;
+    socketRef.current?.emit('place_order', order, (response) => {
+      if (response.code) {
+        setStatus(describeError(response));
+      } else if (response.resting) {
+        const fillNote = response.filledSize ? ` | ${describeFill(response)}` : '';
+        setStatus(`Ordre ${orderTypeLabels[orderForm.type]} placé sur ${orderForm.base}/${orderForm.quote}${fillNote}.`);
+      } else {
+        const closeNote = response.closedQuantity
+          ? ` | ${response.closedQuantity.toFixed(4)} clôturés (PnL ${formatter.format(response.realizedPnl ?? 0)} ${orderForm.quote})${response.flipped ? ', position retournée' : ''}`
+          : '';
+        setStatus(
+          `Ordre ${walletLabels[response.wallet ?? orderForm.wallet]} exécuté sur ${orderForm.base}/${orderForm.quote} : ${describeFill(response)}${closeNote}`
+        );
+      }
+    });
+  };
+
+  const handleClosePosition = (position: Position, fraction: number) => {
+    socketRef.current?.emit('close_position', { positionId: position.id, fraction }, (response) => {
+      if (response.code) {
+        setStatus(describeError(response));
+      } else {
+        setStatus(
+          `${position.symbol}/${position.quote} : ${(response.closedQuantity ?? 0).toFixed(4)} clôturés à ${formatPrice(response.averagePrice)} | PnL ${formatter.format(response.realizedPnl ?? 0)} ${position.quote}${describeCosts(response)}`
+        );
+      }
+    });
+  };
+
+  const handleAdjustMargin = (position: Position, direction: 1 | -1) => {
+    const amount = Number(marginDrafts[position.id]);
+    if (!amount || amount <= 0) {
+      setStatus('Veuillez saisir un montant de marge valide.');
+      return;
+    }
+    socketRef.current?.emit(
+      'adjust_margin',
+      { positionId: position.id, amount: direction * amount },
+      (response) => {
+        if (response.code) {
+          setStatus(describeError(response));
+          return;
+        }
+        setStatus(
+          `${position.symbol}/${position.quote} : marge ${formatter.format(response.margin)} ${position.quote}, levier effectif x${response.leverage}, liquidation à ${formatPrice(response.liquidationPrice ?? undefined)}.`
+        );
+        setMarginDrafts((prev) => ({ ...prev, [position.id]: '' }));
+      }
+    );
+  };
+
+  const handleCreateAlert = () => {
+    const value = Number(alertValue);
+    if (!value || value <= 0) {
+      setStatus("Veuillez saisir un seuil d'alerte valide.");
+      return;
+    }
+    socketRef.current?.emit(
+      'create_alert',
+      { symbol: selectedAsset, kind: alertKind, ...(alertKind === 'move' ? { percent: value } : { price: value }) },
+      (response) => {
+        if (response.code) {
+          setStatus(describeError(response));
+          return;
+        }
+        setStatus(`Alerte créée : ${describeAlert(response.alert)}.`);
+        setAlertValue('');
+      }
+    );
+  };
+
+  const handleDeleteAlert = (alert: PriceAlert) => {
+    socketRef.current?.emit('delete_alert', { alertId: alert.id }, (response) => {
+      if (response.code) setStatus(describeError(response));
+    });
+  };
+
+  const handleMarginCallDistance = () => {
+    const distancePct = Number(marginCallDraft);
+    socketRef.current?.emit('set_margin_call', { distancePct }, (response) => {
+      if (response.code) {
+        setStatus(describeError(response));
+        return;
+      }
+      setStatus(`Appel de marge à ${response.distancePct} % du prix de liquidation.`);
+      setMarginCallDraft('');
+    });
+  };
+
+  const handleNotifications = (enabled: boolean) => {
+    if (!enabled || !('Notification' in window)) {
+      setNotifications(false);
+      return;
+    }
+    Notification.requestPermission().then((permission) => setNotifications(permission === 'granted'));
+  };
+
+  const handleCancelOrder = (order: RestingOrder) => {
+    socketRef.current?.emit('cancel_order', { orderId: order.id }, (response) => {
+      setStatus(response.code ? describeError(response) : `Ordre ${orderTypeLabels[order.type]} annulé.`);
+    });
+  };
+
+  const handleAmendOrder = (order: RestingOrder) => {
+    const price = Number(amendDrafts[order.id]);
+    if (!price || price <= 0) {
+      setStatus('Veuillez saisir un prix valide.');
+      return;
+    }
+    socketRef.current?.emit(
+      'amend_order',
+      { orderId: order.id, [amendableField(order)]: price },
+      (response) => {
+        setStatus(response.code ? describeError(response) : `Ordre ${orderTypeLabels[order.type]} modifié à ${formatPrice(price)}.`);
+        if (!response.code) {
+          setAmendDrafts((prev) => {
+            const next = { ...prev };
+            delete next[order.id];
+            return next;
+          });
+        }
+      }
+    );
+  };
+
+  const handleContinueRound = () => {
+    socketRef.current?.emit('continue_round', {}, (response) => {
+      setStatus(response.code ? describeError(response) : `Manche ${response.round} lancée, vos soldes sont conservés.`);
+    });
+  };
+
+  const handleRestartRound = () => {
+    socketRef.current?.emit('restart_round', {}, (response) => {
+      if (response.code) setStatus(describeError(response));
+    });
+  };
+
+  const handleLeave = () => {
+    socketRef.current?.emit('leave_session', {});
+    window.localStorage.removeItem(sessionTokenKey);
+    setSession(null);
+    setMarket(null);
+    setRoundClock(null);
+    setRoomFeed([]);
+    setStep('setup');
+    setStatus('');
+  };
+
+  const handleTransfer = (to: Wallet) => {
+    const amount = Number(transferDraft.amount);
+    if (!amount || amount <= 0) {
+      setStatus('Veuillez saisir un montant à transférer valide.');
+      return;
+    }
+    socketRef.current?.emit('transfer', { currency: transferDraft.currency, amount, to }, (response) => {
+      if (response.code) {
+        setStatus(describeError(response));
+        return;
+      }
+      setStatus(`${formatter.format(amount)} ${response.currency} transférés vers le wallet ${walletLabels[to]}.`);
+      setTransferDraft((prev) => ({ ...prev, amount: '' }));
+    });
+  };
+
+  const handleConvert = () => {
+    const amount = Number(convertDraft.amount);
+    if (!amount || amount <= 0) {
+      setStatus('Veuillez saisir un montant à convertir valide.');
+      return;
+    }
+    socketRef.current?.emit('convert', { ...convertDraft, amount }, (response) => {
+      if (response.code) {
+        setStatus(describeError(response));
+        return;
+      }
+      setStatus(`${formatter.format(amount)} ${response.from} convertis en ${response.received} ${response.to}.`);
+      setConvertDraft((prev) => ({ ...prev, amount: '' }));
+    });
+  };
+
+  const handleFaucet = () => {
+    socketRef.current?.emit('claim_faucet', {}, (response) => {
+      if (response.code) setStatus(describeError(response));
+    });
+  };
+
+  const walletAssets = session
+    ? Array.from(new Set([...Object.keys(session.holdings), ...Object.keys(session.derivatives)]))
+    : [];
+
+  const walletUsdValue = (currency: string) =>
+    ((session?.holdings[currency] ?? 0) + (session?.derivatives[currency] ?? 0)) * (market?.prices?.[currency] || 1);
+
+  const aggregatedBalanceValue = () => {
+    if (!session || !market) return 0;
+    const totalUsd = walletAssets.reduce((acc, currency) => acc + walletUsdValue(currency), 0);
+    // Realized PnL is already credited to the wallets; open positions count for their locked margin.
+    const marginUsd = session.positions.reduce(
+      (acc, pos) => acc + pos.margin * (market.prices?.[pos.quote] || 1),
+      0
+    );
+    return totalUsd + marginUsd + session.unrealizedPnl;
+  };
+
+
+  const leaderboard = session?.leaderboard || [];
+  const rankedBots = [...(analytics?.bots ?? [])].sort((a, b) => b.stats.returnPct - a.stats.returnPct);
+  const comparedBot = analytics?.bots.find((bot) => bot.id === compareWith);
+  const isHost = Boolean(session && (session.room.isPrivate || session.room.hostId === session.playerId));
+  const self = session?.room.members.find((m) => m.id === session.playerId);
 
   const activePrice = market?.prices?.[selectedAsset];
   const activeOrderBook = market?.orderBook?.[selectedAsset];
+  const activeFunding = market?.funding?.rates[selectedAsset];
+  const leverageCap = leverageCaps[session?.room.mode ?? mode];
+  const activeFees = currentFeeRates(market?.fees, session?.volumeUsd ?? 0);
+  const money = moneyFormatter(displayCurrency, market?.prices);
+  const replayShown = gameReplay?.frames[replayFrame];
+  const replayMoney = moneyFormatter(displayCurrency, replayShown?.prices as Record<string, number> | undefined);
+  // Latest first, like the live feed.
+  const replayLog = (gameReplay?.frames.slice(0, replayFrame + 1) ?? [])
+    .flatMap((frame) => [
+      ...frame.actions.map((action, i) => ({
+        key: `${frame.tick}-a${i}`,
+        kind: 'action',
+        time: frame.time,
+        text: describeRecordedAction(action),
+      })),
+      ...frame.events.map((event, i) => ({
+        key: `${frame.tick}-e${i}`,
+        kind: event.type,
+        time: frame.time,
+        text: describeRoomEvent(event, replayMoney),
+      })),
+    ])
+    .reverse();
   const realized = session?.realizedPnl ?? 0;
   const unrealized = session?.unrealizedPnl ?? 0;
+  const selectedScenario = daily ? undefined : scenarios.find((scenario) => scenario.id === scenarioId);
+
+  // The brief lists bare objectives; in play and in the results they carry a status and progress.
+  const renderObjectives = (objectives: (Partial<ScenarioObjective> & ScenarioObjectiveSpec)[]) => (
+    <ul className="objectives">
+      {objectives.map((objective, i) => {
+        const progress = objectiveProgress(objective, money);
+        return (
+          <li key={i} className={objective.status}>
+            {describeObjective(objective, money)}
+            {objective.status && (
+              <span className="muted">
+                {' '}
+                · {objectiveStatusLabels[objective.status]}
+                {progress && ` · ${progress}`}
+              </span>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  // Shared by the setup screen and the lobby.
+  const renderScenarioBrief = (scenario: ScenarioSummary) => (
+    <div className="scenario-brief">
+      <p>{scenario.description}</p>
+      <p className="muted">
+        {scenario.difficulty} · {scenario.mode} · {formatDuration(scenario.durationMs)}
+        {scenario.assets && ` · ${scenario.assets.join(', ')}`} · {scenario.events} événement(s) scripté(s)
+      </p>
+      {renderObjectives(scenario.objectives)}
+    </div>
+  );
 
   return (
     <div className="app-shell">
       <header className="nav">
         <div className="brand">Cryptycoon</div>
         <div className="meta">
-          <span className="pill">Difficulté : {difficulty}</span>
-          <span className="pill">Mode : {mode}</span>
-          <span className="pill">API Prix : {session?.priceProvider || priceProvider}</span>
+          <span className="pill">Difficulté : {session?.difficulty || difficulty}</span>
+          <span className="pill">Mode : {session?.mode || mode}</span>
+          <span className={classNames('pill', market?.feed?.status)} title="Source et fraîcheur des prix">
+            API Prix : {session?.priceProvider || priceProvider}
+            {session?.room.replay && ` · ${session.room.replay.dataset} x${session.room.replay.speed}`}
+            {market?.feed && ` · ${describeFeed(market.feed)}`}
+          </span>
           <span className="pill">Timer : {timeLeft}</span>
+          <label className="pill currency-select">
+            Devise
+            <select value={displayCurrency} onChange={(e) => setDisplayCurrency(e.target.value as FiatCurrency)}>
+              {fiatCurrencies.map((currency) => (
+                <option key={currency}>{currency}</option>
+              ))}
+            </select>
+          </label>
+          {session?.room.daily && <span className="pill">Défi du jour</span>}
+          {session && !session.room.isPrivate && <span className="pill">Salle : {session.room.code}</span>}
+          {session && (
+            <button className="ghost" onClick={handleLeave}>
+              Quitter la partie
+            </button>
+          )}
         </div>
       </header>
 
@@ -417,10 +1787,259 @@ function App() {
             <p>
               Simulez un exchange crypto sombre façon Binance : order book en direct, chandeliers, bots concurrents, levier jusqu\'à x200 et difficultés qui réagissent à votre trading.
             </p>
-            <button className="primary" onClick={() => setStep('setup')}>
-              Suivant
+            <div className="side-buttons">
+              <button className="primary" onClick={() => setStep('setup')}>
+                Suivant
+              </button>
+              <button className="secondary" onClick={() => setStep('hall')}>
+                Hall of fame
+              </button>
+            </div>
+          </div>
+        </section>
+      )}
+
+      {step === 'hall' && (
+        <section className="panel hall">
+          <div className="panel-header">
+            <h1>Hall of fame</h1>
+            <button className="secondary" onClick={() => setStep('welcome')}>
+              Retour
+            </button>
+          </div>
+          <div className="form-grid">
+            <label>
+              Difficulté
+              <select
+                value={hallFilters.difficulty ?? ''}
+                onChange={(e) => setHallFilters({ ...hallFilters, difficulty: (e.target.value || undefined) as Difficulty })}
+              >
+                <option value="">Toutes</option>
+                {difficulties.map((d) => (
+                  <option key={d}>{d}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Mode de jeu
+              <select
+                value={hallFilters.mode ?? ''}
+                onChange={(e) => setHallFilters({ ...hallFilters, mode: (e.target.value || undefined) as Mode })}
+              >
+                <option value="">Tous</option>
+                {modes.map((m) => (
+                  <option key={m}>{m}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Période
+              <select
+                value={hallFilters.period}
+                onChange={(e) => setHallFilters({ ...hallFilters, period: e.target.value as HallView['period'] })}
+              >
+                <option value="all">Depuis toujours</option>
+                <option value="week">7 derniers jours</option>
+                <option value="daily">Défi du jour</option>
+              </select>
+            </label>
+          </div>
+          <h3>Meilleures parties ({hallResults?.total ?? 0})</h3>
+          <div className="table-wrapper">
+            <table>
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Joueur</th>
+                  <th>Partie</th>
+                  <th>PnL réalisé</th>
+                  <th>Rendement</th>
+                  <th>Drawdown max</th>
+                  <th>Durée</th>
+                  <th>Date</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {hallResults?.results.map((result, i) => (
+                  <tr key={result.id} className="selectable" onClick={() => showProfile(result.playerName)}>
+                    <td>{i + 1}</td>
+                    <td>
+                      {result.playerName}
+                      {result.isAlgo && <span className="tag algo">Bot API</span>}
+                    </td>
+                    <td>
+                      {result.difficulty} · {result.mode} · {priceProviderLabels[result.priceProvider]}
+                      {result.scenario && <span className="tag">{result.scenario}</span>}
+                      {result.daily && <span className="tag">Défi du jour</span>}
+                    </td>
+                    <td className={result.realizedPnl >= 0 ? 'buy' : 'sell'}>{money(result.realizedPnl)}</td>
+                    <td>{formatter.format(result.returnPct)} %</td>
+                    <td>{formatter.format(result.maxDrawdownPct)} %</td>
+                    <td>{formatDuration(result.durationMs)}</td>
+                    <td>{new Date(result.endedAt).toLocaleDateString()}</td>
+                    <td>
+                      {result.gameId && (
+                        <button
+                          className="ghost"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            openGameReplay(result.gameId as string);
+                          }}
+                        >
+                          Revoir
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <h3>Joueurs ({hallPlayers?.total ?? 0})</h3>
+          <div className="table-wrapper">
+            <table>
+              <thead>
+                <tr>
+                  <th>Joueur</th>
+                  <th>Parties</th>
+                  <th>Victoires</th>
+                  <th>PnL cumulé</th>
+                  <th>Meilleur PnL</th>
+                  <th>Rendement moyen</th>
+                  <th>Pire drawdown</th>
+                  <th>Temps de jeu</th>
+                </tr>
+              </thead>
+              <tbody>
+                {hallPlayers?.players.map((profile) => (
+                  <tr
+                    key={profile.playerName}
+                    className={classNames('selectable', { you: profile.playerName === hallProfile?.profile.playerName })}
+                    onClick={() => showProfile(profile.playerName)}
+                  >
+                    <td>{profile.playerName}</td>
+                    <td>{profile.games}</td>
+                    <td>{profile.wins}</td>
+                    <td className={profile.realizedPnl >= 0 ? 'buy' : 'sell'}>{money(profile.realizedPnl)}</td>
+                    <td>{money(profile.bestRealizedPnl)}</td>
+                    <td>{formatter.format(profile.averageReturnPct)} %</td>
+                    <td>{formatter.format(profile.worstDrawdownPct)} %</td>
+                    <td>{formatDuration(profile.playTimeMs)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {hallProfile && (
+            <>
+              <h3>
+                {hallProfile.profile.playerName} : {hallProfile.profile.trades} trades, {hallProfile.profile.liquidations}{' '}
+                liquidation(s), joue depuis le {new Date(hallProfile.profile.firstPlayedAt).toLocaleDateString()}
+              </h3>
+              <ul className="muted">
+                {hallProfile.results.map((result) => (
+                  <li key={result.id}>
+                    {new Date(result.endedAt).toLocaleString()} · {result.difficulty} · {result.mode} :{' '}
+                    {money(result.realizedPnl)} ({formatter.format(result.returnPct)} %), {result.rounds} manche(s)
+                    {result.won && ' · victoire'}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+          {status && <p className="status">{status}</p>}
+        </section>
+      )}
+
+      {step === 'rewatch' && gameReplay && (
+        <section className="panel rewatch">
+          <div className="panel-header">
+            <div>
+              <h1>Revoir la partie</h1>
+              <p className="muted">
+                {gameReplay.difficulty} · {gameReplay.mode}
+                {gameReplay.scenario && ` · ${gameReplay.scenario}`} · seed <code>{gameReplay.seed}</code> ·{' '}
+                {new Date(gameReplay.startedAt).toLocaleString()}
+                {gameReplay.daily && <span className="tag">Défi du jour</span>}
+                <span className={classNames('tag', gameReplay.verified ? 'passed' : 'failed')}>
+                  {gameReplay.verified ? 'Résultats vérifiés' : 'Résultats divergents'}
+                </span>
+              </p>
+            </div>
+            <div className="row-actions">
+              <button className="ghost" onClick={copyReplayLink}>
+                Copier le lien
+              </button>
+              <button className="ghost" onClick={closeGameReplay}>
+                Retour
+              </button>
+            </div>
+          </div>
+          <div className="chart-controls">
+            <button
+              className="ghost"
+              onClick={() => {
+                if (replayFrame >= gameReplay.frames.length - 1) setReplayFrame(0);
+                setReplayPlaying(!replayPlaying);
+              }}
+            >
+              {replayPlaying ? 'Pause' : 'Lecture'}
             </button>
+            <input
+              className="replay-scrubber"
+              type="range"
+              min={0}
+              max={Math.max(gameReplay.frames.length - 1, 0)}
+              value={replayFrame}
+              onChange={(e) => setReplayFrame(Number(e.target.value))}
+            />
+            {replayShown && (
+              <span className="muted">
+                Manche {replayShown.round} · {formatDuration(replayShown.time - gameReplay.startedAt)}
+              </span>
+            )}
+          </div>
+          <div ref={replayChartRef} className="chart-area" />
+          {replayShown && (
+            <div className="price-strip">
+              {Object.entries(replayShown.prices)
+                .filter(([symbol]) => !fiatCurrencies.includes(symbol as FiatCurrency))
+                .map(([symbol, price]) => (
+                  <span key={symbol}>
+                    {symbol} : {formatPrice(price as number)}
+                  </span>
+                ))}
+            </div>
+          )}
+          <div className="analytics-body">
+            <div className="table-wrapper">
+              <table>
+                <thead>
+                  <tr>
+                    <th>Joueur</th>
+                    <th>Équité</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {gameReplay.players.map((player) => (
+                    <tr key={player.id} className={player.id === session?.playerId ? 'you' : ''}>
+                      <td>{player.name}</td>
+                      <td>{replayMoney(replayShown?.equity[player.id] ?? null)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <ul className="replay-log">
+              {replayLog.map((entry) => (
+                <li key={entry.key} className={entry.kind}>
+                  {formatDuration(entry.time - gameReplay.startedAt)} · {entry.text}
+                </li>
+              ))}
+            </ul>
           </div>
+          {status && <p className="status">{status}</p>}
         </section>
       )}
 
@@ -429,11 +2048,31 @@ function App() {
           <div className="form-grid">
             <label>
               Nom du joueur
-              <input value={playerName} onChange={(e) => setPlayerName(e.target.value)} placeholder="Satoshi" />
+              <input
+                value={playerName}
+                maxLength={playerNameMaxLength}
+                onChange={(e) => setPlayerName(e.target.value)}
+                placeholder="Satoshi"
+              />
+            </label>
+            <label>
+              Scénario
+              <select value={daily ? '' : scenarioId} disabled={daily} onChange={(e) => setScenarioId(e.target.value)}>
+                <option value="">Partie libre</option>
+                {scenarios.map((scenario) => (
+                  <option key={scenario.id} value={scenario.id}>
+                    {scenario.title}
+                  </option>
+                ))}
+              </select>
             </label>
             <label>
               Difficulté
-              <select value={difficulty} onChange={(e) => setDifficulty(e.target.value as Difficulty)}>
+              <select
+                value={daily ? dailySetup.difficulty : selectedScenario?.difficulty ?? difficulty}
+                disabled={daily || Boolean(selectedScenario)}
+                onChange={(e) => setDifficulty(e.target.value as Difficulty)}
+              >
                 {difficulties.map((d) => (
                   <option key={d}>{d}</option>
                 ))}
@@ -441,7 +2080,11 @@ function App() {
             </label>
             <label>
               Mode de jeu
-              <select value={mode} onChange={(e) => setMode(e.target.value as Mode)}>
+              <select
+                value={daily ? dailySetup.mode : selectedScenario?.mode ?? mode}
+                disabled={daily || Boolean(selectedScenario)}
+                onChange={(e) => setMode(e.target.value as Mode)}
+              >
                 {modes.map((m) => (
                   <option key={m}>{m}</option>
                 ))}
@@ -450,56 +2093,444 @@ function App() {
             <label>
               Source des prix
               <select
-                value={priceProvider}
-                onChange={(e) => setPriceProvider(e.target.value as PriceProvider)}
+                value={daily || selectedScenario ? dailySetup.priceProvider : priceProvider}
+                disabled={daily || Boolean(selectedScenario)}
+                onChange={(e) => handlePriceProvider(e.target.value as PriceProvider)}
               >
                 {priceProviders.map((provider) => (
-                  <option key={provider} value={provider}>
-                    {provider === 'internal' ? 'Interne (sans API externe)' : provider}
+                  <option key={provider} value={provider} disabled={provider === 'replay' && !replayDatasets.length}>
+                    {priceProviderLabels[provider]}
                   </option>
                 ))}
               </select>
             </label>
+            {priceProvider === 'replay' && !selectedScenario && !daily && (
+              <>
+                <label>
+                  Jeu de données
+                  <select value={replayDataset} onChange={(e) => selectReplayDataset(e.target.value)}>
+                    {replayDatasets.map((dataset) => (
+                      <option key={dataset.id} value={dataset.id}>
+                        {dataset.id} ({dataset.assets.join(', ')})
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  Début
+                  <input type="datetime-local" value={replayFrom} onChange={(e) => setReplayFrom(e.target.value)} />
+                </label>
+                <label>
+                  Fin
+                  <input type="datetime-local" value={replayTo} onChange={(e) => setReplayTo(e.target.value)} />
+                </label>
+                <label>
+                  Vitesse
+                  <select value={replaySpeed} onChange={(e) => setReplaySpeed(Number(e.target.value) as ReplaySpeed)}>
+                    {replaySpeeds.map((speed) => (
+                      <option key={speed} value={speed}>
+                        x{speed}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </>
+            )}
+            <label>
+              Seed
+              <input
+                value={daily ? '' : seed}
+                maxLength={64}
+                disabled={daily}
+                onChange={(e) => setSeed(e.target.value)}
+                placeholder="Aléatoire"
+              />
+            </label>
           </div>
+          <label className="checkbox">
+            <input type="checkbox" checked={daily} onChange={(e) => setDaily(e.target.checked)} />
+            Défi du jour : même marché pour tout le monde aujourd'hui, en Medium · EZ-Mode
+          </label>
+          {selectedScenario && renderScenarioBrief(selectedScenario)}
+          {difficulty === 'Hard' && (
+            <label className="checkbox">
+              <input type="checkbox" checked={hideHints} onChange={(e) => setHideHints(e.target.checked)} />
+              Masquer les indices de figures (le graphique seul)
+            </label>
+          )}
+          {mode === 'Admin' && (
+            <div className="grid">
+              {(['maker', 'taker', 'spread'] as const).map((key) => (
+                <label key={key}>
+                  {feeLabels[key]} (%)
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={adminFees[key]}
+                    onChange={(e) => setAdminFees({ ...adminFees, [key]: Number(e.target.value) })}
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+          <label className="checkbox">
+            <input type="checkbox" checked={rankNetOfFees} onChange={(e) => setRankNetOfFees(e.target.checked)} />
+            Classer le leaderboard net des frais
+          </label>
           <p className="muted">
             Real-World met à jour les cours toutes les 3s avec les marchés réels. Easy, Medium et Hard génèrent leurs propres patterns : falling wedges, fake breakouts et autres surprises.
           </p>
           <p className="muted">
             Serveur ciblé : <code>{socketUrl}</code>. Choisissez "Interne" si les API Binance ou CoinGecko sont injoignables.
           </p>
-          <button className="primary" onClick={handleStart} disabled={connecting}>
-            {connecting ? 'Connexion...' : 'Lancer la partie'}
-          </button>
+          <p className="muted">
+            Le replay rejoue des fichiers OHLCV historiques bougie par bougie, hors ligne
+            {replayDatasets.length ? ` : ${replayDatasets.length} jeu(x) de données disponible(s).` : ' : aucun jeu de données trouvé sur le serveur.'}
+          </p>
+          <div className="side-buttons">
+            <button className="primary" onClick={handleStart} disabled={connecting}>
+              {connecting ? 'Connexion...' : 'Lancer la partie'}
+            </button>
+            <button className="secondary" onClick={handleCreateRoom} disabled={connecting}>
+              Créer une salle multijoueur
+            </button>
+          </div>
+          <div className="join-room">
+            <label>
+              Code de salle
+              <input value={roomCode} onChange={(e) => setRoomCode(e.target.value.toUpperCase())} placeholder="ABC123" />
+            </label>
+            <button className="secondary" onClick={handleJoinRoom} disabled={connecting}>
+              Rejoindre
+            </button>
+          </div>
+          {status && <p className="status">{status}</p>}
+        </section>
+      )}
+
+      {step === 'lobby' && session && (
+        <section className="panel lobby">
+          <h1>Salle {session.room.code}</h1>
+          <p className="muted">Partagez ce code : les réglages choisis par l'hôte s'appliquent à tout le monde.</p>
+          <div className="form-grid">
+            <label>
+              Scénario
+              <select
+                value={session.room.scenario?.id ?? ''}
+                disabled={!isHost || session.room.daily}
+                onChange={(e) => handleRoomSettings({ scenario: e.target.value })}
+              >
+                <option value="">Partie libre</option>
+                {scenarios.map((scenario) => (
+                  <option key={scenario.id} value={scenario.id}>
+                    {scenario.title}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Difficulté
+              <select
+                value={session.room.difficulty}
+                disabled={!isHost || Boolean(session.room.scenario) || session.room.daily}
+                onChange={(e) => handleRoomSettings({ difficulty: e.target.value as Difficulty })}
+              >
+                {difficulties.map((d) => (
+                  <option key={d}>{d}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Mode de jeu
+              <select
+                value={session.room.mode}
+                disabled={!isHost || Boolean(session.room.scenario) || session.room.daily}
+                onChange={(e) => handleRoomSettings({ mode: e.target.value as Mode })}
+              >
+                {modes.map((m) => (
+                  <option key={m}>{m}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Source des prix
+              <select
+                value={session.room.priceProvider}
+                disabled={!isHost || Boolean(session.room.scenario) || session.room.daily}
+                onChange={(e) => handleRoomSettings({ priceProvider: e.target.value as PriceProvider })}
+              >
+                {priceProviders.map((provider) => (
+                  <option key={provider} value={provider} disabled={provider === 'replay' && !replayDatasets.length}>
+                    {priceProviderLabels[provider]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Seed
+              <input
+                key={session.room.seed ?? ''}
+                defaultValue={session.room.seed ?? ''}
+                maxLength={64}
+                disabled={!isHost || session.room.daily}
+                onBlur={(e) => e.target.value !== (session.room.seed ?? '') && handleRoomSettings({ seed: e.target.value })}
+                placeholder="Aléatoire"
+              />
+            </label>
+          </div>
+          <label className="checkbox">
+            <input
+              type="checkbox"
+              checked={session.room.daily}
+              disabled={!isHost}
+              onChange={(e) => handleRoomSettings({ daily: e.target.checked })}
+            />
+            Défi du jour
+          </label>
+          {session.room.difficulty === 'Hard' && (
+            <label className="checkbox">
+              <input
+                type="checkbox"
+                checked={session.room.hideHints}
+                disabled={!isHost}
+                onChange={(e) => handleRoomSettings({ hideHints: e.target.checked })}
+              />
+              Masquer les indices de figures
+            </label>
+          )}
+          {session.room.mode === 'Admin' && (
+            <div className="grid">
+              {(['maker', 'taker', 'spread'] as const).map((key) => (
+                <label key={key}>
+                  {feeLabels[key]} (%)
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={roundRatePercent(session.room.fees[key])}
+                    disabled={!isHost}
+                    onChange={(e) =>
+                      handleRoomSettings({ fees: { ...session.room.fees, [key]: Number(e.target.value) / 100 } })
+                    }
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+          <label className="checkbox">
+            <input
+              type="checkbox"
+              checked={session.room.rankNetOfFees}
+              disabled={!isHost}
+              onChange={(e) => handleRoomSettings({ rankNetOfFees: e.target.checked })}
+            />
+            Classer le leaderboard net des frais
+          </label>
+          {session.room.replay && <p className="muted">Replay : {describeReplay(session.room.replay)}</p>}
+          {session.room.scenario && renderScenarioBrief(session.room.scenario)}
+          <table>
+            <thead>
+              <tr>
+                <th>Joueur</th>
+                <th>Statut</th>
+              </tr>
+            </thead>
+            <tbody>
+              {session.room.members.map((member) => (
+                <tr key={member.id} className={member.id === session.playerId ? 'you' : ''}>
+                  <td>
+                    {member.name}
+                    {member.isHost && <span className="tag">Hôte</span>}
+                    {member.isAlgo && <span className="tag algo">Bot API</span>}
+                    {!member.connected && <span className="tag">Déconnecté</span>}
+                  </td>
+                  <td className={member.ready ? 'buy' : 'muted'}>{member.ready ? 'Prêt' : 'En attente'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="side-buttons">
+            <button className="secondary" onClick={handleToggleReady}>
+              {self?.ready ? 'Pas prêt' : 'Prêt'}
+            </button>
+            {isHost && (
+              <button
+                className="primary"
+                onClick={handleStartRoom}
+                disabled={!session.room.members.every((member) => member.ready)}
+              >
+                Démarrer la partie
+              </button>
+            )}
+          </div>
+          {status && <p className="status">{status}</p>}
+        </section>
+      )}
+
+      {step === 'results' && session?.round?.results && (
+        <section className="panel results">
+          <h1>
+            Fin de la manche {session.round.results.round} :{' '}
+            {session.round.results.player.won ? 'victoire !' : `${session.round.results.player.rank}e place`}
+          </h1>
+          <div className="podium">
+            {session.round.results.podium.map((row) => (
+              <div key={row.id} className={classNames('podium-step', { you: row.id === session.playerId })}>
+                <span className="podium-rank">#{row.rank}</span>
+                <strong>{row.id === session.playerId ? `${row.name} (Vous)` : row.name}</strong>
+                <span>{money(session.room.rankNetOfFees ? row.netPnl : row.realizedPnl)}</span>
+              </div>
+            ))}
+          </div>
+          <table>
+            <tbody>
+              <tr>
+                <th>Classement</th>
+                <td>
+                  {session.round.results.player.rank} / {session.round.results.rankings.length}
+                </td>
+              </tr>
+              <tr>
+                <th>PnL réalisé</th>
+                <td>{money(session.round.results.player.realizedPnl)}</td>
+              </tr>
+              <tr>
+                <th>Frais payés</th>
+                <td>
+                  {money(session.round.results.player.fees)} (net {money(session.round.results.player.netPnl)})
+                </td>
+              </tr>
+              <tr>
+                <th>Balance finale</th>
+                <td>
+                  {money(session.round.results.player.balance)} (départ{' '}
+                  {money(session.round.results.player.startingBalance)},{' '}
+                  {formatter.format(session.round.results.player.returnPct)} %)
+                </td>
+              </tr>
+              <tr>
+                <th>Trades</th>
+                <td>{session.round.results.player.trades}</td>
+              </tr>
+              <tr>
+                <th>Liquidations</th>
+                <td>{session.round.results.player.liquidations}</td>
+              </tr>
+              {session.round.results.player.scenario && (
+                <tr>
+                  <th>Scénario</th>
+                  <td className={session.round.results.player.scenario.status === 'passed' ? 'buy' : 'sell'}>
+                    {session.round.results.player.scenario.status === 'passed' ? 'Réussi' : 'Échoué'} · score{' '}
+                    {session.round.results.player.scenario.score}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+          {session.round.results.player.scenario && (
+            renderObjectives(session.round.results.player.scenario.objectives)
+          )}
+          <div className="side-buttons">
+            <button className="primary" onClick={handleContinueRound} disabled={!isHost || Boolean(session.room.scenario)}>
+              Continuer (manche suivante)
+            </button>
+            <button className="secondary" onClick={handleRestartRound} disabled={!isHost}>
+              Relancer une partie
+            </button>
+            {session.room.gameId && (
+              <button className="secondary" onClick={() => openGameReplay(session.room.gameId as string)}>
+                Revoir la partie
+              </button>
+            )}
+          </div>
+          {!isHost && <p className="muted">En attente de l'hôte pour la suite.</p>}
           {status && <p className="status">{status}</p>}
         </section>
       )}
 
+      {step === 'play' && session?.scenario && (
+        <section className="panel scenario-tracker">
+          <div className="panel-header">
+            <h3>{session.scenario.title}</h3>
+            <span className={classNames('tag', session.scenario.status)}>
+              {session.scenario.status === 'running'
+                ? 'Objectifs en cours'
+                : session.scenario.status === 'passed'
+                  ? 'Scénario réussi'
+                  : 'Scénario échoué'}
+            </span>
+          </div>
+          {renderObjectives(session.scenario.objectives)}
+        </section>
+      )}
+
       {step === 'play' && (
         <div className="grid">
           <section className="panel chart">
             <div className="panel-header">
               <div>
                 <h2>{selectedAsset}/USD</h2>
-                <p className="muted">{patternRef.current}</p>
+                <p className="muted">{describePattern(market?.patterns, selectedAsset)}</p>
+              </div>
+              <div className="chart-controls">
+                <div className="timeframes">
+                  {timeframes.map((tf) => (
+                    <button
+                      key={tf}
+                      className={classNames('ghost', { active: tf === timeframe })}
+                      onClick={() => setTimeframe(tf)}
+                    >
+                      {tf}
+                    </button>
+                  ))}
+                </div>
+                <select value={selectedAsset} onChange={(e) => setSelectedAsset(e.target.value)}>
+                  {assets.map((a) => (
+                    <option key={a}>{a}</option>
+                  ))}
+                </select>
               </div>
-              <select value={selectedAsset} onChange={(e) => setSelectedAsset(e.target.value)}>
-                {assets.map((a) => (
-                  <option key={a}>{a}</option>
-                ))}
-              </select>
             </div>
             <div ref={chartRef} className="chart-area" />
             <div className="price-strip">
               <span>Dernier : {formatPrice(activePrice)} </span>
-              <span>Unrealized PnL : {formatter.format(unrealized)}</span>
-              <span>Realized PnL : {formatter.format(realized)}</span>
-              <span>Balance agrégée : {aggregatedBalanceDisplay()} $</span>
+              {market?.halted?.includes(selectedAsset) && <span className="sell">Cotation suspendue</span>}
+              <span>Unrealized PnL : {money(unrealized)}</span>
+              <span>Realized PnL : {money(realized)}</span>
+              <span>Balance agrégée : {money(aggregatedBalanceValue())}</span>
+              {activeFunding !== undefined && (
+                <span>
+                  Funding : {(activeFunding * 100).toFixed(4)} % (dans{' '}
+                  {formatDuration(Math.max(0, (market?.funding?.nextAt ?? clockNow) - clockNow))})
+                </span>
+              )}
+              <span>Fonds d'assurance : {money(market?.insuranceFund ?? 0)}</span>
+              {activeFees && (
+                <span>
+                  Frais maker {formatRate(activeFees.maker)} / taker {formatRate(activeFees.taker)} · payés{' '}
+                  {money(session?.fees ?? 0)}
+                </span>
+              )}
             </div>
           </section>
 
           <section className="panel trade">
             <h3>Passer un ordre</h3>
             <div className="form-grid">
+              <label>
+                Type d'ordre
+                <select
+                  value={orderForm.type}
+                  onChange={(e) => setOrderForm({ ...orderForm, type: e.target.value as OrderType })}
+                >
+                  {orderTypes.map((t) => (
+                    <option key={t} value={t}>
+                      {orderTypeLabels[t]}
+                    </option>
+                  ))}
+                </select>
+              </label>
               <label>
                 Base
                 <select value={orderForm.base} onChange={(e) => setOrderForm({ ...orderForm, base: e.target.value })}>
@@ -527,16 +2558,95 @@ function App() {
                 />
               </label>
               <label>
-                Levier (1 à 200)
+                Wallet
+                <select
+                  value={orderForm.wallet}
+                  onChange={(e) => setOrderForm({ ...orderForm, wallet: e.target.value as Wallet })}
+                >
+                  {wallets.map((wallet) => (
+                    <option key={wallet} value={wallet}>
+                      {walletLabels[wallet]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Levier (1 à {leverageCap})
                 <input
                   type="number"
                   min={1}
-                  max={mode === 'EZ-Mode' ? 200 : 500}
-                  value={orderForm.leverage}
+                  max={leverageCap}
+                  disabled={orderForm.wallet === 'spot'}
+                  value={orderForm.wallet === 'spot' ? 1 : orderForm.leverage}
                   onChange={(e) => setOrderForm({ ...orderForm, leverage: Number(e.target.value) })}
                 />
               </label>
+              <label>
+                Marge
+                <select
+                  disabled={orderForm.wallet === 'spot'}
+                  value={orderForm.marginMode}
+                  onChange={(e) => setOrderForm({ ...orderForm, marginMode: e.target.value as MarginMode })}
+                >
+                  <option value="isolated">Isolée</option>
+                  <option value="cross">Croisée (cross)</option>
+                </select>
+              </label>
+              {(orderForm.type === 'stop' || orderForm.type === 'stop_limit') && (
+                <label>
+                  Prix stop
+                  <input
+                    type="number"
+                    min={0}
+                    value={orderForm.stopPrice}
+                    onChange={(e) => setOrderForm({ ...orderForm, stopPrice: Number(e.target.value) })}
+                  />
+                </label>
+              )}
+              {(orderForm.type === 'limit' || orderForm.type === 'stop_limit') && (
+                <label>
+                  Prix limite
+                  <input
+                    type="number"
+                    min={0}
+                    value={orderForm.limitPrice}
+                    onChange={(e) => setOrderForm({ ...orderForm, limitPrice: Number(e.target.value) })}
+                  />
+                </label>
+              )}
+              {orderForm.wallet === 'derivatives' && (
+                <>
+                  <label>
+                    Take-profit (optionnel)
+                    <input
+                      type="number"
+                      min={0}
+                      value={orderForm.takeProfit}
+                      onChange={(e) => setOrderForm({ ...orderForm, takeProfit: Number(e.target.value) })}
+                    />
+                  </label>
+                  <label>
+                    Stop-loss (optionnel)
+                    <input
+                      type="number"
+                      min={0}
+                      value={orderForm.stopLoss}
+                      onChange={(e) => setOrderForm({ ...orderForm, stopLoss: Number(e.target.value) })}
+                    />
+                  </label>
+                </>
+              )}
             </div>
+            {orderForm.wallet === 'derivatives' && (
+              <label className="checkbox">
+                <input
+                  type="checkbox"
+                  checked={orderForm.reduceOnly}
+                  onChange={(e) => setOrderForm({ ...orderForm, reduceOnly: e.target.checked })}
+                />
+                Reduce-only (réduit uniquement une position existante)
+              </label>
+            )}
             <div className="side-buttons">
               <button
                 className={classNames('buy', { active: orderForm.side === 'buy' })}
@@ -555,22 +2665,144 @@ function App() {
               Exécuter l'ordre
             </button>
             {status && <p className="status">{status}</p>}
-            <div className="holdings">
-              <h4>Solde</h4>
-              <div className="pill-row">
-                {session &&
-                  Object.entries(session.holdings).map(([key, value]) => (
-                    <span key={key} className="pill">
-                      {key}: {formatter.format(value)}
-                    </span>
+            <div className="wallet">
+              <h4>Wallet</h4>
+              <div className="table-wrapper">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Actif</th>
+                      <th>{walletLabels.spot}</th>
+                      <th>{walletLabels.derivatives}</th>
+                      <th>Valeur {displayCurrency}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {walletAssets.map((currency) => (
+                      <tr key={currency}>
+                        <td>{currency}</td>
+                        <td>{formatter.format(session?.holdings[currency] ?? 0)}</td>
+                        <td>{formatter.format(session?.derivatives[currency] ?? 0)}</td>
+                        <td>{money(walletUsdValue(currency))}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="row-actions">
+                <select
+                  value={transferDraft.currency}
+                  onChange={(e) => setTransferDraft({ ...transferDraft, currency: e.target.value })}
+                >
+                  {assets.map((a) => (
+                    <option key={a}>{a}</option>
+                  ))}
+                </select>
+                <input
+                  className="compact"
+                  type="number"
+                  min={0}
+                  placeholder="Montant"
+                  value={transferDraft.amount}
+                  onChange={(e) => setTransferDraft({ ...transferDraft, amount: e.target.value })}
+                />
+                <button className="ghost" onClick={() => handleTransfer('derivatives')}>
+                  Vers dérivés
+                </button>
+                <button className="ghost" onClick={() => handleTransfer('spot')}>
+                  Vers spot
+                </button>
+              </div>
+              <div className="row-actions">
+                <input
+                  className="compact"
+                  type="number"
+                  min={0}
+                  placeholder="Montant"
+                  value={convertDraft.amount}
+                  onChange={(e) => setConvertDraft({ ...convertDraft, amount: e.target.value })}
+                />
+                <select value={convertDraft.from} onChange={(e) => setConvertDraft({ ...convertDraft, from: e.target.value })}>
+                  {assets.map((a) => (
+                    <option key={a}>{a}</option>
+                  ))}
+                </select>
+                <span className="muted">→</span>
+                <select value={convertDraft.to} onChange={(e) => setConvertDraft({ ...convertDraft, to: e.target.value })}>
+                  {assets.map((a) => (
+                    <option key={a}>{a}</option>
                   ))}
+                </select>
+                <button className="ghost" onClick={handleConvert}>
+                  Convertir
+                </button>
               </div>
+              {convertPreview && (
+                <span className="muted">
+                  1 {convertPreview.from} = {convertPreview.rate.toPrecision(6)} {convertPreview.to} · vous recevrez{' '}
+                  {convertPreview.received} {convertPreview.to}
+                </span>
+              )}
             </div>
-            {session && session.holdings.USD <= 0 && !session.faucetClaimed && (
+            {session && (session.holdings.USD ?? 0) + (session.derivatives.USD ?? 0) <= 0 && !session.faucetClaimed && (
               <button className="secondary" onClick={handleFaucet}>
                 Claimer 10$ du faucet
               </button>
             )}
+            <div className="alerts">
+              <h4>Alertes {selectedAsset}</h4>
+              <div className="row-actions">
+                <select value={alertKind} onChange={(e) => setAlertKind(e.target.value as AlertKind)}>
+                  {alertKinds.map((kind) => (
+                    <option key={kind} value={kind}>
+                      {alertKindLabels[kind]}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  className="compact"
+                  type="number"
+                  min={0}
+                  placeholder={alertKind === 'move' ? '%' : 'Prix'}
+                  value={alertValue}
+                  onChange={(e) => setAlertValue(e.target.value)}
+                />
+                <button className="ghost" onClick={handleCreateAlert}>
+                  Ajouter
+                </button>
+              </div>
+              <ul>
+                {session?.alerts.map((alert) => (
+                  <li key={alert.id}>
+                    {describeAlert(alert)}
+                    <button className="ghost" onClick={() => handleDeleteAlert(alert)}>
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <div className="row-actions">
+                <label>
+                  Appel de marge à (% de la liquidation)
+                  <input
+                    className="compact"
+                    type="number"
+                    min={0}
+                    max={50}
+                    placeholder={String(session?.marginCallPct ?? '')}
+                    value={marginCallDraft}
+                    onChange={(e) => setMarginCallDraft(e.target.value)}
+                  />
+                </label>
+                <button className="ghost" onClick={handleMarginCallDistance}>
+                  Appliquer
+                </button>
+              </div>
+              <label className="checkbox">
+                <input type="checkbox" checked={notifications} onChange={(e) => handleNotifications(e.target.checked)} />
+                Notifications navigateur
+              </label>
+            </div>
           </section>
 
           <section className="panel orderbook">
@@ -579,7 +2811,7 @@ function App() {
               <div>
                 <h4>Asks</h4>
                 {activeOrderBook?.asks?.map((ask, idx) => (
-                  <div key={`ask-${idx}`} className="row ask">
+                  <div key={`ask-${idx}`} className={classNames('row ask', { own: ask.own })}>
                     <span>{formatPrice(ask.price)}</span>
                     <span>{ask.size.toFixed(4)}</span>
                   </div>
@@ -588,7 +2820,7 @@ function App() {
               <div>
                 <h4>Bids</h4>
                 {activeOrderBook?.bids?.map((bid, idx) => (
-                  <div key={`bid-${idx}`} className="row bid">
+                  <div key={`bid-${idx}`} className={classNames('row bid', { own: bid.own })}>
                     <span>{formatPrice(bid.price)}</span>
                     <span>{bid.size.toFixed(4)}</span>
                   </div>
@@ -607,47 +2839,572 @@ function App() {
                   <th>Quantité</th>
                   <th>Entrée</th>
                   <th>Levier</th>
+                  <th>Marge</th>
+                  <th>Liquidation</th>
+                  <th>Ratio</th>
+                  <th />
                 </tr>
               </thead>
               <tbody>
                 {session?.positions.map((pos) => (
-                  <tr key={`${pos.symbol}-${pos.side}`}>
-                    <td>{pos.symbol}</td>
+                  <tr key={pos.id}>
+                    <td>{pos.symbol}/{pos.quote}</td>
                     <td className={pos.side === 'long' ? 'buy' : 'sell'}>{pos.side}</td>
                     <td>{pos.quantity.toFixed(4)}</td>
                     <td>{formatPrice(pos.entryPrice)}</td>
                     <td>x{pos.leverage}</td>
+                    <td>
+                      {formatter.format(pos.margin)}
+                      <span className="tag">{pos.marginMode === 'cross' ? 'Cross' : 'Isolée'}</span>
+                      {pos.marginMode !== 'cross' && (
+                        <span className="row-actions">
+                          <input
+                            className="compact"
+                            type="number"
+                            min={0}
+                            placeholder="Montant"
+                            value={marginDrafts[pos.id] ?? ''}
+                            onChange={(e) => setMarginDrafts({ ...marginDrafts, [pos.id]: e.target.value })}
+                          />
+                          <button className="ghost" onClick={() => handleAdjustMargin(pos, 1)}>
+                            +
+                          </button>
+                          <button className="ghost" onClick={() => handleAdjustMargin(pos, -1)}>
+                            −
+                          </button>
+                        </span>
+                      )}
+                    </td>
+                    <td>{pos.liquidationPrice ? formatPrice(pos.liquidationPrice) : '-'}</td>
+                    <td className={classNames({ sell: pos.marginRatio >= 80 || pos.marginCalled })}>
+                      {pos.marginRatio?.toFixed(2)} %{pos.marginCalled && <span className="tag">Appel de marge</span>}
+                    </td>
+                    <td className="row-actions">
+                      <button className="ghost" onClick={() => handleClosePosition(pos, 1)}>
+                        Close
+                      </button>
+                      <button className="ghost" onClick={() => handleClosePosition(pos, 0.5)}>
+                        Close 50%
+                      </button>
+                    </td>
                   </tr>
                 ))}
               </tbody>
             </table>
           </section>
 
+          <section className="panel orders">
+            <h3>Ordres ouverts</h3>
+            <table>
+              <thead>
+                <tr>
+                  <th>Type</th>
+                  <th>Paire</th>
+                  <th>Side</th>
+                  <th>Taille</th>
+                  <th>Limite</th>
+                  <th>Stop</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {session?.orders.map((order) => (
+                  <tr key={order.id}>
+                    <td>
+                      {orderTypeLabels[order.type]}
+                      {order.triggered ? ' (déclenché)' : ''}
+                    </td>
+                    <td>
+                      {order.base}/{order.quote}
+                    </td>
+                    <td className={order.side}>{order.side}</td>
+                    <td>{order.positionId ? 'Position' : order.size?.toFixed(4)}</td>
+                    <td>{formatPrice(order.limitPrice)}</td>
+                    <td>{formatPrice(order.stopPrice)}</td>
+                    <td className="row-actions">
+                      <input
+                        className="compact"
+                        type="number"
+                        min={0}
+                        placeholder={formatPrice(order[amendableField(order)])}
+                        value={amendDrafts[order.id] ?? ''}
+                        onChange={(e) => setAmendDrafts({ ...amendDrafts, [order.id]: e.target.value })}
+                      />
+                      <button className="ghost" onClick={() => handleAmendOrder(order)}>
+                        Modifier
+                      </button>
+                      <button className="ghost" onClick={() => handleCancelOrder(order)}>
+                        Annuler
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {!session?.orders.length && <p className="muted">Aucun ordre en attente.</p>}
+          </section>
+
           <section className="panel leaderboard">
-            <h3>Leaderboard (PnL réalisé)</h3>
+            <h3>Leaderboard (PnL réalisé{session?.room.rankNetOfFees ? ' net des frais' : ''})</h3>
             <table>
               <thead>
                 <tr>
                   <th>Joueur</th>
                   <th>Realized</th>
+                  <th>Frais</th>
                   <th>Unrealized</th>
                   <th>Balance</th>
                 </tr>
               </thead>
               <tbody>
                 {leaderboard.map((row) => (
-                  <tr key={row.id} className={row.name.includes('Vous') ? 'you' : ''}>
-                    <td>{row.name}</td>
-                    <td>{formatter.format(row.realizedPnl)}</td>
-                    <td>{formatter.format(row.unrealizedPnl)}</td>
-                    <td>{typeof row.balance === 'number' ? formatter.format(row.balance) : row.balance}</td>
+                  <tr key={row.id} className={row.id === session?.playerId ? 'you' : ''}>
+                    <td>
+                      {row.id === session?.playerId ? `${row.name} (Vous)` : row.name}
+                      {row.archetype && <span className="tag">{archetypeLabels[row.archetype]}</span>}
+                      {row.isHuman && !row.isAlgo && row.id !== session?.playerId && <span className="tag">Joueur</span>}
+                      {row.isAlgo && <span className="tag algo">Bot API</span>}
+                    </td>
+                    <td>{money(row.realizedPnl)}</td>
+                    <td>{money(row.fees)}</td>
+                    <td>{money(row.unrealizedPnl)}</td>
+                    <td>{typeof row.balance === 'number' ? money(row.balance) : row.balance}</td>
                   </tr>
                 ))}
               </tbody>
             </table>
           </section>
+
+          <section className="panel feed">
+            <div className="panel-header">
+              <div className="timeframes">
+                <button
+                  className={classNames('ghost', { active: bottomTab === 'feed' })}
+                  onClick={() => setBottomTab('feed')}
+                >
+                  Fil de la salle
+                </button>
+                <button
+                  className={classNames('ghost', { active: bottomTab === 'history' })}
+                  onClick={() => setBottomTab('history')}
+                >
+                  Historique
+                </button>
+              </div>
+              {bottomTab === 'history' && (
+                <div className="chart-controls">
+                  <select value={historySymbol} onChange={(e) => setHistorySymbol(e.target.value)}>
+                    <option value="">Tous les actifs</option>
+                    {assets.map((asset) => (
+                      <option key={asset}>{asset}</option>
+                    ))}
+                  </select>
+                  <select value={historyType} onChange={(e) => setHistoryType(e.target.value as LedgerEntryType | '')}>
+                    <option value="">Tous les types</option>
+                    {ledgerEntryTypes.map((type) => (
+                      <option key={type} value={type}>
+                        {ledgerTypeLabels[type]}
+                      </option>
+                    ))}
+                  </select>
+                  <a className="ghost" href={historyExportUrl('csv')} download>
+                    CSV
+                  </a>
+                  <a className="ghost" href={historyExportUrl('json')} download>
+                    JSON
+                  </a>
+                </div>
+              )}
+            </div>
+            {bottomTab === 'feed' && (
+              <>
+                <ul>
+                  {roomFeed.map((event) => (
+                    <li key={`${event.at}-${event.type}-${event.name}`} className={event.type}>
+                      {describeRoomEvent(event, money)}
+                    </li>
+                  ))}
+                </ul>
+                {!roomFeed.length && <p className="muted">Gros trades, liquidations et arrivées s'afficheront ici.</p>}
+              </>
+            )}
+            {bottomTab === 'history' && (
+              <>
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Heure</th>
+                      <th>Manche</th>
+                      <th>Type</th>
+                      <th>Actif</th>
+                      <th>Side</th>
+                      <th>Quantité</th>
+                      <th>Prix</th>
+                      <th>Montant</th>
+                      <th>Détail</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {history.map((entry) => (
+                      <tr key={entry.id}>
+                        <td>{new Date(entry.at).toLocaleTimeString()}</td>
+                        <td>{entry.round ?? '-'}</td>
+                        <td>{ledgerTypeLabels[entry.type]}</td>
+                        <td>{entry.symbol ? `${entry.symbol}/${entry.quote}` : '-'}</td>
+                        <td
+                          className={classNames({
+                            buy: entry.side === 'buy' || entry.side === 'long',
+                            sell: entry.side === 'sell' || entry.side === 'short',
+                          })}
+                        >
+                          {entry.side || '-'}
+                        </td>
+                        <td>{entry.quantity !== undefined ? entry.quantity.toFixed(4) : '-'}</td>
+                        <td>{entry.price !== undefined ? formatPrice(entry.price) : '-'}</td>
+                        <td className={classNames({ buy: (entry.amount ?? 0) > 0, sell: (entry.amount ?? 0) < 0 })}>
+                          {entry.amount !== undefined ? `${formatter.format(entry.amount)} ${entry.currency}` : '-'}
+                        </td>
+                        <td className="muted">{entry.detail || ''}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {history.length < historyTotal && (
+                  <p className="muted">
+                    {history.length} dernières entrées sur {historyTotal} : l'export contient tout.
+                  </p>
+                )}
+                {!historyTotal && <p className="muted">Aucune entrée pour ces filtres.</p>}
+              </>
+            )}
+          </section>
+
+          <section className="panel analytics">
+            <div className="panel-header">
+              <h3>Analyse du portefeuille</h3>
+              <select value={compareWith} onChange={(e) => setCompareWith(e.target.value)}>
+                <option value="">Comparer avec un bot…</option>
+                {rankedBots.map((bot) => (
+                  <option key={bot.id} value={bot.id}>
+                    {bot.name} ({archetypeLabels[bot.archetype]})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="analytics-body">
+              <div ref={analyticsChartRef} className="chart-area" />
+              <table>
+                <thead>
+                  <tr>
+                    <th>Indicateur</th>
+                    <th>Vous</th>
+                    {comparedBot && <th>{comparedBot.name}</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {analytics &&
+                    statRows.map((row) => (
+                      <tr key={row.label}>
+                        <td className="muted">{row.label}</td>
+                        <td>{row.value(analytics.player.stats, money)}</td>
+                        {comparedBot && <td>{row.value(comparedBot.stats, money)}</td>}
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </div>
+            <table>
+              <thead>
+                <tr>
+                  <th>Bot</th>
+                  <th>Style</th>
+                  <th>Rendement</th>
+                  <th>Drawdown max</th>
+                  <th>Sharpe</th>
+                  <th>Sortino</th>
+                  <th>Taux de gain</th>
+                  <th>Levier moyen</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rankedBots.map((bot) => (
+                  <tr
+                    key={bot.id}
+                    className={classNames('selectable', { you: bot.id === compareWith })}
+                    onClick={() => setCompareWith(bot.id === compareWith ? '' : bot.id)}
+                  >
+                    <td>{bot.name}</td>
+                    <td>{archetypeLabels[bot.archetype]}</td>
+                    <td className={classNames({ buy: bot.stats.returnPct > 0, sell: bot.stats.returnPct < 0 })}>
+                      {formatStat(bot.stats.returnPct, ' %')}
+                    </td>
+                    <td>{formatStat(bot.stats.maxDrawdownPct, ' %')}</td>
+                    <td>{formatStat(bot.stats.sharpe)}</td>
+                    <td>{formatStat(bot.stats.sortino)}</td>
+                    <td>{formatStat(bot.stats.winRatePct, ' %')}</td>
+                    <td>x{bot.stats.leverage.average}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          {adminHost && (
+            <section className="panel admin">
+              <div className="panel-header">
+                <h3>Console admin : {selectedAsset}</h3>
+                <span className="muted">
+                  Les actions s'appliquent au tick suivant, sur l'actif du graphique.
+                  {session?.room.unranked && ' Partie non classée : elle ne figurera pas au hall of fame.'}
+                </span>
+              </div>
+              <div className="form-grid">
+                <div className="row-actions">
+                  <label>
+                    Prix (USD)
+                    <input
+                      className="compact"
+                      type="number"
+                      min={0}
+                      value={adminDraft.price}
+                      placeholder={formatPrice(activePrice)}
+                      onChange={(e) => setAdminDraft({ ...adminDraft, price: e.target.value })}
+                    />
+                  </label>
+                  <button
+                    className="ghost"
+                    disabled={!Number(adminDraft.price)}
+                    onClick={() =>
+                      socketRef.current?.emit(
+                        'admin_set_price',
+                        { symbol: selectedAsset, price: Number(adminDraft.price) },
+                        adminAck
+                      )
+                    }
+                  >
+                    Fixer
+                  </button>
+                </div>
+                <div className="row-actions">
+                  <label>
+                    Volatilité (x)
+                    <input
+                      className="compact"
+                      type="number"
+                      min={0}
+                      max={10}
+                      step={0.1}
+                      value={adminDraft.multiplier}
+                      onChange={(e) => setAdminDraft({ ...adminDraft, multiplier: e.target.value })}
+                    />
+                  </label>
+                  <button
+                    className="ghost"
+                    onClick={() =>
+                      socketRef.current?.emit(
+                        'admin_set_volatility',
+                        { symbol: selectedAsset, multiplier: Number(adminDraft.multiplier) },
+                        adminAck
+                      )
+                    }
+                  >
+                    Appliquer
+                  </button>
+                </div>
+                <div className="row-actions">
+                  <label>
+                    Ampleur (%)
+                    <input
+                      className="compact"
+                      type="number"
+                      min={0}
+                      max={95}
+                      value={adminDraft.percent}
+                      onChange={(e) => setAdminDraft({ ...adminDraft, percent: e.target.value })}
+                    />
+                  </label>
+                  <label>
+                    Sur (s)
+                    <input
+                      className="compact"
+                      type="number"
+                      min={0}
+                      value={adminDraft.seconds}
+                      onChange={(e) => setAdminDraft({ ...adminDraft, seconds: e.target.value })}
+                    />
+                  </label>
+                  {adminMoves.map((direction) => (
+                    <button
+                      key={direction}
+                      className="ghost"
+                      onClick={() =>
+                        socketRef.current?.emit(
+                          'admin_move',
+                          {
+                            symbol: selectedAsset,
+                            direction,
+                            percent: Number(adminDraft.percent),
+                            seconds: Number(adminDraft.seconds),
+                          },
+                          adminAck
+                        )
+                      }
+                    >
+                      {adminMoveLabels[direction]}
+                    </button>
+                  ))}
+                </div>
+                <div className="row-actions">
+                  <label>
+                    Durée (s, vide = jusqu'à reprise)
+                    <input
+                      className="compact"
+                      type="number"
+                      min={0}
+                      value={adminDraft.haltSeconds}
+                      onChange={(e) => setAdminDraft({ ...adminDraft, haltSeconds: e.target.value })}
+                    />
+                  </label>
+                  <button
+                    className="ghost"
+                    onClick={() =>
+                      socketRef.current?.emit(
+                        'admin_halt',
+                        { symbol: selectedAsset, halted: true, seconds: Number(adminDraft.haltSeconds) || undefined },
+                        adminAck
+                      )
+                    }
+                  >
+                    Suspendre
+                  </button>
+                  <button
+                    className="ghost"
+                    onClick={() => socketRef.current?.emit('admin_halt', { symbol: selectedAsset, halted: false }, adminAck)}
+                  >
+                    Reprendre
+                  </button>
+                </div>
+                <div className="row-actions">
+                  <label>
+                    Liquidité (USD)
+                    <input
+                      className="compact"
+                      type="number"
+                      min={0}
+                      value={adminDraft.notionalUsd}
+                      onChange={(e) => setAdminDraft({ ...adminDraft, notionalUsd: e.target.value })}
+                    />
+                  </label>
+                  <select
+                    value={adminDraft.side}
+                    onChange={(e) => setAdminDraft({ ...adminDraft, side: e.target.value as BookSide })}
+                  >
+                    {bookSides.map((side) => (
+                      <option key={side} value={side}>
+                        {bookSideLabels[side]}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    className="ghost"
+                    disabled={!Number(adminDraft.notionalUsd)}
+                    onClick={() =>
+                      socketRef.current?.emit(
+                        'admin_inject_liquidity',
+                        { symbol: selectedAsset, side: adminDraft.side, notionalUsd: Number(adminDraft.notionalUsd) },
+                        adminAck
+                      )
+                    }
+                  >
+                    Injecter
+                  </button>
+                </div>
+                <div className="row-actions">
+                  <select
+                    value={adminDraft.botId}
+                    onChange={(e) => setAdminDraft({ ...adminDraft, botId: e.target.value })}
+                  >
+                    <option value="">Bot…</option>
+                    {session?.leaderboard
+                      .filter((row) => !row.isHuman)
+                      .map((row) => (
+                        <option key={row.id} value={row.id}>
+                          {row.name}
+                        </option>
+                      ))}
+                  </select>
+                  <label>
+                    Agressivité (x)
+                    <input
+                      className="compact"
+                      type="number"
+                      min={0}
+                      max={5}
+                      step={0.1}
+                      value={adminDraft.aggressiveness}
+                      onChange={(e) => setAdminDraft({ ...adminDraft, aggressiveness: e.target.value })}
+                    />
+                  </label>
+                  <button
+                    className="ghost"
+                    disabled={!adminDraft.botId}
+                    onClick={() =>
+                      socketRef.current?.emit(
+                        'admin_set_bot',
+                        { botId: adminDraft.botId, aggressiveness: Number(adminDraft.aggressiveness) },
+                        adminAck
+                      )
+                    }
+                  >
+                    Appliquer
+                  </button>
+                </div>
+              </div>
+              <div className="row-actions">
+                <input
+                  value={adminDraft.headline}
+                  maxLength={200}
+                  placeholder="Titre de la news diffusée à la salle"
+                  onChange={(e) => setAdminDraft({ ...adminDraft, headline: e.target.value })}
+                />
+                <button
+                  className="ghost"
+                  disabled={!adminDraft.headline.trim()}
+                  onClick={() => {
+                    socketRef.current?.emit('admin_news', { headline: adminDraft.headline.trim() }, adminAck);
+                    setAdminDraft({ ...adminDraft, headline: '' });
+                  }}
+                >
+                  Diffuser
+                </button>
+              </div>
+              <h3>Journal</h3>
+              <ul className="admin-log">
+                {adminLog
+                  .slice()
+                  .reverse()
+                  .map((entry, i) => (
+                    <li key={`${entry.at}-${i}`}>
+                      {new Date(entry.at).toLocaleTimeString()} · {entry.by} · {describeAdminEntry(entry, money)}
+                    </li>
+                  ))}
+              </ul>
+            </section>
+          )}
         </div>
       )}
+
+      <div className="toasts">
+        {toasts.map((toast) => (
+          <div key={toast.id} className={classNames('toast', toast.tone)}>
+            <strong>{toast.title}</strong>
+            <span>{toast.text}</span>
+            <button className="ghost" onClick={() => setToasts((prev) => prev.filter((t) => t.id !== toast.id))}>
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
     </div>
   );
 }
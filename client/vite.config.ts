@@ -4,4 +4,10 @@ import react from '@vitejs/plugin-react'
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The socket protocol lives in ../shared, next to the server that also reads it.
+  server: {
+    fs: {
+      allow: ['..'],
+    },
+  },
 })
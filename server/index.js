@@ -1,15 +1,144 @@
 const express = require('express');
+const fs = require('fs');
 const http = require('http');
+const path = require('path');
 const cors = require('cors');
 const axios = require('axios');
 const { Server } = require('socket.io');
 const { v4: uuidv4 } = require('uuid');
+const { WebSocketServer } = require('ws');
+const protocol = require('../shared/protocol.json');
 
 const PORT = process.env.PORT || 4000;
 const TICK_MS = 3000;
 const PRICE_PRECISION = 4;
 const BALANCE_PRECISION = 2;
-const priceProviders = ['internal', 'coingecko', 'binance'];
+const BOOK_LEVELS = 12;
+const BOOK_LEVEL_SPREAD = 0.0015;
+const BOOK_LEVEL_NOTIONAL_USD = 40_000;
+const BOOK_REFILL_RATE = 0.35;
+const QUANTITY_EPSILON = 1e-9;
+const MAX_LEVERAGE = 200;
+// Maintenance margin rate by position notional in USD: the bigger the position, the more
+// of it must stay covered before it gets liquidated.
+const maintenanceTiers = [
+  { upTo: 50_000, rate: 0.004 },
+  { upTo: 250_000, rate: 0.005 },
+  { upTo: 1_000_000, rate: 0.01 },
+  { upTo: 5_000_000, rate: 0.025 },
+  { upTo: Infinity, rate: 0.05 },
+];
+// Taken from what is left of a liquidated position's margin and paid into the room's insurance fund.
+const LIQUIDATION_FEE_RATE = 0.005;
+// Perpetual funding settles every minute (a compressed 8h cycle): a base rate plus a
+// premium from the long/short imbalance of the room's open interest, capped both ways.
+const FUNDING_INTERVAL_MS = 60_000;
+const FUNDING_BASE_RATE = 0.0001;
+const FUNDING_IMBALANCE_RATE = 0.0005;
+const FUNDING_RATE_CAP = 0.00075;
+// Trading costs per game mode. Fees are charged in the quote currency on the executed notional:
+// takers (market, stop and the marketable part of a limit) pay more than resting makers, and
+// Whale earns cheaper tiers as its traded volume grows. The spread is the gap between the
+// best bid and ask of the synthetic book, so every market fill crosses half of it.
+const feeSchedules = {
+  'EZ-Mode': { spread: 0.0005, tiers: [{ minVolumeUsd: 0, maker: 0.0001, taker: 0.0002 }] },
+  Whale: {
+    spread: 0.001,
+    tiers: [
+      { minVolumeUsd: 0, maker: 0.0002, taker: 0.0005 },
+      { minVolumeUsd: 1_000_000, maker: 0.00015, taker: 0.0004 },
+      { minVolumeUsd: 5_000_000, maker: 0.0001, taker: 0.0003 },
+      { minVolumeUsd: 25_000_000, maker: 0, taker: 0.0002 },
+    ],
+  },
+  // Admin rooms start from this and let the host set their own rates.
+  Admin: { spread: 0.001, tiers: [{ minVolumeUsd: 0, maker: 0.0002, taker: 0.0005 }] },
+};
+// A live feed's shared book serves rooms of every mode, so it quotes the tightest spread.
+const FEED_BOOK_SPREAD = feeSchedules['EZ-Mode'].spread;
+const MAX_FEE_RATE = 0.01;
+const MAX_SPREAD = 0.02;
+// Enums, limits and payload schemas shared with the client (see shared/protocol.ts).
+const {
+  assets,
+  fiatCurrencies,
+  difficulties,
+  modes,
+  priceProviders,
+  orderTypes,
+  marginModes,
+  wallets,
+  replaySpeeds,
+  ledgerEntryTypes,
+  scenarioEventTypes,
+  objectiveTypes,
+} = protocol;
+
+// Price alerts are one-shot; margin calls fire once a position comes within the session's
+// distance (in % of the mark) of its liquidation price, and again only after it backs off.
+const MAX_ALERTS = 20;
+const DEFAULT_MARGIN_CALL_PCT = 5;
+
+// Round length per game mode. ROUND_DURATION_MS overrides all of them (handy for short test rounds).
+const roundDurationsMs = {
+  'EZ-Mode': 15 * 60_000,
+  Admin: 30 * 60_000,
+  Whale: 10 * 60_000,
+};
+const ROUND_DURATION_OVERRIDE_MS = Number(process.env.ROUND_DURATION_MS) || 0;
+
+// Disconnected sessions are kept this long so a reload or a network blip can resume them.
+const SESSION_GRACE_MS = Number(process.env.SESSION_GRACE_MS) || 10 * 60_000;
+const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, 'data');
+const SESSIONS_FILE = path.join(DATA_DIR, 'sessions.json');
+const SNAPSHOT_EVERY_TICKS = 5;
+// Snapshots keep only the most recent candles of each timeframe; a restored market draws the
+// rest of its warm-up history again behind them.
+const SNAPSHOT_CANDLES = 15;
+// Finished games outlive their sessions here; HALL_OF_FAME_LIMIT caps one page of results.
+const HALL_OF_FAME_FILE = path.join(DATA_DIR, 'hall-of-fame.json');
+const HALL_OF_FAME_LIMIT = 100;
+// Every reproducible game is saved in GAMES_DIR as <id>.json (seed, settings, rounds) and
+// <id>.actions.jsonl, the players' actions appended as they happen: enough for the server to
+// play it again tick by tick. Re-simulations are cached.
+const GAMES_DIR = path.join(DATA_DIR, 'games');
+const GAME_REPLAY_CACHE_SIZE = 10;
+
+// Replay datasets are sub-directories of REPLAY_DIR holding one <ASSET>.csv or <ASSET>.json
+// OHLCV file per asset. Speeds are multiples of real time: 60x plays an hour in a minute.
+const REPLAY_DIR = process.env.REPLAY_DIR || path.join(__dirname, 'replays');
+// Scenarios are <id>.json definitions in SCENARIO_DIR: starting balances, a scripted event
+// timeline, a bot line-up and objectives. The format is described in the README.
+const SCENARIO_DIR = process.env.SCENARIO_DIR || path.join(__dirname, 'scenarios');
+// Scenario scores: per objective met, for passing, per % of return and per second left when
+// passing early, minus a penalty per liquidation.
+const scenarioScoring = { objective: 250, pass: 500, returnPct: 10, secondLeft: 1, liquidation: 100 };
+
+// Chart timeframes and how many candles of each are kept: a day of 1m, two days of 5m,
+// four days of 15m and two weeks of 1h. New markets start with WARMUP_CANDLES of each.
+const candleTimeframes = { '1m': 60_000, '5m': 5 * 60_000, '15m': 15 * 60_000, '1h': 60 * 60_000 };
+const candleHistoryLimits = { '1m': 1440, '5m': 576, '15m': 384, '1h': 336 };
+const WARMUP_CANDLES = 200;
+const CANDLE_PAGE_LIMIT = 1000;
+// Per-tick closes kept for the bots' indicators, independent of the chart timeframes.
+const CLOSE_TRAIL_LENGTH = 60;
+
+// Columns of the ledger's CSV export.
+const ledgerColumns = ['id', 'time', 'round', 'type', 'symbol', 'quote', 'side', 'quantity', 'price', 'amount', 'currency', 'detail'];
+const HISTORY_PAGE_LIMIT = 500;
+// Equity is sampled once per tick (an hour of samples is kept); Sharpe and Sortino use the
+// per-tick returns scaled to an hourly horizon.
+const EQUITY_SAMPLE_LIMIT = 1200;
+const SAMPLES_PER_HOUR = 3_600_000 / TICK_MS;
+
+// Fills at least this large (in USD) are announced to everyone in the room.
+const BIG_TRADE_USD = 250_000;
+// Algorithmic clients: each API key (or address, for key creation) gets API_RATE_LIMIT
+// requests per fixed one-minute window, shared across REST, Socket.IO and the stream.
+const API_RATE_LIMIT = Number(process.env.API_RATE_LIMIT) || 120;
+const API_RATE_WINDOW_MS = 60_000;
+const API_STREAM_PATH = '/api/v1/stream';
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
 
 const app = express();
 app.use(cors());
@@ -22,49 +151,36 @@ const io = new Server(httpServer, {
   },
 });
 
-const assets = [
-  'BTC',
-  'ETH',
-  'ICP',
-  'XCN',
-  'USDT',
-  'DASH',
-  'NEAR',
-  'SOL',
-  'USD',
-  'EUR',
-  'JPY',
-  'CNY',
-  'TRY',
-];
-
-const coingeckoIds = {
-  BTC: 'bitcoin',
-  ETH: 'ethereum',
-  ICP: 'internet-computer',
-  XCN: 'chain-2',
-  USDT: 'tether',
-  DASH: 'dash',
-  NEAR: 'near',
-  SOL: 'solana',
-};
+// Base URLs of the live price APIs; point both at the bundled mock exchange
+// (npm run mock-exchange) to play Real-World offline.
+const BINANCE_API_URL = process.env.BINANCE_API_URL || 'https://api.binance.com';
+const COINGECKO_API_URL = process.env.COINGECKO_API_URL || 'https://api.coingecko.com';
+// A feed that fails this many polls in a row is left alone for the cooldown, then tried once again.
+const FEED_FAILURE_THRESHOLD = 3;
+const FEED_COOLDOWN_MS = 60_000;
 
-const binanceSymbols = {
-  BTC: 'BTCUSDT',
-  ETH: 'ETHUSDT',
-  ICP: 'ICPUSDT',
-  DASH: 'DASHUSDT',
-  NEAR: 'NEARUSDT',
-  SOL: 'SOLUSDT',
-};
+// Fiat balances round to cents; crypto balances keep satoshi precision.
+const CRYPTO_PRECISION = 8;
 
-const fiatFallback = {
-  USD: 1,
+// FX is modelled one way only: units of each fiat per US dollar, the way rates are quoted.
+// `prices` always hold the USD value of one unit, so the fiat entries are the inverse of these.
+// USD is the unit of account and stays at 1.
+const defaultFxRates = {
   EUR: 0.92,
   JPY: 156,
   CNY: 7.2,
   TRY: 32,
 };
+const fxCurrencies = Object.keys(defaultFxRates);
+// Simulated fiat moves a few basis points per tick and is pulled back towards the room's
+// reference rates, so even long rounds stay plausible.
+const FX_TICK_VOLATILITY = 0.0003;
+const FX_MEAN_REVERSION = 0.02;
+// Reference rates for Real-World rooms: fetched every FX_REFRESH_MS, or read from
+// FX_RATES_FILE for offline play ({ "rates": { "EUR": 0.92, ... } }, units per USD).
+const FX_REFRESH_MS = 30 * 60_000;
+const FX_RATES_FILE = process.env.FX_RATES_FILE || '';
+const FX_RATES_URL = 'https://open.er-api.com/v6/latest/USD';
 
 const initialSeedPrices = {
   BTC: 67000,
@@ -76,17 +192,28 @@ const initialSeedPrices = {
   NEAR: 5,
   SOL: 145,
   USD: 1,
-  EUR: fiatFallback.EUR,
-  JPY: fiatFallback.JPY,
-  CNY: fiatFallback.CNY,
-  TRY: fiatFallback.TRY,
+  ...fxPrices(defaultFxRates),
 };
 
+let fxRates = { ...defaultFxRates };
+let fxRefreshedAt = 0;
+
 const sessions = new Map();
+const rooms = new Map();
+const apiQuotas = new Map();
+// sessionId -> open plain WebSocket streams.
+const apiStreams = new Map();
+// sessionId -> { seq, view }: the market a member was last sent, which the next update is a
+// delta against. Kept out of the snapshot, so after a restart the first update is a full one.
+const marketStreams = new Map();
+// Live feed id -> the one market every Real-World room on that feed trades in (see joinFeedMarket).
+const feedMarkets = new Map();
+const replayCache = new Map();
+// Last prices each feed returned; the internal one starts from the seed prices.
 const priceSnapshots = {
   internal: { ...initialSeedPrices },
-  coingecko: { ...initialSeedPrices },
-  binance: { ...initialSeedPrices },
+  coingecko: {},
+  binance: {},
 };
 
 const botNames = [
@@ -112,14 +239,133 @@ const botNames = [
   'BidBison',
 ];
 
+const botTradableAssets = ['BTC', 'ETH', 'SOL', 'ICP', 'NEAR', 'DASH'];
+// Fiat and the stablecoin keep the plain drift; scripted chart patterns only run on these.
+const patternAssets = ['BTC', 'ETH', 'ICP', 'XCN', 'DASH', 'NEAR', 'SOL'];
+
+// Scripted pattern tuning per difficulty: the per-tick chance an idle asset starts one,
+// its amplitude as a fraction of the price, its length in ticks and the rotation.
+// Duplicated names weight the draw.
+const patternProfiles = {
+  Easy: {
+    chance: 0.08,
+    amplitude: 0.02,
+    ticks: [30, 50],
+    pool: ['falling_wedge', 'rising_wedge', 'breakout', 'range'],
+  },
+  Medium: {
+    chance: 0.12,
+    amplitude: 0.035,
+    ticks: [25, 45],
+    pool: ['falling_wedge', 'rising_wedge', 'breakout', 'fake_breakout', 'pump', 'range'],
+  },
+  Hard: {
+    chance: 0.18,
+    amplitude: 0.06,
+    ticks: [18, 35],
+    pool: ['falling_wedge', 'rising_wedge', 'breakout', 'fake_breakout', 'fake_breakout', 'pump', 'capitulation', 'capitulation'],
+  },
+};
+
+// How many bots of each archetype a difficulty fields; each line-up covers the 20 names above.
+const botLineups = {
+  'Real-World': { momentum: 5, mean_reversion: 5, market_maker: 4, degen: 3, whale: 3 },
+  Easy: { momentum: 2, mean_reversion: 3, market_maker: 3, degen: 10, whale: 2 },
+  Medium: { momentum: 5, mean_reversion: 4, market_maker: 4, degen: 5, whale: 2 },
+  Hard: { momentum: 7, mean_reversion: 5, market_maker: 3, degen: 1, whale: 4 },
+};
+
+// Sub-unit prices (JPY, XCN…) keep PRICE_PRECISION significant decimals instead of vanishing.
 function roundPrice(value) {
-  return Number(value.toFixed(PRICE_PRECISION));
+  const magnitude = value !== 0 && Math.abs(value) < 1 ? Math.ceil(-Math.log10(Math.abs(value))) : 0;
+  return Number(value.toFixed(Math.min(PRICE_PRECISION + magnitude, 12)));
+}
+
+function fxPrices(rates) {
+  return Object.fromEntries(Object.entries(rates).map(([currency, rate]) => [currency, roundPrice(1 / rate)]));
+}
+
+// Keeps the positive rate of every modelled fiat; accepts a bare map or an exchange-style { rates }.
+function parseFxRates(data) {
+  const rates = data?.rates || data || {};
+  return Object.fromEntries(fxCurrencies.filter((c) => Number(rates[c]) > 0).map((c) => [c, Number(rates[c])]));
+}
+
+async function refreshFxRates() {
+  if (Date.now() - fxRefreshedAt < FX_REFRESH_MS) return;
+  fxRefreshedAt = Date.now();
+  try {
+    const data = FX_RATES_FILE
+      ? JSON.parse(await fs.promises.readFile(FX_RATES_FILE, 'utf8'))
+      : (await axios.get(FX_RATES_URL)).data;
+    const rates = parseFxRates(data);
+    if (!Object.keys(rates).length) throw new Error('No usable FX rates');
+    fxRates = { ...fxRates, ...rates };
+    logNetwork('prices', 'FX rates updated', { source: FX_RATES_FILE || 'network', currencies: Object.keys(rates).length });
+  } catch (error) {
+    logRefreshError('Failed to refresh FX rates, keeping the previous ones', { error: error?.message });
+  }
+}
+
+// One tick of simulated FX for a fiat's USD price, anchored on the room's reference rate.
+function stepFx(price, rate, random = Math.random) {
+  const anchor = 1 / rate;
+  const noise = (random() - 0.5) * 2 * FX_TICK_VOLATILITY;
+  return price * (1 + noise) + (anchor - price) * FX_MEAN_REVERSION;
+}
+
+function roundHolding(currency, value) {
+  return fiatCurrencies.includes(currency) ? roundBalance(value) : Number(value.toFixed(CRYPTO_PRECISION));
 }
 
 function roundBalance(value) {
   return Number(value.toFixed(BALANCE_PRECISION));
 }
 
+// Seeded randomness for the simulation. Mulberry32 keeps its whole state in one integer,
+// stored on the market so snapshots and re-simulations carry on with the same sequence.
+function hashSeed(seed) {
+  let hash = 2166136261;
+  for (const char of String(seed)) {
+    hash = Math.imul(hash ^ char.codePointAt(0), 16777619);
+  }
+  return hash >>> 0;
+}
+
+function seededRng(seed) {
+  return { seed: String(seed), state: hashSeed(seed) };
+}
+
+function nextRandom(rng) {
+  rng.state = (rng.state + 0x6d2b79f5) | 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+// The market's generator in place of Math.random, for the helpers that take one.
+function marketRandom(market) {
+  return () => nextRandom(market.rng);
+}
+
+function randomSeed() {
+  return uuidv4().slice(0, 8);
+}
+
+// Ids count up per market and per prefix, so a re-simulated game hands out the same ids as the
+// original and its recorded actions still point at the right position or order. Alerts, which
+// no replay recreates, count apart and never shift the others.
+function nextId(market, prefix) {
+  market.serials[prefix] = (market.serials[prefix] || 0) + 1;
+  return `${prefix}-${market.serials[prefix]}`;
+}
+
+// Everyone taking the daily challenge on the same UTC day faces the same market.
+function dailySeed(now = Date.now()) {
+  return `daily-${new Date(now).toISOString().slice(0, 10)}`;
+}
+
 let lastRealWorldErrorTs = 0;
 
 function logRefreshError(message, meta = {}) {
@@ -135,439 +381,4546 @@ function logNetwork(scope, message, meta = {}) {
   console.log(`[${new Date().toISOString()}][${scope}] ${message}`, payload || '');
 }
 
-async function fetchBinanceSnapshot() {
-  const prices = {};
-  await Promise.all(
-    Object.entries(binanceSymbols).map(async ([asset, symbol]) => {
-      try {
-        const { data } = await axios.get('https://api.binance.com/api/v3/ticker/price', {
-          params: { symbol },
-        });
-        const parsed = Number(data?.price);
-        if (Number.isFinite(parsed)) {
-          prices[asset] = parsed;
-        }
-      } catch (err) {
-        // ignore symbol-specific failures and continue with others
-      }
-    })
-  );
-  if (!Object.keys(prices).length) {
-    throw new Error('Binance prices unavailable');
-  }
-  return prices;
-}
-
-async function fetchCoingeckoSnapshot() {
-  const ids = Object.values(coingeckoIds).join(',');
-  const response = await axios.get(
-    `https://api.coingecko.com/api/v3/simple/price?ids=${ids}&vs_currencies=usd`
-  );
-  const prices = {};
-  Object.entries(coingeckoIds).forEach(([symbol, id]) => {
-    const usdPrice = response.data?.[id]?.usd;
-    if (usdPrice) {
-      prices[symbol] = usdPrice;
-    }
-  });
-  if (!Object.keys(prices).length) {
-    throw new Error('CoinGecko prices unavailable');
-  }
-  return prices;
-}
-
-function mutateInternalSnapshot(snapshot) {
+function mutateInternalSnapshot(snapshot, random = Math.random) {
   const updated = {};
   Object.entries(snapshot).forEach(([symbol, value]) => {
-    const drift = (Math.random() * 0.01 - 0.005) * value;
+    // Fiat comes from the FX rates, not from the crypto feeds.
+    if (fiatCurrencies.includes(symbol)) return;
+    const drift = (random() * 0.01 - 0.005) * value;
     updated[symbol] = roundPrice(Math.max(0.0001, value + drift));
   });
   return updated;
 }
 
-async function refreshProviderSnapshot(provider) {
-  if (provider === 'internal') {
-    priceSnapshots.internal = { ...initialSeedPrices, ...mutateInternalSnapshot(priceSnapshots.internal) };
-    logNetwork('prices', 'Internal price snapshot updated (simulated)');
-    return;
-  }
+// Price feeds for Real-World rooms. A feed lists the assets it quotes, fetches a USD snapshot
+// of them, and says how often it may be polled and how old its prices may get before they
+// are stale. Adding one means an entry here and its id in protocol.json's priceProviders.
+const priceFeeds = {
+  internal: {
+    label: 'Internal',
+    // Every crypto asset; fiat comes from the FX rates.
+    assets: assets.filter((asset) => asset !== 'USD' && !fiatCurrencies.includes(asset)),
+    minIntervalMs: 0,
+    staleAfterMs: Infinity,
+    fetchSnapshot: async () => mutateInternalSnapshot(priceSnapshots.internal),
+  },
+  binance: binanceFeed({
+    BTC: 'BTCUSDT',
+    ETH: 'ETHUSDT',
+    ICP: 'ICPUSDT',
+    DASH: 'DASHUSDT',
+    NEAR: 'NEARUSDT',
+    SOL: 'SOLUSDT',
+  }),
+  coingecko: coingeckoFeed({
+    BTC: 'bitcoin',
+    ETH: 'ethereum',
+    ICP: 'internet-computer',
+    XCN: 'chain-2',
+    USDT: 'tether',
+    DASH: 'dash',
+    NEAR: 'near',
+    SOL: 'solana',
+  }),
+};
 
-  if (provider === 'binance') {
-    logNetwork('prices', 'Refreshing Binance snapshot');
-    try {
-      const binanceSnapshot = await fetchBinanceSnapshot();
-      priceSnapshots.binance = { ...initialSeedPrices, ...binanceSnapshot };
-      logNetwork('prices', 'Binance snapshot updated', { assets: Object.keys(binanceSnapshot).length });
-      return;
-    } catch (error) {
-      logRefreshError('Failed to refresh Binance prices', { error: error?.message });
-    }
-  }
+// Where a Real-World room looks for an asset its own feed cannot price right now:
+// PRICE_FEED_FALLBACK=binance,coingecko by default. Adding `internal` trades a frozen price
+// for a simulated one.
+const priceFeedFallback = (process.env.PRICE_FEED_FALLBACK || 'binance,coingecko')
+  .split(',')
+  .map((id) => id.trim())
+  .filter((id) => priceFeeds[id]);
 
-  if (provider === 'coingecko') {
-    logNetwork('prices', 'Refreshing CoinGecko snapshot');
-    try {
-      const coingeckoSnapshot = await fetchCoingeckoSnapshot();
-      priceSnapshots.coingecko = { ...initialSeedPrices, ...coingeckoSnapshot };
-      logNetwork('prices', 'CoinGecko snapshot updated', { assets: Object.keys(coingeckoSnapshot).length });
-      return;
-    } catch (error) {
-      logRefreshError('Failed to refresh CoinGecko prices', { error: error?.message });
-    }
-  }
+const feedHealth = Object.fromEntries(
+  Object.keys(priceFeeds).map((id) => [id, { failures: 0, lastAttemptAt: 0, lastSuccessAt: 0, retryAt: 0, lastError: null }])
+);
 
-  logRefreshError('Unknown provider requested', { provider });
+function binanceFeed(symbols) {
+  return {
+    label: 'Binance',
+    assets: Object.keys(symbols),
+    // Well under Binance's request weight limits: one batched call per tick at most.
+    minIntervalMs: TICK_MS,
+    staleAfterMs: 30_000,
+    fetchSnapshot: async () => {
+      const { data } = await axios.get(`${BINANCE_API_URL}/api/v3/ticker/price`, {
+        params: { symbols: JSON.stringify(Object.values(symbols)) },
+        timeout: 5000,
+      });
+      const bySymbol = new Map((Array.isArray(data) ? data : []).map((row) => [row.symbol, Number(row.price)]));
+      return Object.fromEntries(
+        Object.entries(symbols)
+          .filter(([, symbol]) => bySymbol.get(symbol) > 0)
+          .map(([asset, symbol]) => [asset, bySymbol.get(symbol)])
+      );
+    },
+  };
 }
 
-async function refreshPriceSnapshots(requestedProviders = []) {
-  const uniqueProviders = Array.from(new Set(requestedProviders));
-  if (!uniqueProviders.length) return;
+function coingeckoFeed(ids) {
+  return {
+    label: 'CoinGecko',
+    assets: Object.keys(ids),
+    // The public API allows a handful of calls per minute.
+    minIntervalMs: 15_000,
+    staleAfterMs: 90_000,
+    fetchSnapshot: async () => {
+      const { data } = await axios.get(`${COINGECKO_API_URL}/api/v3/simple/price`, {
+        params: { ids: Object.values(ids).join(','), vs_currencies: 'usd' },
+        timeout: 5000,
+      });
+      return Object.fromEntries(
+        Object.entries(ids)
+          .filter(([, id]) => data?.[id]?.usd > 0)
+          .map(([asset, id]) => [asset, Number(data[id].usd)])
+      );
+    },
+  };
+}
 
-  await Promise.all(
-    uniqueProviders.map(async (provider) => {
-      await refreshProviderSnapshot(provider);
-    })
-  );
+// The room's own feed first, then the configured fallbacks.
+function feedChain(provider) {
+  return Array.from(new Set([provider, ...priceFeedFallback])).filter((id) => priceFeeds[id]);
 }
 
-function generateInitialCandles(price) {
-  const now = Date.now();
-  return Array.from({ length: 30 }).map((_, i) => {
-    const base = price * (1 + (Math.sin(i) * 0.01));
-    return {
-      time: now - (30 - i) * TICK_MS,
-      open: roundPrice(base * 0.997),
-      high: roundPrice(base * 1.01),
-      low: roundPrice(base * 0.99),
-      close: roundPrice(base * 1.003),
-    };
-  });
+function feedCircuitOpen(id, now = Date.now()) {
+  return now < feedHealth[id].retryAt;
 }
 
-function createSession(socketId, payload) {
-  const { playerName, difficulty, mode } = payload;
-  const priceProvider = priceProviders.includes(payload.priceProvider) ? payload.priceProvider : 'internal';
-  const startingBalance = mode === 'Admin' ? 10000 : mode === 'Whale' ? 25000 : 1000;
-  const session = {
-    id: socketId,
-    playerName,
-    difficulty,
-    mode,
-    priceProvider,
-    holdings: { USD: startingBalance },
-    positions: [],
-    realizedPnl: 0,
-    unrealizedPnl: 0,
-    bots: createBots(startingBalance),
-    startedAt: Date.now(),
-    faucetClaimed: false,
-    selectedAsset: 'BTC',
-    market: buildInitialMarket(difficulty, priceProvider),
-  };
-  sessions.set(socketId, session);
-  return session;
+function feedAgeMs(id, now = Date.now()) {
+  return feedHealth[id].lastSuccessAt ? now - feedHealth[id].lastSuccessAt : null;
 }
 
-function buildInitialMarket(difficulty, priceProvider) {
-  const snapshot = priceSnapshots[priceProvider] || priceSnapshots.internal;
-  const basePrices = difficulty === 'Real-World' ? snapshot : initialSeedPrices;
-  const prices = { ...basePrices };
-  const candles = {};
-  assets.forEach((asset) => {
-    candles[asset] = generateInitialCandles(prices[asset]);
-  });
-  const book = buildOrderBook(prices);
-  return { prices, candles, orderBook: book };
+// ok: fresh and answering. degraded: answering with errors in between. down: stale or cut off.
+function feedStatus(id, now = Date.now()) {
+  const health = feedHealth[id];
+  if (!health.lastAttemptAt && !health.lastSuccessAt) return 'idle';
+  const age = feedAgeMs(id, now);
+  if (feedCircuitOpen(id, now) || age === null || age > priceFeeds[id].staleAfterMs) return 'down';
+  return health.failures ? 'degraded' : 'ok';
 }
 
-function createBots(startingBalance) {
-  return botNames.map((name) => ({
-    id: uuidv4(),
-    name,
-    balance: startingBalance,
-    realizedPnl: 0,
-    unrealizedPnl: 0,
-    positions: [],
-  }));
+// The price of an asset from the first feed along the chain that quotes it with fresh data.
+function feedQuote(provider, asset, now = Date.now()) {
+  const chain = feedChain(provider).filter((id) => priceFeeds[id].assets.includes(asset));
+  const source = chain.find((id) => priceSnapshots[id][asset] && ['ok', 'degraded'].includes(feedStatus(id, now)));
+  if (!source) return null;
+  return { price: priceSnapshots[source][asset], source, fellBack: source !== chain[0], ageMs: feedAgeMs(source, now) };
 }
 
-function buildOrderBook(prices) {
-  const book = {};
-  Object.entries(prices).forEach(([symbol, price]) => {
-    if (!price) return;
-    const bids = [];
-    const asks = [];
-    for (let i = 0; i < 8; i += 1) {
-      const spread = (i + 1) * 0.0015;
-      bids.push({ price: roundPrice(price * (1 - spread)), size: roundPrice(Math.random() * 2) });
-      asks.push({ price: roundPrice(price * (1 + spread)), size: roundPrice(Math.random() * 2) });
-    }
-    book[symbol] = { bids, asks };
-  });
-  return book;
+// What the header shows for a Real-World room: the feeds its prices came from and how old they are.
+function roomFeedState(provider, now = Date.now()) {
+  const quotes = priceFeeds.internal.assets.map((asset) => feedQuote(provider, asset, now));
+  const used = quotes.filter(Boolean);
+  const sources = Array.from(new Set(used.map((quote) => quote.source)));
+  const degraded = used.some((quote) => quote.fellBack) || sources.some((id) => feedStatus(id, now) === 'degraded');
+  return {
+    requested: provider,
+    sources,
+    status: used.length < quotes.length ? 'down' : degraded ? 'degraded' : 'ok',
+    ageMs: used.length ? Math.max(...used.map((quote) => quote.ageMs ?? 0)) : null,
+  };
 }
 
-function applyDifficultyDrift(price, difficulty, bias = 0) {
-  const roll = Math.random();
-  if (difficulty === 'Easy') {
-    const step = (Math.random() * 0.004 + 0.001 + bias) * price;
-    return price + step;
-  }
-  if (difficulty === 'Medium') {
-    const direction = roll > 0.55 ? 1 : -1;
-    const magnitude = (Math.random() * 0.006 + 0.002 + Math.abs(bias)) * price;
-    return price + direction * magnitude;
-  }
-  if (difficulty === 'Hard') {
-    const direction = roll > 0.35 ? -1 : 1; // bias to hurt the player
-    const magnitude = (Math.random() * 0.008 + 0.003 + Math.abs(bias)) * price;
-    return price + direction * magnitude;
-  }
-  return price;
+// Real-World rooms on a live feed share its market, except the ones steered from the Admin
+// console: their interventions would move every other room's prices.
+function sharesFeedMarket(room) {
+  return room.difficulty === 'Real-World' && room.mode !== 'Admin' && Boolean(priceFeeds[room.priceProvider]);
 }
 
-function updateCandles(candles, symbol, newPrice) {
-  const candleList = candles[symbol] || [];
-  const now = Date.now();
-  const last = candleList[candleList.length - 1];
-  if (!last || now - last.time > TICK_MS * 2) {
-    candleList.push({
-      time: now,
-      open: newPrice,
-      high: newPrice,
-      low: newPrice,
-      close: newPrice,
-    });
-  } else {
-    last.close = newPrice;
-    last.high = Math.max(last.high, newPrice);
-    last.low = Math.min(last.low, newPrice);
+const feedMarketFields = ['prices', 'candles', 'closes', 'orderBook'];
+
+// Points a room's prices, candles and book at its feed's market, which the first room on the
+// feed opens with its own. Members and bots of every room then trade into the same book, and
+// the feed's prices and candles move once per tick (stepFeedMarket) rather than once per room.
+function joinFeedMarket(room) {
+  const { market, priceProvider } = room;
+  if (!feedMarkets.has(priceProvider)) {
+    const fields = Object.fromEntries(feedMarketFields.map((field) => [field, market[field]]));
+    feedMarkets.set(priceProvider, { provider: priceProvider, clock: market.clock, feed: roomFeedState(priceProvider), ...fields });
   }
-  if (candleList.length > 120) candleList.shift();
-  candles[symbol] = candleList;
+  const feedMarket = feedMarkets.get(priceProvider);
+  feedMarketFields.forEach((field) => {
+    market[field] = feedMarket[field];
+  });
+  market.feedMarket = priceProvider;
+  market.feed = feedMarket.feed;
 }
 
-function markToMarket(session) {
-  let unrealized = 0;
-  session.positions.forEach((pos) => {
-    const { symbol, quantity, entryPrice, leverage, side } = pos;
-    const px = session.market.prices[symbol] || entryPrice;
-    const pnl = side === 'long' ? (px - entryPrice) * quantity : (entryPrice - px) * quantity;
-    const leveraged = pnl * leverage;
-    unrealized += leveraged;
-    const liquidationPrice = side === 'long'
-      ? entryPrice * (1 - 1 / leverage)
-      : entryPrice * (1 + 1 / leverage);
-    if ((side === 'long' && px <= liquidationPrice) || (side === 'short' && px >= liquidationPrice)) {
-      session.realizedPnl -= pos.margin;
-      pos.margin = 0;
-      pos.quantity = 0;
-      pos.liquidated = true;
+// One tick of a feed's market: the latest quote along the fallback chain for every asset (an
+// asset without a fresh one anywhere holds), fiat around the live rates, and the book refilled.
+function stepFeedMarket(feedMarket) {
+  const { prices } = feedMarket;
+  feedMarket.clock += TICK_MS;
+  assets.forEach((asset) => {
+    if (!prices[asset]) return;
+    const current = prices[asset];
+    let nextPrice = current;
+    if (asset === 'USD') {
+      nextPrice = 1;
+    } else if (fxCurrencies.includes(asset)) {
+      nextPrice = stepFx(current, fxRates[asset]);
+    } else {
+      nextPrice = feedQuote(feedMarket.provider, asset)?.price || current;
     }
+    prices[asset] = roundPrice(Math.max(0.0001, nextPrice));
+    updateCandles(feedMarket, asset, prices[asset], syntheticVolume(current, prices[asset]));
+    const closes = feedMarket.closes[asset] || [];
+    closes.push(prices[asset]);
+    if (closes.length > CLOSE_TRAIL_LENGTH) closes.shift();
+    feedMarket.closes[asset] = closes;
   });
-  session.unrealizedPnl = roundBalance(unrealized);
-  session.positions = session.positions.filter((p) => p.quantity > 0 && !p.liquidated);
+  replenishOrderBook(feedMarket.orderBook, prices, FEED_BOOK_SPREAD);
+  feedMarket.feed = roomFeedState(feedMarket.provider);
 }
 
-function convertCurrency(amount, from, to, prices) {
-  if (from === to) return amount;
-  const fromUsd = amount * (prices[from] || initialSeedPrices[from] || 1);
-  const toUsd = prices[to] || initialSeedPrices[to] || 1;
-  return fromUsd / toUsd;
+// Moves each feed market a running room trades in once, and lets go of the ones no room uses.
+function stepFeedMarkets() {
+  const used = new Set();
+  const running = new Set();
+  rooms.forEach((room) => {
+    if (!room.market?.feedMarket) return;
+    used.add(room.market.feedMarket);
+    if (room.status === 'playing' && room.round.status === 'running') running.add(room.market.feedMarket);
+  });
+  feedMarkets.forEach((feedMarket, provider) => {
+    if (!used.has(provider)) feedMarkets.delete(provider);
+    else if (running.has(provider)) stepFeedMarket(feedMarket);
+  });
 }
 
-function handleOrder(session, order) {
-  const { base, quote, side, size, leverage = 1 } = order;
-  const prices = session.market.prices;
-  const baseUsd = prices[base];
-  const quoteUsd = prices[quote];
-  if (!baseUsd || !quoteUsd) {
-    return { error: 'Pair not supported' };
-  }
-  const pairPrice = baseUsd / quoteUsd;
-  const costInQuote = size * pairPrice;
-  let availableQuote = session.holdings[quote] || 0;
-  let convertedFromUsd = 0;
-
-  if (availableQuote < costInQuote) {
-    const missing = costInQuote - availableQuote;
-    if (quote !== 'USD' && (session.holdings.USD || 0) > 0) {
-      const neededUsd = missing * quoteUsd;
-      if (session.holdings.USD >= neededUsd) {
-        session.holdings.USD = roundBalance(session.holdings.USD - neededUsd);
-        availableQuote += missing;
-        convertedFromUsd = neededUsd;
-      }
+// Feeds a room needs polled: its own, and the fallbacks only while something earlier in the
+// chain cannot cover an asset.
+function feedsToPoll(provider) {
+  const uncovered = new Set(priceFeeds.internal.assets);
+  const needed = [];
+  feedChain(provider).forEach((id) => {
+    if (!uncovered.size) return;
+    needed.push(id);
+    if (feedStatus(id) === 'down' || feedHealth[id].failures) return;
+    priceFeeds[id].assets.forEach((asset) => uncovered.delete(asset));
+  });
+  return needed;
+}
+
+async function pollPriceFeed(id, now = Date.now()) {
+  const feed = priceFeeds[id];
+  const health = feedHealth[id];
+  // Inside the feed's rate limit or while its circuit is open, the last snapshot stands.
+  if (now - health.lastAttemptAt < feed.minIntervalMs || feedCircuitOpen(id, now)) return;
+  health.lastAttemptAt = now;
+  try {
+    const snapshot = await feed.fetchSnapshot();
+    if (!Object.keys(snapshot).length) throw new Error(`${feed.label} returned no prices`);
+    priceSnapshots[id] = { ...priceSnapshots[id], ...snapshot };
+    if (health.failures >= FEED_FAILURE_THRESHOLD) logNetwork('prices', `${feed.label} feed is back`);
+    Object.assign(health, { failures: 0, lastSuccessAt: Date.now(), retryAt: 0, lastError: null });
+    logNetwork('prices', `${feed.label} snapshot updated`, { assets: Object.keys(snapshot).length });
+  } catch (error) {
+    health.failures += 1;
+    health.lastError = error?.message || String(error);
+    // A 429 says how long to back off; otherwise the circuit opens after a few failures in a row.
+    const retryAfter = Number(error?.response?.headers?.['retry-after']);
+    if (error?.response?.status === 429) {
+      health.retryAt = now + (retryAfter > 0 ? retryAfter * 1000 : FEED_COOLDOWN_MS);
+    } else if (health.failures >= FEED_FAILURE_THRESHOLD) {
+      health.retryAt = now + FEED_COOLDOWN_MS;
+    }
+    if (health.retryAt > now) {
+      logNetwork('prices', `${feed.label} feed paused`, { failures: health.failures, retryAt: new Date(health.retryAt).toISOString() });
     }
+    logRefreshError(`Failed to refresh ${feed.label} prices`, { error: health.lastError });
   }
+}
 
-  if (availableQuote < costInQuote && leverage === 1) {
-    return { error: 'Insufficient balance for spot trade' };
-  }
+async function refreshPriceSnapshots(requestedProviders = []) {
+  const feeds = Array.from(new Set(requestedProviders.flatMap(feedsToPoll)));
+  if (!feeds.length) return;
 
-  const margin = leverage > 1 ? costInQuote / leverage : costInQuote;
-  if (leverage > 1 && availableQuote < margin) {
-    return { error: 'Insufficient margin for leveraged trade' };
-  }
+  await Promise.all([refreshFxRates(), ...feeds.map((id) => pollPriceFeed(id))]);
+}
 
-  if (availableQuote >= margin) {
-    const deduction = leverage > 1 ? margin : costInQuote;
-    session.holdings[quote] = roundBalance(availableQuote - deduction);
-  }
+// Health of every feed, for GET /price-feeds.
+function priceFeedReport(now = Date.now()) {
+  return {
+    fallback: priceFeedFallback,
+    feeds: Object.entries(priceFeeds).map(([id, feed]) => ({
+      id,
+      label: feed.label,
+      status: feedStatus(id, now),
+      assets: feed.assets,
+      ageMs: feedAgeMs(id, now),
+      failures: feedHealth[id].failures,
+      lastError: feedHealth[id].lastError,
+      retryAt: feedCircuitOpen(id, now) ? feedHealth[id].retryAt : null,
+    })),
+  };
+}
 
-  const positionSide = side === 'buy' ? 'long' : 'short';
-  const existing = session.positions.find((p) => p.symbol === base && p.side === positionSide);
-  if (existing) {
-    const totalQty = existing.quantity + size;
-    existing.entryPrice = roundPrice((existing.entryPrice * existing.quantity + pairPrice * size) / totalQty);
-    existing.quantity = totalQty;
-    existing.leverage = Math.max(existing.leverage, leverage);
-    existing.margin += margin;
+// Accepts epoch seconds, epoch milliseconds or any date string Date.parse understands.
+function parseReplayTime(value) {
+  const numeric = Number(value);
+  if (value !== '' && Number.isFinite(numeric)) return numeric < 1e12 ? numeric * 1000 : numeric;
+  return Date.parse(value);
+}
+
+// CSV files need a header row naming time/open/high/low/close/volume; JSON files hold
+// either objects with those keys or exchange-style [time, open, high, low, close, volume] rows.
+function parseReplayFile(file) {
+  const raw = fs.readFileSync(file, 'utf8');
+  let rows;
+  if (file.toLowerCase().endsWith('.json')) {
+    rows = JSON.parse(raw).map((row) =>
+      Array.isArray(row) ? { time: row[0], open: row[1], high: row[2], low: row[3], close: row[4], volume: row[5] } : row
+    );
   } else {
-    session.positions.push({
-      symbol: base,
-      side: positionSide,
-      entryPrice: roundPrice(pairPrice),
-      quantity: size,
-      leverage,
-      margin,
+    const [header, ...lines] = raw.trim().split(/\r?\n/);
+    const columns = header.split(',').map((column) => column.trim().toLowerCase());
+    rows = lines.map((line) => {
+      const cells = line.split(',');
+      return Object.fromEntries(columns.map((column, i) => [column, cells[i]?.trim()]));
     });
   }
-  return { convertedFromUsd, pairPrice: roundPrice(pairPrice) };
+  return rows
+    .map((row) => ({
+      time: parseReplayTime(row.time ?? row.timestamp ?? row.date),
+      open: Number(row.open),
+      high: Number(row.high),
+      low: Number(row.low),
+      close: Number(row.close),
+      volume: Number(row.volume) || 0,
+    }))
+    .filter((candle) => Number.isFinite(candle.time) && candle.open > 0 && candle.close > 0)
+    .sort((a, b) => a.time - b.time);
 }
 
-function updateBots(session) {
-  session.bots.forEach((bot) => {
-    const symbol = assets[Math.floor(Math.random() * 5)];
-    const price = session.market.prices[symbol];
-    if (!price) return;
-    const direction = Math.random() > 0.5 ? 1 : -1;
-    const size = Math.random() * 0.05 * (1000 / price);
-    const leverage = Math.random() > 0.8 ? 5 : 2;
-    const entry = price;
-    const pnl = direction === 1 ? (price - entry) * size : (entry - price) * size;
-    bot.unrealizedPnl = roundBalance(pnl * leverage);
-    const delta = Math.random() * 20 - 10;
-    bot.realizedPnl = roundBalance(bot.realizedPnl + delta);
-    bot.balance = roundBalance(bot.balance + delta);
+function loadReplayDataset(id) {
+  if (replayCache.has(id)) return replayCache.get(id);
+  const dir = path.join(REPLAY_DIR, id);
+  const series = {};
+  // A restored room may point at a dataset that has since been removed: it just stops replaying.
+  if (!fs.existsSync(dir)) return { id, series, from: NaN, to: NaN };
+  fs.readdirSync(dir).forEach((file) => {
+    const asset = file.match(/^([a-z]+)\.(csv|json)$/i)?.[1].toUpperCase();
+    if (!asset || !assets.includes(asset)) return;
+    try {
+      const candles = parseReplayFile(path.join(dir, file));
+      if (candles.length > 1) series[asset] = candles;
+    } catch (error) {
+      logRefreshError('Failed to parse replay file', { dataset: id, file, error: error?.message });
+    }
   });
+  const bounds = Object.values(series).flatMap((candles) => [candles[0].time, candles[candles.length - 1].time]);
+  const dataset = { id, series, from: Math.min(...bounds), to: Math.max(...bounds) };
+  replayCache.set(id, dataset);
+  logNetwork('prices', 'Replay dataset loaded', { dataset: id, assets: Object.keys(series) });
+  return dataset;
 }
 
-function emitSession(socket, session) {
-  markToMarket(session);
-  socket.emit('session_update', sanitizeSession(session));
+function listReplayDatasets() {
+  if (!fs.existsSync(REPLAY_DIR)) return [];
+  return fs
+    .readdirSync(REPLAY_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => loadReplayDataset(entry.name))
+    .filter((dataset) => Object.keys(dataset.series).length)
+    .map(({ id, series, from, to }) => ({ id, assets: Object.keys(series), from, to }));
 }
 
-function sanitizeSession(session) {
+// Validates a replay request against the datasets on disk; the range is clamped to the data.
+function replaySettings(payload) {
+  const dataset = listReplayDatasets().find((d) => d.id === payload?.dataset);
+  if (!dataset) return null;
+  const from = Math.min(Math.max(parseReplayTime(payload.from) || dataset.from, dataset.from), dataset.to);
+  const to = Math.min(Math.max(parseReplayTime(payload.to) || dataset.to, from), dataset.to);
+  const speed = replaySpeeds.includes(Number(payload.speed)) ? Number(payload.speed) : 1;
+  return { dataset: dataset.id, from, to, speed, cursor: from };
+}
+
+function replaySeries(replay) {
+  return replay ? loadReplayDataset(replay.dataset).series : {};
+}
+
+function pickPositive(map, allowed) {
+  return Object.fromEntries(
+    Object.entries(map || {}).filter(([asset, value]) => allowed.includes(asset) && Number(value) > 0).map(([a, v]) => [a, Number(v)])
+  );
+}
+
+// Normalizes a scenario file; throws on anything the engine could not run.
+function parseScenario(id, raw) {
+  const mode = modes.includes(raw.mode) ? raw.mode : 'EZ-Mode';
+  const scenarioAssets = Array.isArray(raw.assets) ? raw.assets.filter((asset) => assets.includes(asset)) : null;
+  const timeline = (raw.timeline || []).map((event) => {
+    if (!scenarioEventTypes.includes(event.type)) throw new Error(`Unknown event type ${event.type}`);
+    if (event.type !== 'news' && !assets.includes(event.asset)) throw new Error(`Unknown asset ${event.asset}`);
+    return {
+      id: event.id ? String(event.id) : undefined,
+      at: Math.max(0, Number(event.at) || 0) * 1000,
+      type: event.type,
+      asset: event.asset,
+      percent: Math.min(95, Math.max(0, Number(event.percent) || 0)),
+      durationMs: Math.max(TICK_MS, (Number(event.seconds) || 0) * 1000),
+      headline: event.headline ? String(event.headline) : undefined,
+    };
+  });
+  const objectives = (raw.objectives || []).map((objective) => {
+    if (!objectiveTypes.includes(objective.type)) throw new Error(`Unknown objective type ${objective.type}`);
+    return { ...objective };
+  });
+  if (!objectives.length) throw new Error('A scenario needs at least one objective');
+  const bots = Array.isArray(raw.bots)
+    ? raw.bots.filter((bot) => botStrategies[bot.archetype]).map((bot) => ({ ...bot, name: String(bot.name || bot.archetype) }))
+    : null;
   return {
-    playerName: session.playerName,
-    difficulty: session.difficulty,
-    mode: session.mode,
-    priceProvider: session.priceProvider,
-    holdings: session.holdings,
-    positions: session.positions,
-    realizedPnl: session.realizedPnl,
-    unrealizedPnl: session.unrealizedPnl,
-    market: session.market,
-    bots: session.bots,
-    startedAt: session.startedAt,
-    faucetClaimed: session.faucetClaimed,
+    id,
+    title: String(raw.title || id),
+    description: String(raw.description || ''),
+    difficulty: difficulties.includes(raw.difficulty) && raw.difficulty !== 'Real-World' ? raw.difficulty : 'Medium',
+    mode,
+    durationMs: Math.max(60, Number(raw.durationSeconds) || 600) * 1000,
+    assets: scenarioAssets,
+    holdings: raw.holdings ? pickPositive(raw.holdings, assets) : { USD: startingBalanceFor(mode) },
+    derivatives: pickPositive(raw.derivatives, assets),
+    prices: pickPositive(raw.prices, assets),
+    bots,
+    timeline: timeline.sort((a, b) => a.at - b.at),
+    objectives,
   };
 }
 
-async function tick() {
-  const requestedProviders = [];
-  sessions.forEach((session) => {
-    if (session.difficulty === 'Real-World') {
-      requestedProviders.push(session.priceProvider || 'internal');
-    }
-  });
-  await refreshPriceSnapshots(requestedProviders);
-  sessions.forEach((session, socketId) => {
-    const socket = io.sockets.sockets.get(socketId);
-    if (!socket) return;
-    const { difficulty } = session;
-    const prices = { ...session.market.prices };
-    assets.forEach((asset) => {
-      if (!prices[asset]) return;
-      const current = prices[asset];
-      let nextPrice = current;
-      if (difficulty === 'Real-World') {
-        const providerSnapshot =
-          priceSnapshots[session.priceProvider] ||
-          priceSnapshots.binance ||
-          priceSnapshots.coingecko ||
-          priceSnapshots.internal;
-        if (providerSnapshot?.[asset]) {
-          nextPrice = providerSnapshot[asset];
-        }
-      } else {
-        const bias = session.positions.some((p) => p.symbol === asset)
-          ? session.positions.reduce((acc, p) => (p.symbol === asset ? acc + (p.side === 'long' ? -0.002 : 0.002) : acc), 0)
-          : 0;
-        nextPrice = applyDifficultyDrift(current, difficulty, bias);
+function listScenarios() {
+  if (!fs.existsSync(SCENARIO_DIR)) return [];
+  return fs
+    .readdirSync(SCENARIO_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => {
+      const id = file.replace(/\.json$/, '');
+      try {
+        return parseScenario(id, JSON.parse(fs.readFileSync(path.join(SCENARIO_DIR, file), 'utf8')));
+      } catch (error) {
+        logRefreshError('Failed to load scenario', { scenario: id, error: error?.message });
+        return null;
       }
-      nextPrice = Math.max(0.0001, nextPrice);
-      prices[asset] = roundPrice(nextPrice);
-      updateCandles(session.market.candles, asset, prices[asset]);
-    });
-    session.market.prices = prices;
-    session.market.orderBook = buildOrderBook(prices);
-    updateBots(session);
-    markToMarket(session);
-    socket.emit('market_update', {
-      prices,
-      candles: session.market.candles,
-      orderBook: session.market.orderBook,
-      bots: session.bots,
-    });
-  });
+    })
+    .filter(Boolean);
 }
 
-io.on('connection', (socket) => {
-  logNetwork('socket', 'Client connected', {
-    socketId: socket.id,
-    address: socket.handshake?.address,
-    headers: socket.handshake?.headers,
-  });
+// What the picker and the lobby show: everything but the timeline, which stays a surprise.
+function scenarioSummary(scenario) {
+  const { timeline, holdings, derivatives, prices, bots, ...summary } = scenario;
+  return { ...summary, holdings, derivatives, events: timeline.length };
+}
 
-  socket.on('start_game', (payload) => {
-    logNetwork('socket', 'start_game received', { socketId: socket.id, payload });
-    const session = createSession(socket.id, payload);
-    emitSession(socket, session);
-  });
+// Index of the candle covering `time`, i.e. the last one opening at or before it.
+function replayIndexAt(history, time) {
+  let low = 0;
+  let high = history.length - 1;
+  let index = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (history[mid].time <= time) {
+      index = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return index;
+}
 
-  socket.on('place_order', (order, callback) => {
-    logNetwork('socket', 'place_order received', { socketId: socket.id, order });
-    const session = sessions.get(socket.id);
-    if (!session) return;
-    const result = handleOrder(session, order);
-    markToMarket(session);
-    emitSession(socket, session);
-    if (callback) callback(result);
-  });
+// Recorded candles of a replayed asset at `time`, as far back as the longest timeframe
+// keeps; the candle in progress is drawn from its open towards its recorded close.
+function replayCandlesAt(history, time) {
+  const index = replayIndexAt(history, time);
+  if (index < 0) return { candles: [], price: history[0].open };
+  const candle = history[index];
+  const next = history[index + 1];
+  const progress = next ? Math.min(1, (time - candle.time) / (next.time - candle.time)) : 1;
+  const price = roundPrice(candle.open + (candle.close - candle.open) * progress);
+  const forming = {
+    time: candle.time,
+    open: candle.open,
+    high: progress >= 1 ? candle.high : roundPrice(Math.max(candle.open, price)),
+    low: progress >= 1 ? candle.low : roundPrice(Math.min(candle.open, price)),
+    close: price,
+    volume: candle.volume * progress,
+  };
+  const span = Math.max(...Object.keys(candleTimeframes).map((tf) => candleTimeframes[tf] * candleHistoryLimits[tf]));
+  const first = replayIndexAt(history, time - span) + 1;
+  return { candles: history.slice(first, index).concat(forming), price };
+}
 
-  socket.on('claim_faucet', () => {
-    logNetwork('socket', 'claim_faucet received', { socketId: socket.id });
-    const session = sessions.get(socket.id);
-    if (!session || session.faucetClaimed) return;
-    if (session.holdings.USD <= 0) {
-      session.holdings.USD = 10;
-      session.faucetClaimed = true;
-      emitSession(socket, session);
+// Re-buckets candles into a coarser timeframe. Source candles are never mutated.
+function aggregateCandles(candles, timeframe) {
+  const ms = candleTimeframes[timeframe];
+  const aggregated = [];
+  candles.forEach((candle) => {
+    const bucket = Math.floor(candle.time / ms) * ms;
+    const last = aggregated[aggregated.length - 1];
+    if (last && last.time === bucket) {
+      last.high = Math.max(last.high, candle.high);
+      last.low = Math.min(last.low, candle.low);
+      last.close = candle.close;
+      last.volume += candle.volume;
+    } else {
+      aggregated.push({ ...candle, time: bucket });
     }
   });
+  return aggregated.slice(-candleHistoryLimits[timeframe]);
+}
 
-  socket.on('disconnect', () => {
-    logNetwork('socket', 'Client disconnected', { socketId: socket.id });
-    sessions.delete(socket.id);
+function setReplayCandles(market, asset, candles) {
+  Object.keys(candleTimeframes).forEach((timeframe) => {
+    market.candles[timeframe][asset] = aggregateCandles(candles, timeframe);
   });
-});
+}
+
+// Advances the room's replay clock by one tick and redraws the replayed assets' candles.
+// Returns the replayed prices; assets missing from the dataset keep the regular drift.
+function stepReplay(room) {
+  const { replay, market } = room;
+  replay.cursor = Math.min(replay.to, replay.cursor + TICK_MS * replay.speed);
+  market.replayClock = replay.cursor;
+  const replayed = {};
+  Object.entries(replaySeries(replay)).forEach(([asset, history]) => {
+    const { candles, price } = replayCandlesAt(history, replay.cursor);
+    setReplayCandles(market, asset, candles);
+    replayed[asset] = price;
+  });
+  return replayed;
+}
 
-setInterval(() => {
-  tick().catch((error) => logRefreshError('Tick execution failed', { error: error?.message }));
-}, TICK_MS);
+function replayFinished(room) {
+  return Boolean(room.replay && room.replay.cursor >= room.replay.to);
+}
 
-httpServer.listen(PORT, () => {
-  logNetwork('server', `Server listening on port ${PORT}`, { port: PORT });
-});
+// Synthetic warm-up history ending `now`: a gentle random walk that closes at `price`,
+// with volume in the range of what the order book trades over that interval.
+function generateInitialCandles(
+  price,
+  intervalMs,
+  count = WARMUP_CANDLES,
+  minuteVolatility = 0.002,
+  { random = Math.random, now = Date.now() } = {}
+) {
+  const end = Math.floor(now / intervalMs) * intervalMs;
+  const volatility = minuteVolatility * Math.sqrt(intervalMs / 60_000);
+  const baseVolume = (BOOK_LEVEL_NOTIONAL_USD / price) * (intervalMs / TICK_MS) * 0.3;
+  const candles = [];
+  let close = price;
+  for (let i = 0; i < count; i += 1) {
+    const open = close * (1 + (random() - 0.5) * 2 * volatility);
+    const wick = Math.abs(close - open) + close * volatility * random();
+    candles.unshift({
+      time: end - i * intervalMs,
+      open: roundPrice(open),
+      high: roundPrice(Math.max(open, close) + wick * 0.5),
+      low: roundPrice(Math.min(open, close) - wick * 0.5),
+      close: roundPrice(close),
+      volume: roundPrice(baseVolume * (0.5 + random())),
+    });
+    close = open;
+  }
+  return candles;
+}
+
+function assetMinuteVolatility(asset) {
+  if (asset === 'USD') return 0;
+  return fxCurrencies.includes(asset) ? FX_TICK_VOLATILITY * 2 : undefined;
+}
+
+function generateCandleHistory(prices, options) {
+  const candles = {};
+  Object.entries(candleTimeframes).forEach(([timeframe, ms]) => {
+    candles[timeframe] = {};
+    assets.forEach((asset) => {
+      candles[timeframe][asset] = generateInitialCandles(prices[asset], ms, WARMUP_CANDLES, assetMinuteVolatility(asset), options);
+    });
+  });
+  return candles;
+}
+
+function startingBalanceFor(mode) {
+  return mode === 'Admin' ? 10000 : mode === 'Whale' ? 25000 : 1000;
+}
+
+function generateRoomCode() {
+  let code;
+  do {
+    code = Array.from({ length: 6 }, () => ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)]).join('');
+  } while (Array.from(rooms.values()).some((room) => room.code === code));
+  return code;
+}
+
+function roomSettings(payload = {}, fallback = {}) {
+  const priceProvider = priceProviders.includes(payload.priceProvider)
+    ? payload.priceProvider
+    : fallback.priceProvider || 'internal';
+  // A replay without a usable dataset falls back to the internal feed, like an unknown provider.
+  const replay = priceProvider === 'replay' ? replaySettings(payload.replay || fallback.replay) : null;
+  // An unknown scenario means free play. A scenario brings its own difficulty and mode on the internal feed.
+  const scenarioId = payload.scenario ?? fallback.scenario?.id;
+  const scenario = scenarioId ? listScenarios().find((s) => s.id === scenarioId) || null : null;
+  // An empty seed means a random one for every game.
+  const seed = (typeof payload.seed === 'string' ? payload.seed.trim() : fallback.seed) || null;
+  // The daily challenge is one fixed setup on the day's seed, so that everyone's results compare.
+  if (payload.daily ?? fallback.daily) {
+    return {
+      difficulty: 'Medium',
+      mode: 'EZ-Mode',
+      priceProvider: 'internal',
+      replay: null,
+      scenario: null,
+      seed: null,
+      daily: true,
+      hideHints: Boolean(payload.hideHints ?? fallback.hideHints),
+      rankNetOfFees: Boolean(payload.rankNetOfFees ?? fallback.rankNetOfFees),
+      fees: adminFees(payload.fees, fallback.fees),
+    };
+  }
+  if (scenario) {
+    return {
+      difficulty: scenario.difficulty,
+      mode: scenario.mode,
+      priceProvider: 'internal',
+      replay: null,
+      scenario,
+      seed,
+      daily: false,
+      hideHints: Boolean(payload.hideHints ?? fallback.hideHints),
+      rankNetOfFees: Boolean(payload.rankNetOfFees ?? fallback.rankNetOfFees),
+      fees: adminFees(payload.fees, fallback.fees),
+    };
+  }
+  return {
+    difficulty: difficulties.includes(payload.difficulty) ? payload.difficulty : fallback.difficulty || 'Medium',
+    mode: modes.includes(payload.mode) ? payload.mode : fallback.mode || 'EZ-Mode',
+    priceProvider: priceProvider === 'replay' && !replay ? 'internal' : priceProvider,
+    replay,
+    scenario: null,
+    seed,
+    daily: false,
+    hideHints: Boolean(payload.hideHints ?? fallback.hideHints),
+    rankNetOfFees: Boolean(payload.rankNetOfFees ?? fallback.rankNetOfFees),
+    fees: adminFees(payload.fees, fallback.fees),
+  };
+}
+
+function clampRate(value, max, fallback) {
+  const rate = Number(value);
+  return Number.isFinite(rate) ? Math.min(max, Math.max(0, rate)) : fallback;
+}
+
+// Host-chosen rates for Admin rooms; other modes ignore them.
+function adminFees(fees = {}, fallback) {
+  const defaults = fallback || { spread: feeSchedules.Admin.spread, ...feeSchedules.Admin.tiers[0] };
+  return {
+    maker: clampRate(fees?.maker, MAX_FEE_RATE, defaults.maker),
+    taker: clampRate(fees?.taker, MAX_FEE_RATE, defaults.taker),
+    spread: clampRate(fees?.spread, MAX_SPREAD, defaults.spread),
+  };
+}
+
+function feeSchedule(room) {
+  if (room.mode !== 'Admin' || !room.fees) return feeSchedules[room.mode] || feeSchedules['EZ-Mode'];
+  const { maker, taker, spread } = room.fees;
+  return { spread, tiers: [{ minVolumeUsd: 0, maker, taker }] };
+}
+
+// A room owns the market, the bots and the round. Solo games are private rooms of one.
+function createRoom(payload, { isPrivate = false } = {}) {
+  const settings = roomSettings(payload);
+  const room = {
+    id: uuidv4(),
+    code: generateRoomCode(),
+    isPrivate,
+    hostId: null,
+    memberIds: [],
+    ready: {},
+    ...settings,
+    status: 'lobby',
+    market: null,
+    bots: [],
+    round: null,
+    startedAt: null,
+    lastEventAt: 0,
+  };
+  rooms.set(room.id, room);
+  return room;
+}
+
+// Closing trades by result, in USD, for win rate and average win / loss.
+function emptyOutcomes() {
+  return { wins: 0, losses: 0, grossWin: 0, grossLoss: 0 };
+}
+
+function resetAccount(session, startingBalance) {
+  Object.assign(session, {
+    // Spot wallet; the derivatives wallet backs positions and is funded by transfers from it.
+    holdings: { USD: startingBalance },
+    derivatives: {},
+    positions: [],
+    orders: [],
+    realizedPnl: 0,
+    unrealizedPnl: 0,
+    fees: 0,
+    volumeUsd: 0,
+    trades: 0,
+    liquidations: 0,
+    startingBalance,
+    faucetClaimed: false,
+    equitySamples: [],
+    outcomes: emptyOutcomes(),
+    // Alerts watch this game's prices and take their ids from its market.
+    alerts: [],
+  });
+}
+
+// Names end up in every member's leaderboard and room feed: keep them short and printable.
+function sanitizePlayerName(value) {
+  const name = String(value ?? '')
+    .replace(/<[^>]*>/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/[\u0000-\u001f\u007f<>]/g, '')
+    .trim()
+    .slice(0, protocol.playerNameMaxLength);
+  return name || 'Anonyme';
+}
+
+function createSession(payload, room) {
+  const session = {
+    id: uuidv4(),
+    token: uuidv4(),
+    socketId: null,
+    disconnectedAt: null,
+    roomId: room.id,
+    playerName: sanitizePlayerName(payload?.playerName),
+    startedAt: Date.now(),
+    // Symbols the member's market updates carry books and candles for; null for all of them.
+    subscriptions: null,
+    // Append-only: survives rounds and restarts, only leaving with the session.
+    ledger: [],
+    marginCallPct: DEFAULT_MARGIN_CALL_PCT,
+  };
+  resetAccount(session, startingBalanceFor(room.mode));
+  if (room.scenario && room.market) startScenario(session, room);
+  sessions.set(session.id, session);
+  room.memberIds.push(session.id);
+  room.ready[session.id] = false;
+  if (!room.hostId) room.hostId = session.id;
+  if (room.status === 'playing') recordAction(room, session, 'join', { playerName: session.playerName });
+  return session;
+}
+
+function sessionForToken(token) {
+  return token ? Array.from(sessions.values()).find((s) => s.token === token) : undefined;
+}
+
+function sessionForApiKey(apiKey) {
+  return apiKey ? Array.from(sessions.values()).find((s) => s.apiKey === apiKey) : undefined;
+}
+
+function generateApiKey() {
+  return `ck_${uuidv4().replace(/-/g, '')}`;
+}
+
+function publicRoomByCode(code) {
+  const normalized = String(code || '').trim().toUpperCase();
+  return Array.from(rooms.values()).find((r) => !r.isPrivate && r.code === normalized);
+}
+
+function roomFor(session) {
+  return rooms.get(session.roomId);
+}
+
+// A game played again from its record seats stand-ins instead of live sessions.
+function roomMembers(room) {
+  const members = room.standIns || sessions;
+  return room.memberIds.map((id) => members.get(id)).filter(Boolean);
+}
+
+// What it takes to play a game again: its seed, the clock it started at, the rules and who
+// was there. Actions are appended as they happen and round results as rounds end. Games on
+// live or historical feeds depend on more than the seed, so they keep no actions.
+function openGameRecord(room) {
+  return {
+    id: uuidv4(),
+    seed: room.daily ? dailySeed() : room.seed || randomSeed(),
+    daily: Boolean(room.daily),
+    startedAt: Date.now(),
+    reproducible: room.difficulty !== 'Real-World' && room.priceProvider !== 'replay',
+    settings: {
+      difficulty: room.difficulty,
+      mode: room.mode,
+      priceProvider: room.priceProvider,
+      scenario: room.scenario,
+      hideHints: room.hideHints,
+      rankNetOfFees: room.rankNetOfFees,
+      fees: room.fees,
+    },
+    members: roomMembers(room).map((member) => ({ id: member.id, name: member.playerName })),
+    rounds: [],
+  };
+}
+
+// Appends a member's action to the game record with the tick it followed and the game clock.
+function recordAction(room, session, event, payload = {}) {
+  if (!room.game?.reproducible || room.standIns) return;
+  appendGameAction(room.game, { tick: room.market.tick, at: room.market.clock, memberId: session.id, event, payload });
+}
+
+// (Re)builds the shared market and bots, resets every member's account and starts round 1.
+// Playing a saved game again passes its record; otherwise the game opens a new one.
+function startRoomGame(room, game = openGameRecord(room)) {
+  const startingBalance = startingBalanceFor(room.mode);
+  if (room.replay) room.replay.cursor = room.replay.from;
+  room.game = game;
+  room.market = buildInitialMarket(room.difficulty, room.priceProvider, room.replay, feeSchedule(room), room.scenario, game);
+  if (sharesFeedMarket(room)) joinFeedMarket(room);
+  room.bots = createBots(startingBalance, room.difficulty, room.scenario?.bots || undefined);
+  room.status = 'playing';
+  room.startedAt = game.startedAt;
+  roomMembers(room).forEach((member) => {
+    resetAccount(member, startingBalance);
+    if (room.scenario) startScenario(member, room);
+  });
+  startRound(room, 1);
+}
+
+// Gives a member the scenario's wallets; the return and the score are measured from their USD value.
+function startScenario(session, room) {
+  const { scenario, market } = room;
+  session.holdings = { ...scenario.holdings };
+  session.derivatives = { ...scenario.derivatives };
+  session.startingBalance = accountEquity(session, market);
+  session.scenario = {
+    id: scenario.id,
+    title: scenario.title,
+    status: 'running',
+    objectives: scenario.objectives.map((objective) => ({ ...objective, status: 'pending' })),
+    score: null,
+  };
+}
+
+function removeFromRoom(session) {
+  const room = roomFor(session);
+  if (!room) return;
+  if (room.status === 'playing') recordAction(room, session, 'leave');
+  room.memberIds = room.memberIds.filter((id) => id !== session.id);
+  delete room.ready[session.id];
+  const socket = session.socketId ? io.sockets.sockets.get(session.socketId) : null;
+  if (socket) socket.leave(room.id);
+  if (!room.memberIds.length) {
+    rooms.delete(room.id);
+    return;
+  }
+  if (room.hostId === session.id) room.hostId = room.memberIds[0];
+  emitRoomEvent(room, { type: 'leave', name: session.playerName });
+  emitRoomUpdate(room);
+}
+
+function deleteSession(session) {
+  removeFromRoom(session);
+  if (session.apiKey) apiQuotas.delete(session.apiKey);
+  marketStreams.delete(session.id);
+  sessions.delete(session.id);
+}
+
+function roomState(room) {
+  return {
+    id: room.id,
+    code: room.code,
+    isPrivate: room.isPrivate,
+    hostId: room.hostId,
+    status: room.status,
+    difficulty: room.difficulty,
+    mode: room.mode,
+    priceProvider: room.priceProvider,
+    replay: room.replay,
+    hideHints: Boolean(room.hideHints),
+    rankNetOfFees: Boolean(room.rankNetOfFees),
+    fees: room.fees,
+    scenario: room.scenario ? scenarioSummary(room.scenario) : null,
+    seed: room.game?.seed ?? room.seed ?? null,
+    daily: Boolean(room.daily),
+    gameId: room.game?.reproducible ? room.game.id : null,
+    unranked: Boolean(room.game?.unranked),
+    members: roomMembers(room).map((member) => ({
+      id: member.id,
+      name: member.playerName,
+      ready: Boolean(room.ready[member.id]),
+      connected: Boolean(member.socketId),
+      isHost: member.id === room.hostId,
+      isAlgo: Boolean(member.apiKey),
+    })),
+  };
+}
+
+function emitRoomUpdate(room) {
+  io.to(room.id).emit('room_update', roomState(room));
+}
+
+function emitRoomEvent(room, event) {
+  io.to(room.id).emit('room_event', { ...event, at: Date.now() });
+}
+
+// Big fills and liquidations are queued on the market by the engine and announced here.
+function flushMarketEvents(room) {
+  if (!room.market?.events?.length) return;
+  room.market.events.splice(0).forEach((event) => emitRoomEvent(room, event));
+}
+
+function sessionForSocket(socket) {
+  return socket.data.sessionId ? sessions.get(socket.data.sessionId) : undefined;
+}
+
+// Attaches a session to a socket. A session lives on a single socket: resuming it
+// from another tab detaches the previous one.
+function bindSocket(session, socket) {
+  const previous = session.socketId && session.socketId !== socket.id ? io.sockets.sockets.get(session.socketId) : null;
+  if (previous) {
+    previous.data.sessionId = null;
+    previous.leave(session.roomId);
+    previous.emit('session_detached', { reason: 'Session resumed elsewhere' });
+  }
+  session.socketId = socket.id;
+  session.disconnectedAt = null;
+  socket.data.sessionId = session.id;
+  socket.join(session.roomId);
+}
+
+function reapSessions() {
+  const now = Date.now();
+  sessions.forEach((session, id) => {
+    // An open stream keeps an API session alive however quiet it is.
+    if (apiStreams.has(id)) return;
+    if (session.disconnectedAt && now - session.disconnectedAt > SESSION_GRACE_MS) {
+      logNetwork('sessions', 'Reaping abandoned session', { sessionId: id, playerName: session.playerName });
+      deleteSession(session);
+    }
+  });
+  apiQuotas.forEach((quota, id) => {
+    if (now - quota.startedAt >= API_RATE_WINDOW_MS) apiQuotas.delete(id);
+  });
+}
+
+// Only the latest candles of a market are saved: the history behind them is only drawn on charts.
+function marketSnapshot(market) {
+  const candles = {};
+  Object.entries(market.candles).forEach(([timeframe, bySymbol]) => {
+    candles[timeframe] = Object.fromEntries(
+      Object.entries(bySymbol).map(([symbol, candleList]) => [symbol, candleList.slice(-SNAPSHOT_CANDLES)])
+    );
+  });
+  return { ...market, candles, events: [] };
+}
+
+// What a restart cannot rebuild: sessions, accounts, rooms and their markets' rng, clock and
+// books. Game records have their own files and actions are appended there as they happen.
+function sessionSnapshot() {
+  const snapshot = Array.from(sessions.values()).map(({ socketId, ...session }) => session);
+  const storedRooms = Array.from(rooms.values()).map((room) => ({
+    ...room,
+    market: room.market && marketSnapshot(room.market),
+  }));
+  return JSON.stringify({ savedAt: Date.now(), sessions: snapshot, rooms: storedRooms });
+}
+
+async function persistSessions() {
+  const tmpFile = `${SESSIONS_FILE}.tmp`;
+  await fs.promises.mkdir(DATA_DIR, { recursive: true });
+  await fs.promises.writeFile(tmpFile, sessionSnapshot());
+  await fs.promises.rename(tmpFile, SESSIONS_FILE);
+}
+
+function persistSessionsSync() {
+  const tmpFile = `${SESSIONS_FILE}.tmp`;
+  fs.mkdirSync(DATA_DIR, { recursive: true });
+  fs.writeFileSync(tmpFile, sessionSnapshot());
+  fs.renameSync(tmpFile, SESSIONS_FILE);
+}
+
+// One record per player and game, updated at the end of each of its rounds: rounds continue
+// the same account, so the latest round carries the game's totals.
+let hallOfFame = [];
+let hallOfFameWrite = Promise.resolve();
+
+function loadHallOfFame() {
+  try {
+    hallOfFame = JSON.parse(fs.readFileSync(HALL_OF_FAME_FILE, 'utf8')).results || [];
+  } catch (error) {
+    if (error.code !== 'ENOENT') logRefreshError('Failed to read hall of fame', { error: error.message });
+  }
+}
+
+// Writes are chained so two rooms ending on the same tick cannot interleave their temp files.
+function persistHallOfFame() {
+  const tmpFile = `${HALL_OF_FAME_FILE}.tmp`;
+  hallOfFameWrite = hallOfFameWrite
+    .then(async () => {
+      await fs.promises.mkdir(DATA_DIR, { recursive: true });
+      await fs.promises.writeFile(tmpFile, JSON.stringify({ savedAt: Date.now(), results: hallOfFame }));
+      await fs.promises.rename(tmpFile, HALL_OF_FAME_FILE);
+    })
+    .catch((error) => logRefreshError('Failed to write hall of fame', { error: error.message }));
+}
+
+// A game record's header is rewritten at the end of every round and its actions are appended one
+// line each, all chained like the hall of fame so writes land in order.
+let gameRecordWrite = Promise.resolve();
+
+function gameActionsFile(id) {
+  return path.join(GAMES_DIR, `${id}.actions.jsonl`);
+}
+
+function queueGameWrite(id, write) {
+  gameRecordWrite = gameRecordWrite
+    .then(async () => {
+      await fs.promises.mkdir(GAMES_DIR, { recursive: true });
+      await write();
+    })
+    .catch((error) => logRefreshError('Failed to write game record', { id, error: error.message }));
+}
+
+function persistGameRecord(game) {
+  const file = path.join(GAMES_DIR, `${game.id}.json`);
+  const data = JSON.stringify(game);
+  queueGameWrite(game.id, async () => {
+    await fs.promises.writeFile(`${file}.tmp`, data);
+    await fs.promises.rename(`${file}.tmp`, file);
+  });
+}
+
+// Resolves once every queued header and action write has landed.
+function flushGameRecords() {
+  return gameRecordWrite;
+}
+
+function appendGameAction(game, action) {
+  const line = `${JSON.stringify(action)}\n`;
+  queueGameWrite(game.id, () => fs.promises.appendFile(gameActionsFile(game.id), line));
+}
+
+// A game that never got an action has no actions file yet.
+async function loadGameRecord(id) {
+  if (!/^[\w-]+$/.test(id)) return null;
+  try {
+    const record = JSON.parse(await fs.promises.readFile(path.join(GAMES_DIR, `${id}.json`), 'utf8'));
+    const lines = await fs.promises.readFile(gameActionsFile(id), 'utf8').catch((error) => {
+      if (error.code === 'ENOENT') return '';
+      throw error;
+    });
+    const actions = lines.split('\n').filter(Boolean).map((line) => JSON.parse(line));
+    return { ...record, actions };
+  } catch (error) {
+    if (error.code !== 'ENOENT') logRefreshError('Failed to read game record', { id, error: error.message });
+    return null;
+  }
+}
+
+// Bots and members who never traded stay out of it, and so do games steered from the Admin
+// console, whose earlier rounds are taken back out.
+function recordHallOfFame(room) {
+  if (room.game?.unranked) {
+    const ids = new Set(roomMembers(room).map((member) => `${member.id}:${room.startedAt}`));
+    const ranked = hallOfFame.filter((record) => !ids.has(record.id));
+    if (ranked.length < hallOfFame.length) {
+      hallOfFame = ranked;
+      persistHallOfFame();
+    }
+    return;
+  }
+  const endedAt = room.round.endedAt;
+  const recorded = roomMembers(room).filter((member) => member.trades > 0);
+  recorded.forEach((member) => {
+    const id = `${member.id}:${room.startedAt}`;
+    const player = room.round.results.players[member.id];
+    const entry = {
+      id,
+      playerName: member.playerName,
+      isAlgo: Boolean(member.apiKey),
+      difficulty: room.difficulty,
+      mode: room.mode,
+      priceProvider: room.priceProvider,
+      scenario: member.scenario?.id || null,
+      seed: room.game?.seed || null,
+      daily: Boolean(room.game?.daily),
+      gameId: room.game?.reproducible ? room.game.id : null,
+      rounds: room.round.number,
+      realizedPnl: player.realizedPnl,
+      netPnl: player.netPnl,
+      returnPct: player.returnPct,
+      maxDrawdownPct: drawdownOf(member.equitySamples.filter((sample) => sample.time >= room.startedAt)).pct,
+      trades: member.trades,
+      liquidations: member.liquidations,
+      won: player.won,
+      durationMs: endedAt - room.startedAt,
+      startedAt: room.startedAt,
+      endedAt,
+    };
+    const index = hallOfFame.findIndex((record) => record.id === id);
+    if (index === -1) hallOfFame.push(entry);
+    else hallOfFame[index] = entry;
+  });
+  if (recorded.length) persistHallOfFame();
+}
+
+// Filters shared by the results and the profiles: difficulty, mode, a `since` date (epoch
+// or ISO) for weekly competitions and a seed, where `daily` stands for today's challenge.
+function hallOfFameRecords(filters = {}) {
+  const since = filters.since ? parseReplayTime(filters.since) || 0 : 0;
+  const seed = filters.seed === 'daily' ? dailySeed() : filters.seed;
+  return hallOfFame.filter(
+    (record) =>
+      (!difficulties.includes(filters.difficulty) || record.difficulty === filters.difficulty) &&
+      (!modes.includes(filters.mode) || record.mode === filters.mode) &&
+      (!seed || record.seed === seed) &&
+      record.endedAt >= since
+  );
+}
+
+function profileKey(name) {
+  return name.trim().toLowerCase();
+}
+
+// Lifetime stats per player name: names are the only identity that survives a session.
+function playerProfiles(records) {
+  const profiles = new Map();
+  records.forEach((record) => {
+    const key = profileKey(record.playerName);
+    const profile = profiles.get(key) || {
+      playerName: record.playerName,
+      games: 0,
+      wins: 0,
+      realizedPnl: 0,
+      bestRealizedPnl: record.realizedPnl,
+      averageReturnPct: 0,
+      worstDrawdownPct: 0,
+      trades: 0,
+      liquidations: 0,
+      playTimeMs: 0,
+      firstPlayedAt: record.startedAt,
+      lastPlayedAt: record.endedAt,
+    };
+    profile.games += 1;
+    profile.wins += record.won ? 1 : 0;
+    profile.realizedPnl = roundBalance(profile.realizedPnl + record.realizedPnl);
+    profile.bestRealizedPnl = Math.max(profile.bestRealizedPnl, record.realizedPnl);
+    profile.averageReturnPct += (record.returnPct - profile.averageReturnPct) / profile.games;
+    profile.worstDrawdownPct = Math.max(profile.worstDrawdownPct, record.maxDrawdownPct);
+    profile.trades += record.trades;
+    profile.liquidations += record.liquidations;
+    profile.playTimeMs += record.durationMs;
+    profile.firstPlayedAt = Math.min(profile.firstPlayedAt, record.startedAt);
+    if (record.endedAt >= profile.lastPlayedAt) {
+      // The most recent spelling of the name wins.
+      profile.playerName = record.playerName;
+      profile.lastPlayedAt = record.endedAt;
+    }
+    profiles.set(key, profile);
+  });
+  return Array.from(profiles.values())
+    .map((profile) => ({ ...profile, averageReturnPct: roundBalance(profile.averageReturnPct) }))
+    .sort((a, b) => b.realizedPnl - a.realizedPnl);
+}
+
+function hallOfFameLimit(value) {
+  return Math.min(HALL_OF_FAME_LIMIT, Math.max(1, Number(value) || 20));
+}
+
+// Draws synthetic candles behind the oldest saved one of each series, up to the warm-up length.
+function padCandleHistory(market) {
+  Object.entries(candleTimeframes).forEach(([timeframe, ms]) => {
+    Object.entries(market.candles[timeframe] || {}).forEach(([asset, candleList]) => {
+      const missing = WARMUP_CANDLES - candleList.length;
+      if (missing <= 0 || !candleList.length) return;
+      const oldest = candleList[0];
+      // The generated series ends on a candle at the oldest one's time, dropped in favour of it.
+      const earlier = generateInitialCandles(oldest.open, ms, missing + 1, assetMinuteVolatility(asset), { now: oldest.time });
+      market.candles[timeframe][asset] = earlier.slice(0, -1).concat(candleList);
+    });
+  });
+}
+
+// Restored sessions start their grace period now: players get the usual window to come back.
+function restoreSessions() {
+  let raw;
+  try {
+    raw = fs.readFileSync(SESSIONS_FILE, 'utf8');
+  } catch (error) {
+    if (error.code !== 'ENOENT') logRefreshError('Failed to read session snapshot', { error: error.message });
+    return;
+  }
+  try {
+    const { sessions: stored = [], rooms: storedRooms = [] } = JSON.parse(raw);
+    storedRooms.forEach((room) => {
+      // Snapshots keep each series' latest candles: the warm-up is drawn again behind them.
+      if (room.market) padCandleHistory(room.market);
+      // Rooms on a live feed come back together on one market again, the first one's.
+      if (room.market?.feedMarket) joinFeedMarket(room);
+      rooms.set(room.id, room);
+    });
+    stored.forEach((session) => {
+      if (!rooms.has(session.roomId)) return;
+      sessions.set(session.id, { ...session, socketId: null, disconnectedAt: Date.now() });
+    });
+    logNetwork('sessions', 'Restored sessions from snapshot', { count: sessions.size, rooms: rooms.size });
+  } catch (error) {
+    logRefreshError('Session snapshot is corrupted, ignoring it', { error: error.message });
+  }
+}
+
+function startRound(room, number) {
+  const startedAt = room.market.clock;
+  const durationMs =
+    ROUND_DURATION_OVERRIDE_MS || room.scenario?.durationMs || roundDurationsMs[room.mode] || roundDurationsMs['EZ-Mode'];
+  room.round = {
+    number,
+    startedAt,
+    endsAt: startedAt + durationMs,
+    durationMs,
+    status: 'running',
+    results: null,
+  };
+}
+
+// Everything random in the market draws from the game's seed, and its clock starts at the game's
+// start and moves one TICK_MS per tick: the same game record always builds the same market.
+function buildInitialMarket(difficulty, priceProvider, replay, fees, scenario, game) {
+  // Real-World starts from whatever the feeds have; the seed prices fill the gaps.
+  const basePrices = { ...initialSeedPrices };
+  if (difficulty === 'Real-World') {
+    priceFeeds.internal.assets.forEach((asset) => {
+      const quote = feedQuote(priceProvider, asset);
+      if (quote) basePrices[asset] = quote.price;
+    });
+  }
+  // The room's reference FX: live rates for Real-World, the defaults otherwise.
+  const roomFxRates = difficulty === 'Real-World' ? { ...fxRates } : { ...defaultFxRates };
+  const prices = { ...basePrices, USD: 1, ...fxPrices(roomFxRates), ...scenario?.prices };
+  const rng = seededRng(game.seed);
+  const random = () => nextRandom(rng);
+  const candles = generateCandleHistory(prices, { random, now: game.startedAt });
+  const series = replaySeries(replay);
+  const market = {
+    rng,
+    clock: game.startedAt,
+    tick: 0,
+    serials: {},
+    prices,
+    candles,
+    closes: {},
+    events: [],
+    patterns: {},
+    fees,
+    fxRates: roomFxRates,
+    replayAssets: Object.keys(series),
+    interventions: emptyInterventions(),
+  };
+  // How far along its timeline a scenario room is.
+  if (scenario) market.scenario = { assets: scenario.assets, nextEvent: 0 };
+  Object.entries(series).forEach(([asset, history]) => {
+    // Warm-up history comes from the file itself, ending at the replay start.
+    const warmUp = replayCandlesAt(history, replay.from);
+    setReplayCandles(market, asset, warmUp.candles);
+    prices[asset] = warmUp.price;
+  });
+  if (replay) market.replayClock = replay.from;
+  assets.forEach((asset) => {
+    market.closes[asset] = generateInitialCandles(prices[asset], TICK_MS, CLOSE_TRAIL_LENGTH, assetMinuteVolatility(asset), {
+      random,
+      now: game.startedAt,
+    }).map((c) => c.close);
+  });
+  market.orderBook = buildOrderBook(prices, fees.spread, random);
+  return market;
+}
+
+// The difficulty's line-up spread over every bot name; scenarios pass their own roster instead.
+function defaultRoster(difficulty) {
+  const lineup = Object.entries(botLineups[difficulty] || botLineups.Medium).flatMap(([archetype, count]) =>
+    Array.from({ length: count }, () => archetype)
+  );
+  return botNames.map((name, i) => {
+    const archetype = lineup[i % lineup.length];
+    return {
+      name,
+      archetype,
+      symbol: archetype === 'whale' ? ['BTC', 'ETH'][i % 2] : botTradableAssets[i % botTradableAssets.length],
+    };
+  });
+}
+
+function createBots(startingBalance, difficulty, roster = defaultRoster(difficulty)) {
+  return roster.map(({ name, archetype, symbol }, i) => {
+    const strategy = botStrategies[archetype];
+    const balance = startingBalance * strategy.balanceMultiplier;
+    return {
+      // Stable per room so a recorded Admin action on a bot still finds it when the game is played again.
+      id: `bot-${i + 1}`,
+      name,
+      archetype,
+      symbol: symbol || botTradableAssets[i % botTradableAssets.length],
+      holdings: {},
+      // Bots only trade derivatives, so their whole balance starts there.
+      derivatives: { USD: balance },
+      balance,
+      realizedPnl: 0,
+      unrealizedPnl: 0,
+      fees: 0,
+      volumeUsd: 0,
+      trades: 0,
+      liquidations: 0,
+      startingBalance: balance,
+      positions: [],
+      orders: [],
+      equitySamples: [],
+      outcomes: emptyOutcomes(),
+    };
+  });
+}
+
+// Target liquidity for a level: deeper further from the mid, expressed in base units.
+function targetLevelSize(price, index) {
+  const notional = BOOK_LEVEL_NOTIONAL_USD * (1 + index * 0.35);
+  return notional / price;
+}
+
+// The best level sits half the room's spread away from the mid; deeper levels step out from there.
+function bookLevelPrice(price, index, side, spread) {
+  const offset = spread / 2 + index * BOOK_LEVEL_SPREAD;
+  return roundPrice(side === 'bids' ? price * (1 - offset) : price * (1 + offset));
+}
+
+function buildOrderBook(prices, spread, random = Math.random) {
+  const book = {};
+  Object.entries(prices).forEach(([symbol, price]) => {
+    if (!price) return;
+    const bids = [];
+    const asks = [];
+    for (let i = 0; i < BOOK_LEVELS; i += 1) {
+      const size = () => roundPrice(targetLevelSize(price, i) * (0.6 + random() * 0.8));
+      bids.push({ price: bookLevelPrice(price, i, 'bids', spread), size: size() });
+      asks.push({ price: bookLevelPrice(price, i, 'asks', spread), size: size() });
+    }
+    book[symbol] = { bids, asks };
+  });
+  return book;
+}
+
+// Re-centres each book on the new mid while keeping consumed levels thin: a level
+// only recovers part of its missing liquidity per tick.
+function replenishOrderBook(book, prices, spread, random = Math.random) {
+  Object.entries(prices).forEach(([symbol, price]) => {
+    if (!price) return;
+    if (!book[symbol]) {
+      Object.assign(book, buildOrderBook({ [symbol]: price }, spread, random));
+      return;
+    }
+    ['bids', 'asks'].forEach((side) => {
+      book[symbol][side] = Array.from({ length: BOOK_LEVELS }).map((_, i) => {
+        const previous = book[symbol][side][i]?.size || 0;
+        const target = targetLevelSize(price, i) * (0.6 + random() * 0.8);
+        return {
+          price: bookLevelPrice(price, i, side, spread),
+          size: roundPrice(previous + (target - previous) * BOOK_REFILL_RATE),
+        };
+      });
+    });
+  });
+}
+
+// Walks the opposite side of the book without mutating it. Prices are in USD.
+function walkBook(levelBook, side, size, limitUsd) {
+  const levels = side === 'buy' ? levelBook?.asks || [] : levelBook?.bids || [];
+  const fills = [];
+  let remaining = size;
+  for (const level of levels) {
+    if (remaining <= QUANTITY_EPSILON) break;
+    if (limitUsd && (side === 'buy' ? level.price > limitUsd : level.price < limitUsd)) break;
+    if (level.size <= QUANTITY_EPSILON) continue;
+    const take = Math.min(remaining, level.size);
+    fills.push({ price: level.price, size: take });
+    remaining -= take;
+  }
+  const filled = fills.reduce((acc, f) => acc + f.size, 0);
+  const averageUsd = filled ? fills.reduce((acc, f) => acc + f.price * f.size, 0) / filled : 0;
+  return { fills, filled, averageUsd };
+}
+
+function consumeBook(levelBook, side, quantity) {
+  const levels = side === 'buy' ? levelBook.asks : levelBook.bids;
+  let remaining = quantity;
+  levels.forEach((level) => {
+    if (remaining <= QUANTITY_EPSILON) return;
+    const take = Math.min(remaining, level.size);
+    level.size = roundPrice(level.size - take);
+    remaining -= take;
+  });
+}
+
+// Moves the asset's price to the middle of whatever liquidity is left at the top of the
+// book, or to the last traded price when an order swept a whole side.
+function repriceFromBook(market, symbol, lastTradeUsd, volume) {
+  const levelBook = market.orderBook[symbol];
+  const bestBid = levelBook.bids.find((l) => l.size > QUANTITY_EPSILON);
+  const bestAsk = levelBook.asks.find((l) => l.size > QUANTITY_EPSILON);
+  const mid = bestBid && bestAsk ? (bestBid.price + bestAsk.price) / 2 : lastTradeUsd;
+  // USD is the unit every price is measured in: trading it never moves it.
+  market.prices[symbol] = symbol === 'USD' ? 1 : roundPrice(Math.max(0.0001, mid));
+  updateCandles(market, symbol, market.prices[symbol], volume);
+}
+
+// Own resting limit orders are merged into the depth the client renders; the
+// synthetic liquidity never trades against them. `symbols` narrows it to a subscription.
+function orderBookView(session, market, symbols = null) {
+  const view = {};
+  Object.entries(market.orderBook).forEach(([symbol, levelBook]) => {
+    if (symbols && !symbols.includes(symbol)) return;
+    const bids = levelBook.bids.filter((l) => l.size > QUANTITY_EPSILON);
+    const asks = levelBook.asks.filter((l) => l.size > QUANTITY_EPSILON);
+    session.orders.forEach((order) => {
+      if (order.base !== symbol || order.limitPrice === undefined) return;
+      if (order.type === 'stop_limit' && !order.triggered) return;
+      const level = {
+        price: roundPrice(order.limitPrice * (market.prices[order.quote] || 1)),
+        size: roundPrice(order.size),
+        own: true,
+      };
+      (order.side === 'buy' ? bids : asks).push(level);
+    });
+    view[symbol] = {
+      bids: mergeBookLevels(bids).sort((a, b) => b.price - a.price),
+      asks: mergeBookLevels(asks).sort((a, b) => a.price - b.price),
+    };
+  });
+  return view;
+}
+
+// One level per price and owner, which is also how book deltas identify a level.
+function mergeBookLevels(levels) {
+  const merged = new Map();
+  levels.forEach((level) => {
+    const key = bookLevelKey(level);
+    const existing = merged.get(key);
+    // Copies: the market's own levels change in place as orders fill.
+    merged.set(key, existing ? { ...existing, size: roundPrice(existing.size + level.size) } : { ...level });
+  });
+  return Array.from(merged.values());
+}
+
+function bookLevelKey(level) {
+  return `${level.price}:${level.own ? 'own' : ''}`;
+}
+
+function applyDifficultyDrift(price, difficulty, bias = 0, random = Math.random) {
+  const roll = random();
+  if (difficulty === 'Easy') {
+    const step = (random() * 0.004 + 0.001 + bias) * price;
+    return price + step;
+  }
+  if (difficulty === 'Medium') {
+    const direction = roll > 0.55 ? 1 : -1;
+    const magnitude = (random() * 0.006 + 0.002 + Math.abs(bias)) * price;
+    return price + direction * magnitude;
+  }
+  if (difficulty === 'Hard') {
+    const direction = roll > 0.35 ? -1 : 1; // bias to hurt the player
+    const magnitude = (random() * 0.008 + 0.003 + Math.abs(bias)) * price;
+    return price + direction * magnitude;
+  }
+  return price;
+}
+
+// Clamped progress of t through the [start, end] slice of a pattern.
+function segment(t, start, end) {
+  return Math.min(1, Math.max(0, (t - start) / (end - start)));
+}
+
+// Each pattern is a price curve over its lifetime t in [0, 1], relative to the price it
+// started at (shape(0) is 1), split into named phases ending at the given fractions.
+// `dir` is +1 or -1 for patterns that can resolve either way; `a` is the amplitude.
+const chartPatterns = {
+  falling_wedge: {
+    phases: [['formation', 0.8], ['breakout', 1]],
+    expected: () => 'breakout_up',
+    shape: (t, dir, a) => {
+      const u = segment(t, 0, 0.8);
+      const wedge = -0.8 * a * u + 0.5 * a * (1 - 0.8 * u) * Math.sin(u * 6 * Math.PI);
+      return 1 + wedge + 1.5 * a * segment(t, 0.8, 1);
+    },
+  },
+  rising_wedge: {
+    phases: [['formation', 0.8], ['breakout', 1]],
+    expected: () => 'breakout_down',
+    shape: (t, dir, a) => 2 - chartPatterns.falling_wedge.shape(t, dir, a),
+  },
+  breakout: {
+    phases: [['range', 0.65], ['breakout', 1]],
+    expected: (dir) => (dir > 0 ? 'breakout_up' : 'breakout_down'),
+    shape: (t, dir, a) => 1 + 0.3 * a * Math.sin(segment(t, 0, 0.65) * 6 * Math.PI) + dir * 1.5 * a * segment(t, 0.65, 1),
+  },
+  fake_breakout: {
+    phases: [['range', 0.55], ['breakout', 0.7], ['reversal', 1]],
+    expected: (dir) => (dir > 0 ? 'reversal_down' : 'reversal_up'),
+    shape: (t, dir, a) =>
+      1 +
+      0.3 * a * Math.sin(segment(t, 0, 0.55) * 6 * Math.PI) +
+      dir * 0.9 * a * segment(t, 0.55, 0.7) -
+      dir * 2 * a * segment(t, 0.7, 1),
+  },
+  pump: {
+    phases: [['accumulation', 0.4], ['pump', 0.65], ['dump', 1]],
+    expected: () => 'reversal_down',
+    shape: (t, dir, a) =>
+      1 +
+      0.2 * a * segment(t, 0, 0.4) +
+      0.1 * a * Math.sin(segment(t, 0, 0.4) * 4 * Math.PI) +
+      2.5 * a * segment(t, 0.4, 0.65) -
+      2 * a * segment(t, 0.65, 1),
+  },
+  capitulation: {
+    phases: [['bleed', 0.6], ['capitulation', 0.75], ['relief', 1]],
+    expected: () => 'reversal_up',
+    shape: (t, dir, a) =>
+      1 -
+      a * segment(t, 0, 0.6) +
+      0.15 * a * Math.sin(segment(t, 0, 0.6) * 4 * Math.PI) -
+      2.5 * a * segment(t, 0.6, 0.75) +
+      1.2 * a * segment(t, 0.75, 1),
+  },
+  range: {
+    phases: [['range', 1]],
+    expected: () => 'none',
+    shape: (t, dir, a) => 1 + 0.4 * a * Math.sin(t * 8 * Math.PI),
+  },
+};
+
+function patternPhase(pattern) {
+  const t = pattern.tick / pattern.duration;
+  return chartPatterns[pattern.name].phases.find(([, end]) => t <= end)[0];
+}
+
+// `crowd` is the players' net side on the asset (+1 long, -1 short, 0 flat). Hard
+// aims its fake breakouts the way the crowd leans, so the reversal runs them over.
+function startPattern(profile, difficulty, crowd, random) {
+  const name = profile.pool[Math.floor(random() * profile.pool.length)];
+  const [minTicks, maxTicks] = profile.ticks;
+  const randomDir = random() > 0.5 ? 1 : -1;
+  const direction = difficulty === 'Hard' && name === 'fake_breakout' && crowd ? crowd : randomDir;
+  const pattern = {
+    name,
+    direction,
+    amplitude: profile.amplitude * (0.75 + random() * 0.5),
+    tick: 0,
+    duration: minTicks + Math.floor(random() * (maxTicks - minTicks + 1)),
+    expected: chartPatterns[name].expected(direction),
+  };
+  pattern.phase = patternPhase(pattern);
+  return pattern;
+}
+
+// Advances the asset's scripted pattern by one tick, starting one now and then when idle.
+// Returns the price ratio the pattern asks for this tick, or null when nothing is running.
+// Moving by ratio rather than to an absolute level keeps the impact of trades on the book.
+function stepPattern(market, asset, difficulty, crowd) {
+  const profile = patternProfiles[difficulty];
+  if (!profile || !patternAssets.includes(asset)) return null;
+  const random = marketRandom(market);
+  market.patterns = market.patterns || {};
+  if (!market.patterns[asset]) {
+    if (random() > profile.chance) return null;
+    market.patterns[asset] = startPattern(profile, difficulty, crowd, random);
+  }
+  const pattern = market.patterns[asset];
+  const { shape } = chartPatterns[pattern.name];
+  const before = shape(pattern.tick / pattern.duration, pattern.direction, pattern.amplitude);
+  pattern.tick += 1;
+  const after = shape(pattern.tick / pattern.duration, pattern.direction, pattern.amplitude);
+  pattern.phase = patternPhase(pattern);
+  if (pattern.tick >= pattern.duration) delete market.patterns[asset];
+  const noise = (random() - 0.5) * pattern.amplitude * 0.15;
+  return (after / before) * (1 + noise);
+}
+
+// What players get to see of the running patterns; Hard rooms can hide them entirely.
+function patternView(room) {
+  if (room.hideHints && room.difficulty === 'Hard') return null;
+  const view = {};
+  Object.entries(room.market?.patterns || {}).forEach(([asset, pattern]) => {
+    view[asset] = {
+      name: pattern.name,
+      phase: pattern.phase,
+      expected: pattern.expected,
+      remainingTicks: pattern.duration - pattern.tick,
+    };
+  });
+  return view;
+}
+
+// Replayed assets live on the replay clock so trades land in the recorded candle in progress,
+// a shared feed market on its own clock, and the others on the game clock.
+function marketTime(market, symbol) {
+  if (market.replayAssets?.includes(symbol)) return market.replayClock;
+  return market.feedMarket ? feedMarkets.get(market.feedMarket).clock : market.clock;
+}
+
+// Folds a price (and the volume traded at it) into the current candle of every timeframe.
+function updateCandles(market, symbol, newPrice, volume = 0) {
+  const time = marketTime(market, symbol);
+  Object.entries(candleTimeframes).forEach(([timeframe, ms]) => {
+    const candleList = market.candles[timeframe][symbol] || [];
+    const bucket = Math.floor(time / ms) * ms;
+    const last = candleList[candleList.length - 1];
+    if (!last || bucket > last.time) {
+      candleList.push({
+        time: bucket,
+        open: newPrice,
+        high: newPrice,
+        low: newPrice,
+        close: newPrice,
+        volume,
+      });
+    } else {
+      last.close = newPrice;
+      last.high = Math.max(last.high, newPrice);
+      last.low = Math.min(last.low, newPrice);
+      last.volume = roundPrice(last.volume + volume);
+    }
+    if (candleList.length > candleHistoryLimits[timeframe]) candleList.shift();
+    market.candles[timeframe][symbol] = candleList;
+  });
+}
+
+// Flow from traders outside the game: a baseline in the order of one book level per
+// tick, heavier when the price moves a lot.
+function syntheticVolume(previous, next, random = Math.random) {
+  const move = Math.abs(next / previous - 1);
+  return (BOOK_LEVEL_NOTIONAL_USD / next) * (0.3 + random() * 0.7) * (1 + 40 * move);
+}
+
+// Latest candle of every asset on every timeframe, which is all a tick changes.
+function lastCandles(market) {
+  const view = {};
+  Object.keys(candleTimeframes).forEach((timeframe) => {
+    view[timeframe] = {};
+    Object.entries(market.candles[timeframe]).forEach(([symbol, candleList]) => {
+      view[timeframe][symbol] = candleList[candleList.length - 1];
+    });
+  });
+  return view;
+}
+
+function candlePage(market, payload) {
+  const timeframe = candleTimeframes[payload?.timeframe] ? payload.timeframe : '1m';
+  const candleList = market.candles[timeframe][payload?.symbol];
+  if (!candleList) return fail('UNKNOWN_SYMBOL');
+  const from = Number(payload?.from) || 0;
+  const to = Number(payload?.to) || Infinity;
+  const limit = Math.min(CANDLE_PAGE_LIMIT, Math.max(1, Number(payload?.limit) || 300));
+  const candles = candleList.filter((c) => c.time >= from && c.time < to).slice(-limit);
+  return { symbol: payload.symbol, timeframe, candles };
+}
+
+function pairPriceFor(prices, base, quote = 'USD') {
+  const baseUsd = prices[base];
+  const quoteUsd = prices[quote];
+  if (!baseUsd || !quoteUsd) return null;
+  return baseUsd / quoteUsd;
+}
+
+function accountName(account) {
+  return account.playerName || account.name;
+}
+
+function positionPnl(pos, px, quantity = pos.quantity) {
+  // Quantity is the full position size, so leverage only changes the margin, never the PnL.
+  return pos.side === 'long' ? (px - pos.entryPrice) * quantity : (pos.entryPrice - px) * quantity;
+}
+
+function maintenanceRate(notionalUsd) {
+  return maintenanceTiers.find((tier) => notionalUsd <= tier.upTo).rate;
+}
+
+// Mark-price figures of one position, in USD.
+function positionRisk(pos, prices) {
+  const quote = pos.quote || 'USD';
+  const px = pairPriceFor(prices, pos.symbol, quote) || pos.entryPrice;
+  const fx = convertCurrency(1, quote, 'USD', prices);
+  const notional = px * pos.quantity * fx;
+  const mmr = maintenanceRate(notional);
+  return { fx, mmr, notional, maintenance: notional * mmr, margin: pos.margin * fx, pnl: positionPnl(pos, px) * fx };
+}
+
+// Cross positions share the derivatives wallet: their equity is its balances plus their own margins
+// and PnL, and it has to cover all of their maintenance at once.
+function crossAccount(account, prices) {
+  const risks = account.positions
+    .filter((pos) => pos.marginMode === 'cross')
+    .map((pos) => ({ position: pos, ...positionRisk(pos, prices) }));
+  const wallet = Object.entries(account.derivatives).reduce(
+    (acc, [currency, amount]) => acc + convertCurrency(amount, currency, 'USD', prices),
+    0
+  );
+  return {
+    risks,
+    equity: risks.reduce((acc, risk) => acc + risk.margin + risk.pnl, wallet),
+    maintenance: risks.reduce((acc, risk) => acc + risk.maintenance, 0),
+  };
+}
+
+// Price at which the position's equity meets its maintenance margin, holding everything
+// else (the other cross positions, the wallet) where it is now. Null when it cannot happen.
+function liquidationPrice(pos, risk, cross) {
+  const size = pos.quantity * risk.fx;
+  const isCross = pos.marginMode === 'cross';
+  const backing = isCross ? cross.equity - risk.pnl : risk.margin;
+  const otherMaintenance = isCross ? cross.maintenance - risk.maintenance : 0;
+  const price =
+    pos.side === 'long'
+      ? (otherMaintenance - backing + pos.entryPrice * size) / (size * (1 - risk.mmr))
+      : (backing - otherMaintenance + pos.entryPrice * size) / (size * (1 + risk.mmr));
+  return price > 0 ? roundPrice(price) : null;
+}
+
+// Closes a position at the mark. Isolated positions only ever lose their own margin; cross
+// positions settle against the wallet. The liquidation fee goes to the insurance fund,
+// which also absorbs whatever the account cannot cover.
+function liquidatePosition(account, market, pos) {
+  const { prices } = market;
+  const quote = pos.quote || 'USD';
+  const px = pairPriceFor(prices, pos.symbol, quote) || pos.entryPrice;
+  const pnl = positionPnl(pos, px);
+  const fee = px * pos.quantity * LIQUIDATION_FEE_RATE;
+  const equity = pos.margin + pnl;
+  const before = account.derivatives[quote] || 0;
+  let settled;
+  let shortfall;
+  let feePaid;
+  if (pos.marginMode === 'cross') {
+    settled = before + equity - fee;
+    shortfall = Math.max(0, -settled);
+    feePaid = fee;
+  } else {
+    settled = before + Math.max(0, equity - fee);
+    shortfall = Math.max(0, -equity);
+    feePaid = Math.min(fee, Math.max(0, equity));
+  }
+  account.derivatives[quote] = roundBalance(Math.max(0, settled));
+  const realized = account.derivatives[quote] - before - pos.margin;
+  account.realizedPnl = roundBalance(account.realizedPnl + convertCurrency(realized, quote, 'USD', prices));
+  recordOutcome(account, convertCurrency(realized, quote, 'USD', prices));
+  market.insuranceFund = roundBalance((market.insuranceFund || 0) + convertCurrency(feePaid - shortfall, quote, 'USD', prices));
+  recordEntry(account, {
+    type: 'liquidation',
+    symbol: pos.symbol,
+    quote,
+    side: pos.side,
+    quantity: roundPrice(pos.quantity),
+    price: roundPrice(px),
+    amount: roundBalance(realized),
+    currency: quote,
+    detail: `${pos.marginMode || 'isolated'} x${pos.leverage}, fee ${roundBalance(feePaid)}`,
+  });
+  // Bots have no socket or stream, so this only ever reaches players.
+  emitToMember(account, 'liquidated', {
+    positionId: pos.id,
+    symbol: pos.symbol,
+    quote,
+    side: pos.side,
+    marginMode: pos.marginMode || 'isolated',
+    leverage: pos.leverage,
+    quantity: roundPrice(pos.quantity),
+    entryPrice: pos.entryPrice,
+    price: roundPrice(px),
+    realizedPnl: roundBalance(realized),
+    fee: roundBalance(feePaid),
+    currency: quote,
+    at: market.clock,
+  });
+  pos.margin = 0;
+  pos.quantity = 0;
+  pos.liquidated = true;
+  account.liquidations += 1;
+  market.events?.push({ type: 'liquidation', name: accountName(account), symbol: pos.symbol, side: pos.side, leverage: pos.leverage });
+}
+
+// Brings an account's marks to the current prices (liquidation prices, margin ratios and
+// unrealized PnL) without liquidating anything: what a read of the account needs.
+function refreshMarks(account, market) {
+  const { prices } = market;
+  const cross = crossAccount(account, prices);
+  account.positions.forEach((pos) => {
+    const risk = positionRisk(pos, prices);
+    const isCross = pos.marginMode === 'cross';
+    const equity = isCross ? cross.equity : risk.margin + risk.pnl;
+    const maintenance = isCross ? cross.maintenance : risk.maintenance;
+    pos.liquidationPrice = liquidationPrice(pos, risk, cross);
+    // Binance-style margin ratio: maintenance over equity, liquidated at 100%.
+    pos.marginRatio = equity > 0 ? roundBalance((maintenance / equity) * 100) : 100;
+  });
+  account.unrealizedPnl = roundBalance(
+    account.positions.reduce((acc, pos) => acc + positionRisk(pos, prices).pnl, 0)
+  );
+}
+
+// Refreshes the marks and liquidates what they condemn. Only the tick and the recorded actions
+// run it, so that a replay meets every liquidation at the same point.
+function markToMarket(account, market) {
+  refreshMarks(account, market);
+  account.positions
+    .filter((pos) => pos.marginMode !== 'cross' && pos.marginRatio >= 100)
+    .forEach((pos) => liquidatePosition(account, market, pos));
+  // Weighed after the isolated liquidations, whose leftover margin goes back to the wallet the
+  // cross positions draw on. A cross breach takes every cross position down together.
+  const cross = crossAccount(account, market.prices);
+  if (cross.risks.length && cross.equity <= cross.maintenance) {
+    cross.risks.forEach(({ position }) => liquidatePosition(account, market, position));
+  }
+  account.positions = account.positions.filter((p) => p.quantity > 0 && !p.liquidated);
+  account.unrealizedPnl = roundBalance(
+    account.positions.reduce((acc, pos) => acc + positionRisk(pos, market.prices).pnl, 0)
+  );
+  // Take-profit / stop-loss orders die with the position they protect.
+  account.orders = account.orders.filter(
+    (o) => !o.positionId || account.positions.some((p) => p.id === o.positionId)
+  );
+}
+
+// Funding rate per asset from the open interest of every account in the room: when longs
+// dominate the rate rises and longs pay shorts, and the other way round.
+function fundingRates(accounts, market) {
+  const interest = {};
+  accounts.forEach((account) => {
+    account.positions.forEach((pos) => {
+      interest[pos.symbol] = interest[pos.symbol] || { long: 0, short: 0 };
+      interest[pos.symbol][pos.side] += positionRisk(pos, market.prices).notional;
+    });
+  });
+  const rates = {};
+  patternAssets.forEach((asset) => {
+    const { long = 0, short = 0 } = interest[asset] || {};
+    const imbalance = long + short > 0 ? (long - short) / (long + short) : 0;
+    const rate = FUNDING_BASE_RATE + FUNDING_IMBALANCE_RATE * imbalance;
+    rates[asset] = Math.min(FUNDING_RATE_CAP, Math.max(-FUNDING_RATE_CAP, rate));
+  });
+  return rates;
+}
+
+// Pays funding on every leveraged position: isolated positions pay from (or receive into)
+// their margin, cross positions from the wallet. Spot-sized positions (x1) are not perpetuals.
+function settleFunding(accounts, market) {
+  const { rates } = market.funding;
+  accounts.forEach((account) => {
+    account.positions.forEach((pos) => {
+      const rate = rates[pos.symbol];
+      if (!rate || pos.leverage <= 1) return;
+      const quote = pos.quote || 'USD';
+      const px = pairPriceFor(market.prices, pos.symbol, quote) || pos.entryPrice;
+      const due = px * pos.quantity * rate * (pos.side === 'long' ? 1 : -1);
+      // A drained margin or wallet pays what it holds, and only that is booked.
+      const isCross = pos.marginMode === 'cross';
+      const available = isCross ? account.derivatives[quote] || 0 : pos.margin;
+      const payment = Math.min(due, available);
+      if (isCross) {
+        account.derivatives[quote] = roundBalance(available - payment);
+      } else {
+        pos.margin = available - payment;
+      }
+      pos.fundingPaid = roundBalance((pos.fundingPaid || 0) + payment);
+      recordEntry(account, {
+        type: 'funding',
+        symbol: pos.symbol,
+        quote,
+        side: pos.side,
+        amount: -roundBalance(payment),
+        currency: quote,
+        detail: `rate ${rate}`,
+      });
+      account.realizedPnl = roundBalance(account.realizedPnl - convertCurrency(payment, quote, 'USD', market.prices));
+    });
+  });
+}
+
+function convertCurrency(amount, from, to, prices) {
+  if (from === to) return amount;
+  const fromUsd = amount * (prices[from] || initialSeedPrices[from] || 1);
+  const toUsd = prices[to] || initialSeedPrices[to] || 1;
+  return fromUsd / toUsd;
+}
+
+// Appends to a player's ledger. Amounts are the signed change to the account in `currency`;
+// fills carry price and quantity instead. Bots trade through the same code but keep no ledger.
+function recordEntry(account, entry) {
+  if (!account.ledger) return;
+  const room = roomFor(account);
+  account.ledger.push({
+    id: account.ledger.length + 1,
+    // Stamped on the game clock, like everything else a saved game plays again.
+    at: room?.market?.clock ?? Date.now(),
+    round: room?.round?.number ?? null,
+    ...entry,
+  });
+}
+
+function recordOutcome(account, pnlUsd) {
+  const { outcomes } = account;
+  if (pnlUsd > 0) {
+    outcomes.wins += 1;
+    outcomes.grossWin += pnlUsd;
+  } else if (pnlUsd < 0) {
+    outcomes.losses += 1;
+    outcomes.grossLoss -= pnlUsd;
+  }
+}
+
+function filterLedger(session, filters = {}) {
+  const from = Number(filters.from) || 0;
+  const to = Number(filters.to) || Infinity;
+  return session.ledger.filter(
+    (entry) =>
+      (!filters.symbol || entry.symbol === filters.symbol) &&
+      (!ledgerEntryTypes.includes(filters.type) || entry.type === filters.type) &&
+      entry.at >= from &&
+      entry.at < to
+  );
+}
+
+function ledgerPage(session, filters = {}) {
+  const entries = filterLedger(session, filters);
+  const limit = Math.min(HISTORY_PAGE_LIMIT, Math.max(1, Number(filters.limit) || HISTORY_PAGE_LIMIT));
+  // Newest first, like the status line the entries used to vanish from.
+  return { total: entries.length, entries: entries.slice(-limit).reverse() };
+}
+
+function csvCell(value) {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function ledgerCsv(entries) {
+  const rows = entries.map((entry) =>
+    ledgerColumns
+      .map((column) => csvCell(column === 'time' ? new Date(entry.at).toISOString() : entry[column]))
+      .join(',')
+  );
+  return [ledgerColumns.join(','), ...rows].join('\n');
+}
+
+function reducePosition(account, market, position, quantity, pairPrice) {
+  const { prices } = market;
+  const quote = position.quote || 'USD';
+  const closedQty = Math.min(quantity, position.quantity);
+  const share = closedQty / position.quantity;
+  const pnl = positionPnl(position, pairPrice, closedQty);
+  const releasedMargin = position.margin * share;
+  account.derivatives[quote] = roundBalance(Math.max(0, (account.derivatives[quote] || 0) + releasedMargin + pnl));
+  account.realizedPnl = roundBalance(account.realizedPnl + convertCurrency(pnl, quote, 'USD', prices));
+  recordOutcome(account, convertCurrency(pnl, quote, 'USD', prices));
+  position.quantity -= closedQty;
+  position.margin -= releasedMargin;
+  recordEntry(account, {
+    type: 'close',
+    symbol: position.symbol,
+    quote,
+    side: position.side,
+    quantity: roundPrice(closedQty),
+    price: roundPrice(pairPrice),
+    amount: roundBalance(pnl),
+    currency: quote,
+    detail: position.quantity <= QUANTITY_EPSILON ? 'closed' : 'reduced',
+  });
+  if (position.quantity <= QUANTITY_EPSILON) {
+    account.positions = account.positions.filter((p) => p !== position);
+  }
+  return { closedQuantity: closedQty, realizedPnl: roundBalance(pnl) };
+}
+
+function openPosition(account, market, order, pairPrice) {
+  const { base, quote, side, size } = order;
+  const leverage = Math.min(MAX_LEVERAGE, Math.max(1, Number(order.leverage) || 1));
+  const marginMode = marginModes.includes(order.marginMode) ? order.marginMode : 'isolated';
+  // Margin comes out of the derivatives wallet in the quote currency: no implicit conversion.
+  const margin = (size * pairPrice) / leverage;
+  const availableQuote = account.derivatives[quote] || 0;
+  if (availableQuote < margin) {
+    return fail('INSUFFICIENT_MARGIN');
+  }
+  account.derivatives[quote] = roundBalance(availableQuote - margin);
+
+  const positionSide = side === 'buy' ? 'long' : 'short';
+  const existing = positionFilledBy(account, order);
+  if (existing) {
+    const totalQty = existing.quantity + size;
+    existing.entryPrice = roundPrice((existing.entryPrice * existing.quantity + pairPrice * size) / totalQty);
+    existing.quantity = totalQty;
+    existing.margin += margin;
+    // The merged position's leverage is whatever its notional over its pooled margin works out to.
+    existing.leverage = roundBalance((existing.entryPrice * totalQty) / existing.margin);
+  } else {
+    account.positions.push({
+      id: nextId(market, 'pos'),
+      symbol: base,
+      quote,
+      side: positionSide,
+      entryPrice: roundPrice(pairPrice),
+      quantity: size,
+      leverage,
+      margin,
+      marginMode,
+      fundingPaid: 0,
+    });
+  }
+  return {};
+}
+
+// Applies an execution to the account. Orders net against an opposite position on the
+// same pair first: they reduce it, close it, and any remainder flips it into a new
+// position (unless reduce-only).
+function applyFill(account, market, order, opposite, size, pairPrice) {
+  const result = { closedQuantity: 0, realizedPnl: 0, flipped: false };
+  let remaining = size;
+  if (opposite) {
+    const closed = reducePosition(account, market, opposite, Math.min(remaining, opposite.quantity), pairPrice);
+    result.closedQuantity = closed.closedQuantity;
+    result.realizedPnl = closed.realizedPnl;
+    remaining -= closed.closedQuantity;
+  }
+  if (order.reduceOnly || remaining <= QUANTITY_EPSILON) {
+    return result;
+  }
+
+  const opened = openPosition(account, market, { ...order, size: remaining }, pairPrice);
+  if (opened.error) {
+    return opposite ? { ...result, ...fail('FLIP_REJECTED', { cause: opened.code }) } : opened;
+  }
+  return { ...result, flipped: Boolean(opposite) };
+}
+
+// Spot fills swap balances in the spot wallet: buying pays the quote and credits the base,
+// selling needs the base and credits the quote. A buy must also leave the fee it will be charged.
+function applySpotFill(account, order, size, pairPrice, rate) {
+  const { base, quote, side } = order;
+  const cost = size * pairPrice;
+  const { holdings } = account;
+  if (side === 'buy' ? (holdings[quote] || 0) < cost * (1 + rate) : (holdings[base] || 0) < size - QUANTITY_EPSILON) {
+    return fail('INSUFFICIENT_BALANCE_SPOT');
+  }
+  const sign = side === 'buy' ? 1 : -1;
+  holdings[base] = roundHolding(base, Math.max(0, (holdings[base] || 0) + sign * size));
+  holdings[quote] = roundHolding(quote, Math.max(0, (holdings[quote] || 0) - sign * cost));
+  return {};
+}
+
+// Leverage-1 orders trade spot unless they ask for the derivatives wallet; anything
+// leveraged, reduce-only or aimed at a position is a derivatives order.
+function orderWallet(order) {
+  if (order.positionId || order.reduceOnly || Number(order.leverage) > 1) return 'derivatives';
+  return wallets.includes(order.wallet) ? order.wallet : 'spot';
+}
+
+function walletFor(account, wallet) {
+  return wallet === 'spot' ? account.holdings : account.derivatives;
+}
+
+// Conversions inside the spot wallet pay half the room's spread on the mid rate.
+function convertQuote(market, from, to, amount) {
+  const rate = convertCurrency(1, from, to, market.prices) * (1 - market.fees.spread / 2);
+  return { from, to, amount, rate, received: roundHolding(to, amount * rate) };
+}
+
+function convertHoldings(account, market, { from, to, amount, preview }) {
+  if (from === to) return fail('SAME_CURRENCY');
+  const quote = convertQuote(market, from, to, amount);
+  if (preview) return { ...quote, preview: true };
+  if ((account.holdings[from] || 0) < amount) return fail('INSUFFICIENT_BALANCE');
+  account.holdings[from] = roundHolding(from, account.holdings[from] - amount);
+  account.holdings[to] = roundHolding(to, (account.holdings[to] || 0) + quote.received);
+  recordEntry(account, { type: 'conversion', amount: -amount, currency: from, detail: `${quote.received} ${to}` });
+  recordEntry(account, { type: 'conversion', amount: quote.received, currency: to, detail: `${amount} ${from}` });
+  return quote;
+}
+
+// Moves a balance between spot and derivatives. Leaving derivatives is capped so that cross
+// positions keep covering their maintenance with what stays behind.
+function transferFunds(account, market, { currency, amount, to }) {
+  const source = to === 'spot' ? account.derivatives : account.holdings;
+  const target = walletFor(account, to);
+  if ((source[currency] || 0) < amount) return fail('INSUFFICIENT_BALANCE');
+  if (to === 'spot') {
+    const cross = crossAccount(account, market.prices);
+    if (cross.risks.length && cross.equity - convertCurrency(amount, currency, 'USD', market.prices) <= cross.maintenance) {
+      return fail('TRANSFER_WOULD_LIQUIDATE');
+    }
+  }
+  source[currency] = roundHolding(currency, source[currency] - amount);
+  target[currency] = roundHolding(currency, (target[currency] || 0) + amount);
+  recordEntry(account, { type: 'transfer', amount: to === 'spot' ? amount : -amount, currency, detail: `to ${to}` });
+  markToMarket(account, market);
+  return { currency, amount, to, spot: account.holdings[currency] || 0, derivatives: account.derivatives[currency] || 0 };
+}
+
+// Ten USD for a player left with nothing, once per game.
+function claimFaucet(account) {
+  if (account.faucetClaimed || (account.holdings.USD || 0) + (account.derivatives.USD || 0) > 0) {
+    return fail('FAUCET_UNAVAILABLE');
+  }
+  account.holdings.USD = 10;
+  account.faucetClaimed = true;
+  recordEntry(account, { type: 'faucet', amount: 10, currency: 'USD' });
+  return { claimed: true };
+}
+
+// Rate for one fill: the account's volume tier picks the row, the order's liquidity the column.
+function feeRate(account, fees, liquidity) {
+  const tier = fees.tiers.filter((t) => (account.volumeUsd || 0) >= t.minVolumeUsd).pop() || fees.tiers[0];
+  return tier[liquidity];
+}
+
+function chargeFee(account, market, base, quote, notionalInQuote, liquidity, wallet) {
+  const rate = feeRate(account, market.fees, liquidity);
+  const balances = walletFor(account, wallet);
+  // A wallet left short of the fee pays what it holds, and only that is booked as paid.
+  const fee = Math.min(notionalInQuote * rate, balances[quote] || 0);
+  balances[quote] = roundHolding(quote, (balances[quote] || 0) - fee);
+  account.fees = roundBalance((account.fees || 0) + convertCurrency(fee, quote, 'USD', market.prices));
+  recordEntry(account, { type: 'fee', symbol: base, quote, amount: -roundBalance(fee), currency: quote, detail: `${liquidity} ${rate}` });
+  return { fee: roundBalance(fee), feeRate: rate, liquidity };
+}
+
+// Market orders walk the book level by level; limit orders only take levels up to
+// their limit. Whatever the book cannot absorb is reported back as unfilled.
+function handleOrder(account, market, order) {
+  const { base, quote, side, reduceOnly = false } = order;
+  const { prices, orderBook } = market;
+  const quoteUsd = prices[quote];
+  if (!pairPriceFor(prices, base, quote)) {
+    return fail('PAIR_NOT_SUPPORTED');
+  }
+  const halted = [base, quote].find((asset) => isHalted(market, asset));
+  if (halted) {
+    return fail('MARKET_HALTED', { asset: halted });
+  }
+  const wallet = orderWallet(order);
+  const positionSide = side === 'buy' ? 'long' : 'short';
+  // Orders aimed at a position (close, reduce, TP/SL) net against that one; others against the first opposite.
+  const opposite =
+    wallet === 'derivatives' &&
+    account.positions.find(
+      (p) =>
+        (order.positionId ? p.id === order.positionId : true) &&
+        p.symbol === base &&
+        (p.quote || 'USD') === quote &&
+        p.side !== positionSide
+    );
+  if (reduceOnly && !opposite) {
+    return fail('NO_POSITION_TO_REDUCE');
+  }
+
+  const size = reduceOnly ? Math.min(order.size, opposite.quantity) : order.size;
+  const isLimit = order.type === 'limit' || order.type === 'stop_limit';
+  const execution = walkBook(orderBook[base], side, size, isLimit ? order.limitPrice * quoteUsd : undefined);
+  if (execution.filled <= QUANTITY_EPSILON) {
+    return fail('NO_LIQUIDITY', { filledSize: 0, unfilledSize: size });
+  }
+
+  const pairPrice = execution.averageUsd / quoteUsd;
+  const liquidity = order.liquidity === 'maker' ? 'maker' : 'taker';
+  const applied =
+    wallet === 'spot'
+      ? applySpotFill(account, order, execution.filled, pairPrice, feeRate(account, market.fees, liquidity))
+      : applyFill(account, market, order, opposite, execution.filled, pairPrice);
+  if (applied.error && !applied.closedQuantity) {
+    return applied;
+  }
+  const executed = applied.error ? applied.closedQuantity : execution.filled;
+  let accounted = 0;
+  const executedFills = execution.fills
+    .map((fill) => {
+      const take = Math.min(fill.size, executed - accounted);
+      accounted += take;
+      return { price: fill.price, size: take };
+    })
+    .filter((fill) => fill.size > 0);
+  consumeBook(orderBook[base], side, executed);
+  account.trades += 1;
+  const notionalUsd = executed * execution.averageUsd;
+  recordEntry(account, {
+    type: 'fill',
+    symbol: base,
+    quote,
+    side,
+    quantity: roundPrice(executed),
+    price: roundPrice(pairPrice),
+    currency: quote,
+    detail: `${wallet} ${order.type || 'market'}`,
+  });
+  // Fees are taken after the fill so they never eat into the margin the position was opened with.
+  const charged = chargeFee(account, market, base, quote, executed * pairPrice, liquidity, wallet);
+  account.volumeUsd = roundBalance((account.volumeUsd || 0) + notionalUsd);
+  // What crossing the book cost against the mid, before the fill moves it.
+  const spreadCost = (Math.abs(execution.averageUsd - prices[base]) * executed) / quoteUsd;
+  if (notionalUsd >= BIG_TRADE_USD) {
+    market.events?.push({ type: 'big_trade', name: accountName(account), symbol: base, side, size: roundPrice(executed), notionalUsd: roundBalance(notionalUsd) });
+  }
+  repriceFromBook(market, base, executedFills[executedFills.length - 1].price, executed);
+
+  const fills = executedFills.map((fill) => ({ price: roundPrice(fill.price / quoteUsd), size: roundPrice(fill.size) }));
+  return {
+    ...applied,
+    ...charged,
+    wallet,
+    spreadCost: roundBalance(spreadCost),
+    averagePrice: roundPrice(pairPrice),
+    fills,
+    filledSize: roundPrice(executed),
+    unfilledSize: roundPrice(Math.max(0, order.size - executed)),
+  };
+}
+
+function closePosition(account, market, positionId, fraction = 1) {
+  const position = account.positions.find((p) => p.id === positionId);
+  if (!position) {
+    return fail('POSITION_NOT_FOUND');
+  }
+  const share = Math.min(1, Math.max(0, Number(fraction) || 0));
+  if (!share) {
+    return fail('INVALID_CLOSE_FRACTION');
+  }
+  return handleOrder(account, market, {
+    base: position.symbol,
+    quote: position.quote || 'USD',
+    side: position.side === 'long' ? 'sell' : 'buy',
+    size: share === 1 ? position.quantity : position.quantity * share,
+    reduceOnly: true,
+    positionId,
+  });
+}
+
+function reducePositionBy(account, market, positionId, quantity) {
+  const position = account.positions.find((p) => p.id === positionId);
+  if (!position) {
+    return fail('POSITION_NOT_FOUND');
+  }
+  if (!(quantity > 0)) {
+    return fail('INVALID_REDUCE_QUANTITY');
+  }
+  return handleOrder(account, market, {
+    base: position.symbol,
+    quote: position.quote || 'USD',
+    side: position.side === 'long' ? 'sell' : 'buy',
+    size: quantity,
+    leverage: position.leverage,
+    marginMode: position.marginMode,
+    positionId,
+  });
+}
+
+// Moves margin between the wallet and an isolated position, which changes its effective
+// leverage and liquidation price. Removing is capped so the position stays within
+// MAX_LEVERAGE and comfortably above its maintenance margin.
+function adjustMargin(account, market, positionId, amount) {
+  const position = account.positions.find((p) => p.id === positionId);
+  if (!position) {
+    return fail('POSITION_NOT_FOUND');
+  }
+  if (position.marginMode === 'cross') {
+    return fail('CROSS_MARGIN_FIXED');
+  }
+  const delta = Number(amount);
+  if (!delta) {
+    return fail('INVALID_MARGIN_AMOUNT');
+  }
+  const quote = position.quote || 'USD';
+  const remaining = position.margin + delta;
+  if (delta > 0 && (account.derivatives[quote] || 0) < delta) {
+    return fail('INSUFFICIENT_BALANCE');
+  }
+  if (delta < 0) {
+    const risk = positionRisk(position, market.prices);
+    const notional = position.entryPrice * position.quantity;
+    if (remaining <= 0 || notional / remaining > MAX_LEVERAGE || remaining * risk.fx + risk.pnl <= risk.maintenance * 1.5) {
+      return fail('MARGIN_TOO_LOW');
+    }
+  }
+  account.derivatives[quote] = roundBalance((account.derivatives[quote] || 0) - delta);
+  position.margin = remaining;
+  position.leverage = roundBalance((position.entryPrice * position.quantity) / position.margin);
+  markToMarket(account, market);
+  return {
+    positionId,
+    margin: roundBalance(position.margin),
+    leverage: position.leverage,
+    liquidationPrice: position.liquidationPrice,
+  };
+}
+
+// The position a fill opened or added to: the order's pair, side and margin mode, so that a
+// long and a short, or an isolated and a cross position, on one pair never get mixed up.
+function positionFilledBy(account, order) {
+  const side = order.side === 'buy' ? 'long' : 'short';
+  const marginMode = marginModes.includes(order.marginMode) ? order.marginMode : 'isolated';
+  return account.positions.find(
+    (p) =>
+      p.symbol === order.base &&
+      (p.quote || 'USD') === order.quote &&
+      p.side === side &&
+      (p.marginMode || 'isolated') === marginMode
+  );
+}
+
+function attachProtectiveOrders(account, market, position, { takeProfit, stopLoss } = {}) {
+  if (!position) return;
+  const side = position.side === 'long' ? 'sell' : 'buy';
+  [['take_profit', Number(takeProfit)], ['stop_loss', Number(stopLoss)]].forEach(([type, price]) => {
+    if (!(price > 0)) return;
+    account.orders = account.orders.filter((o) => !(o.positionId === position.id && o.type === type));
+    account.orders.push({
+      id: nextId(market, 'ord'),
+      type,
+      positionId: position.id,
+      base: position.symbol,
+      quote: position.quote || 'USD',
+      side,
+      stopPrice: roundPrice(price),
+      reduceOnly: true,
+      createdAt: market.clock,
+    });
+  });
+}
+
+function protectPosition(account, market, payload) {
+  const position = account.positions.find((p) => p.id === payload?.positionId);
+  if (!position) return fail('POSITION_NOT_FOUND');
+  attachProtectiveOrders(account, market, position, payload);
+  return { positionId: position.id };
+}
+
+function placeRestingOrder(account, market, order) {
+  const { base, quote, side, size, leverage = 1, reduceOnly = false, type } = order;
+  if (!pairPriceFor(market.prices, base, quote)) {
+    return fail('PAIR_NOT_SUPPORTED');
+  }
+  const limitPrice = Number(order.limitPrice);
+  const stopPrice = Number(order.stopPrice);
+  if ((type === 'limit' || type === 'stop_limit') && !(limitPrice > 0)) {
+    return fail('LIMIT_PRICE_REQUIRED');
+  }
+  if ((type === 'stop' || type === 'stop_limit') && !(stopPrice > 0)) {
+    return fail('STOP_PRICE_REQUIRED');
+  }
+  // A marketable limit takes what the book offers up to its price; only the rest rests.
+  let immediate;
+  if (type === 'limit') {
+    immediate = handleOrder(account, market, { ...order, type, limitPrice });
+    if (immediate.error && immediate.filledSize !== 0) {
+      return immediate;
+    }
+    if (immediate.filledSize && orderWallet(order) === 'derivatives') {
+      attachProtectiveOrders(account, market, positionFilledBy(account, order), order);
+    }
+    if (immediate.unfilledSize <= QUANTITY_EPSILON) {
+      return immediate;
+    }
+  }
+  const resting = {
+    id: nextId(market, 'ord'),
+    type,
+    base,
+    quote,
+    side,
+    size: immediate ? immediate.unfilledSize : size,
+    leverage,
+    marginMode: order.marginMode,
+    wallet: orderWallet(order),
+    reduceOnly,
+    limitPrice: type === 'stop' ? undefined : roundPrice(limitPrice),
+    stopPrice: type === 'limit' ? undefined : roundPrice(stopPrice),
+    triggered: false,
+    takeProfit: order.takeProfit,
+    stopLoss: order.stopLoss,
+    createdAt: market.clock,
+  };
+  account.orders.push(resting);
+  const filled = immediate && !immediate.error ? immediate : {};
+  return { ...filled, orderId: resting.id, resting: true };
+}
+
+function submitOrder(account, market, order) {
+  const type = order?.type || 'market';
+  if (!orderTypes.includes(type)) {
+    return fail('UNSUPPORTED_ORDER_TYPE');
+  }
+  if (order.wallet === 'spot' && orderWallet(order) !== 'spot') {
+    return fail('SPOT_NO_LEVERAGE');
+  }
+  const outside = market.scenario?.assets && [order.base, order.quote].find((asset) => !market.scenario.assets.includes(asset));
+  if (outside) {
+    return fail('ASSET_NOT_IN_SCENARIO', { asset: outside });
+  }
+  if (type !== 'market') {
+    return placeRestingOrder(account, market, { ...order, type });
+  }
+  const result = handleOrder(account, market, order);
+  if (!result.error && result.wallet === 'derivatives') {
+    attachProtectiveOrders(account, market, positionFilledBy(account, order), order);
+  }
+  return result;
+}
+
+function isStopHit(order, px) {
+  return order.side === 'buy' ? px >= order.stopPrice : px <= order.stopPrice;
+}
+
+function isLimitReached(order, px) {
+  return order.side === 'buy' ? px <= order.limitPrice : px >= order.limitPrice;
+}
+
+function isTriggered(order, px) {
+  switch (order.type) {
+    case 'limit':
+      return isLimitReached(order, px);
+    case 'stop':
+      return isStopHit(order, px);
+    case 'stop_limit':
+      return order.triggered && isLimitReached(order, px);
+    case 'take_profit':
+      return order.side === 'sell' ? px >= order.stopPrice : px <= order.stopPrice;
+    case 'stop_loss':
+      return isStopHit(order, px);
+    default:
+      return false;
+  }
+}
+
+// Checks every resting order against the current prices and fills the ones that
+// trigger. Fills go through the same path as market orders, at the current price.
+function evaluateOrders(account, market) {
+  const events = [];
+  account.orders.slice().forEach((order) => {
+    if (!account.orders.includes(order)) return;
+    if (order.positionId && !account.positions.some((p) => p.id === order.positionId)) {
+      account.orders = account.orders.filter((o) => o !== order);
+      return;
+    }
+    const px = pairPriceFor(market.prices, order.base, order.quote);
+    if (!px) return;
+    if (order.type === 'stop_limit' && !order.triggered && isStopHit(order, px)) {
+      order.triggered = true;
+      events.push({ type: 'triggered', order });
+    }
+    if (!isTriggered(order, px)) return;
+    const isLimit = order.limitPrice !== undefined;
+    // A limit that waited in the book provided liquidity, so it pays the maker rate.
+    const result = order.positionId
+      ? closePosition(account, market, order.positionId, 1)
+      : handleOrder(account, market, isLimit ? { ...order, liquidity: 'maker' } : order);
+    // Limit orders stay in the book until the depth at their price absorbs them.
+    if (isLimit && result.filledSize === 0) return;
+    if (isLimit && !result.error && result.unfilledSize > QUANTITY_EPSILON) {
+      order.size = result.unfilledSize;
+      events.push({ type: 'partially_filled', order, result });
+    } else {
+      account.orders = account.orders.filter((o) => o !== order);
+      events.push({ type: result.error ? 'rejected' : 'filled', order, result });
+    }
+    if (!result.error && !order.positionId && result.wallet === 'derivatives') {
+      attachProtectiveOrders(account, market, positionFilledBy(account, order), order);
+    }
+  });
+  return events;
+}
+
+function cancelOrder(account, orderId) {
+  const order = account.orders.find((o) => o.id === orderId);
+  if (!order) {
+    return fail('ORDER_NOT_FOUND');
+  }
+  account.orders = account.orders.filter((o) => o !== order);
+  return { orderId, cancelled: true };
+}
+
+function amendOrder(account, changes = {}) {
+  const order = account.orders.find((o) => o.id === changes.orderId);
+  if (!order) {
+    return fail('ORDER_NOT_FOUND');
+  }
+  const size = Number(changes.size);
+  const limitPrice = Number(changes.limitPrice);
+  const stopPrice = Number(changes.stopPrice);
+  if (changes.size !== undefined && !(size > 0 && !order.positionId)) {
+    return fail('INVALID_ORDER_SIZE');
+  }
+  if (changes.limitPrice !== undefined && !(limitPrice > 0 && order.limitPrice !== undefined)) {
+    return fail('INVALID_LIMIT_PRICE');
+  }
+  if (changes.stopPrice !== undefined && !(stopPrice > 0 && order.stopPrice !== undefined)) {
+    return fail('INVALID_STOP_PRICE');
+  }
+  if (changes.size !== undefined) order.size = size;
+  if (changes.limitPrice !== undefined) order.limitPrice = roundPrice(limitPrice);
+  if (changes.stopPrice !== undefined) order.stopPrice = roundPrice(stopPrice);
+  return { orderId: order.id, amended: true };
+}
+
+function emitOrderEvents(socket, events) {
+  events.forEach((event) => socket.emit('order_event', event));
+}
+
+function recentCloses(market, symbol, count) {
+  return (market.closes[symbol] || []).slice(-count);
+}
+
+function average(values) {
+  return values.length ? values.reduce((acc, v) => acc + v, 0) / values.length : 0;
+}
+
+// Each strategy looks at the bot's own market and position and returns what to do
+// this tick: open (or add) on a side, close the position, or nothing.
+const botStrategies = {
+  momentum: {
+    leverage: 5,
+    riskFraction: 0.2,
+    tradeChance: 0.5,
+    balanceMultiplier: 1,
+    decide(bot, market) {
+      const closes = recentCloses(market, bot.symbol, 6);
+      if (closes.length < 6) return null;
+      const change = (closes[closes.length - 1] - closes[0]) / closes[0];
+      const position = bot.positions[0];
+      if (Math.abs(change) < 0.004) return null;
+      const side = change > 0 ? 'buy' : 'sell';
+      if (position && (position.side === 'long') === (side === 'buy')) return null;
+      return { action: 'open', side };
+    },
+  },
+  mean_reversion: {
+    leverage: 3,
+    riskFraction: 0.25,
+    tradeChance: 0.5,
+    balanceMultiplier: 1,
+    decide(bot, market) {
+      const closes = recentCloses(market, bot.symbol, 20);
+      if (closes.length < 10) return null;
+      const mean = average(closes);
+      const deviation = (market.prices[bot.symbol] - mean) / mean;
+      const position = bot.positions[0];
+      if (position && Math.abs(deviation) < 0.001) return { action: 'close', positionId: position.id };
+      if (Math.abs(deviation) < 0.006) return null;
+      const side = deviation > 0 ? 'sell' : 'buy';
+      if (position && (position.side === 'long') === (side === 'buy')) return null;
+      return { action: 'open', side };
+    },
+  },
+  market_maker: {
+    leverage: 2,
+    riskFraction: 0.05,
+    tradeChance: 0.9,
+    balanceMultiplier: 2,
+    decide(bot, market) {
+      const position = bot.positions[0];
+      const inventoryUsd = position ? position.quantity * market.prices[bot.symbol] : 0;
+      if (position && inventoryUsd > bot.balance * 0.5) return { action: 'close', positionId: position.id };
+      // Lean against the current inventory so the book keeps being hit on both sides.
+      const leanSell = position?.side === 'long' ? 0.65 : position ? 0.35 : 0.5;
+      return { action: 'open', side: nextRandom(market.rng) < leanSell ? 'sell' : 'buy' };
+    },
+  },
+  degen: {
+    leverage: 50,
+    riskFraction: 0.3,
+    tradeChance: 0.3,
+    balanceMultiplier: 1,
+    decide(bot, market) {
+      const position = bot.positions[0];
+      if (!position) return { action: 'open', side: nextRandom(market.rng) > 0.5 ? 'buy' : 'sell' };
+      return bot.unrealizedPnl > position.margin * 0.5 ? { action: 'close', positionId: position.id } : null;
+    },
+  },
+  whale: {
+    leverage: 2,
+    riskFraction: 0.5,
+    tradeChance: 0.1,
+    balanceMultiplier: 5,
+    decide(bot, market) {
+      const closes = recentCloses(market, bot.symbol, 30);
+      if (closes.length < 20) return null;
+      const side = market.prices[bot.symbol] > average(closes) ? 'buy' : 'sell';
+      const position = bot.positions[0];
+      if (position && (position.side === 'long') === (side === 'buy')) return null;
+      return { action: 'open', side };
+    },
+  },
+};
+
+function accountEquity(account, market) {
+  const { prices } = market;
+  const holdingsUsd = Object.entries(account.holdings)
+    .concat(Object.entries(account.derivatives))
+    .reduce((acc, [currency, amount]) => acc + convertCurrency(amount, currency, 'USD', prices), 0);
+  const marginUsd = account.positions.reduce(
+    (acc, pos) => acc + convertCurrency(pos.margin, pos.quote || 'USD', 'USD', prices),
+    0
+  );
+  return roundBalance(holdingsUsd + marginUsd + account.unrealizedPnl);
+}
+
+function createAlert(session, market, payload) {
+  const { symbol, kind } = payload;
+  if (kind === 'move' ? !payload.percent : !payload.price) {
+    return fail(kind === 'move' ? 'ALERT_PERCENT_REQUIRED' : 'ALERT_PRICE_REQUIRED');
+  }
+  if (session.alerts.length >= MAX_ALERTS) return fail('TOO_MANY_ALERTS', { limit: MAX_ALERTS });
+  const alert = { id: nextId(market, 'alert'), symbol, kind, createdAt: market.clock };
+  if (kind === 'move') {
+    alert.percent = payload.percent;
+    // Moves are measured from the price when the alert was set, in either direction.
+    alert.basePrice = market.prices[symbol];
+  } else {
+    alert.price = roundPrice(payload.price);
+  }
+  session.alerts.push(alert);
+  return { alert };
+}
+
+function deleteAlert(session, alertId) {
+  const alert = session.alerts.find((a) => a.id === alertId);
+  if (!alert) return fail('ALERT_NOT_FOUND');
+  session.alerts = session.alerts.filter((a) => a !== alert);
+  return { alertId, deleted: true };
+}
+
+function isAlertHit(alert, price) {
+  if (alert.kind === 'above') return price >= alert.price;
+  if (alert.kind === 'below') return price <= alert.price;
+  return Math.abs(price / alert.basePrice - 1) * 100 >= alert.percent;
+}
+
+// Fires and drops every alert the new prices reach.
+function checkAlerts(session, market) {
+  const hits = session.alerts.filter((alert) => market.prices[alert.symbol] && isAlertHit(alert, market.prices[alert.symbol]));
+  if (!hits.length) return [];
+  session.alerts = session.alerts.filter((alert) => !hits.includes(alert));
+  return hits.map((alert) => ({ alert, price: market.prices[alert.symbol], at: market.clock }));
+}
+
+// Warns once per approach: a position is flagged when it crosses into the margin-call
+// distance and unflagged when it moves back out.
+function checkMarginCalls(session, market) {
+  const calls = [];
+  session.positions.forEach((pos) => {
+    const px = pairPriceFor(market.prices, pos.symbol, pos.quote || 'USD');
+    const distancePct = pos.liquidationPrice && px ? (Math.abs(px - pos.liquidationPrice) / px) * 100 : null;
+    const inRange = distancePct !== null && distancePct <= session.marginCallPct;
+    if (inRange && !pos.marginCalled) {
+      calls.push({
+        positionId: pos.id,
+        symbol: pos.symbol,
+        quote: pos.quote || 'USD',
+        side: pos.side,
+        leverage: pos.leverage,
+        price: roundPrice(px),
+        liquidationPrice: pos.liquidationPrice,
+        distancePct: roundBalance(distancePct),
+        marginRatio: pos.marginRatio,
+        at: market.clock,
+      });
+    }
+    pos.marginCalled = inRange;
+  });
+  return calls;
+}
+
+function exposureByAsset(account, prices) {
+  const exposure = {};
+  account.positions.forEach((pos) => {
+    const row = exposure[pos.symbol] || { long: 0, short: 0, net: 0 };
+    row[pos.side] = roundBalance(row[pos.side] + positionRisk(pos, prices).notional);
+    row.net = roundBalance(row.long - row.short);
+    exposure[pos.symbol] = row;
+  });
+  return exposure;
+}
+
+// One point per tick on the account's equity curve, with the leverage it was running at
+// (gross notional over equity).
+function sampleEquity(account, market) {
+  const equity = accountEquity(account, market);
+  const notional = account.positions.reduce((acc, pos) => acc + positionRisk(pos, market.prices).notional, 0);
+  account.equitySamples.push({ time: market.clock, equity, leverage: equity > 0 ? roundBalance(notional / equity) : 0 });
+  if (account.equitySamples.length > EQUITY_SAMPLE_LIMIT) account.equitySamples.shift();
+}
+
+// Largest peak-to-trough fall of an equity curve, in percent of the peak and in USD.
+function drawdownOf(samples) {
+  let peak = 0;
+  let maxDrawdown = 0;
+  let maxDrawdownUsd = 0;
+  samples.forEach(({ equity }) => {
+    peak = Math.max(peak, equity);
+    if (peak > 0 && (peak - equity) / peak > maxDrawdown) {
+      maxDrawdown = (peak - equity) / peak;
+      maxDrawdownUsd = peak - equity;
+    }
+  });
+  return { pct: roundBalance(maxDrawdown * 100), usd: roundBalance(maxDrawdownUsd) };
+}
+
+// Performance figures from the equity curve and closing trades. Ratios are null until
+// there is something to divide by.
+function accountStats(account, market) {
+  const samples = account.equitySamples;
+  const returns = [];
+  for (let i = 1; i < samples.length; i += 1) {
+    if (samples[i - 1].equity > 0) returns.push(samples[i].equity / samples[i - 1].equity - 1);
+  }
+  const mean = average(returns);
+  const deviation = Math.sqrt(average(returns.map((r) => (r - mean) ** 2)));
+  const downside = Math.sqrt(average(returns.map((r) => Math.min(0, r) ** 2)));
+  const drawdown = drawdownOf(samples);
+  const { wins, losses, grossWin, grossLoss } = account.outcomes;
+  const leverages = samples.map((sample) => sample.leverage);
+  const equity = accountEquity(account, market);
+  return {
+    equity,
+    returnPct: roundBalance(((equity - account.startingBalance) / account.startingBalance) * 100),
+    maxDrawdownPct: drawdown.pct,
+    maxDrawdownUsd: drawdown.usd,
+    sharpe: deviation > 0 ? roundBalance((mean / deviation) * Math.sqrt(SAMPLES_PER_HOUR)) : null,
+    sortino: downside > 0 ? roundBalance((mean / downside) * Math.sqrt(SAMPLES_PER_HOUR)) : null,
+    closedTrades: wins + losses,
+    winRatePct: wins + losses ? roundBalance((wins / (wins + losses)) * 100) : null,
+    averageWin: wins ? roundBalance(grossWin / wins) : null,
+    averageLoss: losses ? roundBalance(-grossLoss / losses) : null,
+    profitFactor: grossLoss > 0 ? roundBalance(grossWin / grossLoss) : null,
+    trades: account.trades,
+    liquidations: account.liquidations,
+    exposure: exposureByAsset(account, market.prices),
+    leverage: {
+      current: leverages[leverages.length - 1] ?? 0,
+      average: roundBalance(average(leverages)),
+      max: leverages.length ? Math.max(...leverages) : 0,
+    },
+  };
+}
+
+// The member's own curve and stats, every bot's stats, and one bot's curve to overlay.
+function analyticsFor(session, room, compareWith) {
+  if (!room.market) return fail('GAME_NOT_STARTED');
+  const { market } = room;
+  const rival = compareWith ? room.bots.find((bot) => bot.id === compareWith) : null;
+  return {
+    player: { stats: accountStats(session, market), curve: session.equitySamples },
+    bots: room.bots.map((bot) => ({ id: bot.id, name: bot.name, archetype: bot.archetype, stats: accountStats(bot, market) })),
+    comparison: rival && { id: rival.id, name: rival.name, archetype: rival.archetype, curve: rival.equitySamples },
+  };
+}
+
+// Bots are regular accounts: their orders walk the same book, move the same prices
+// and get liquidated by the same markToMarket as the player.
+function updateBots(room) {
+  const { market } = room;
+  room.bots.forEach((bot) => {
+    markToMarket(bot, market);
+    const strategy = botStrategies[bot.archetype];
+    const price = market.prices[bot.symbol];
+    // Set from the Admin console: scales how often the bot trades and how big it goes.
+    const aggressiveness = bot.aggressiveness ?? 1;
+    if (price && nextRandom(market.rng) < strategy.tradeChance * aggressiveness) {
+      const decision = strategy.decide(bot, market);
+      if (decision?.action === 'close') {
+        closePosition(bot, market, decision.positionId, 1);
+      } else if (decision?.action === 'open') {
+        const notional =
+          (bot.derivatives.USD || 0) * Math.min(1, strategy.riskFraction * aggressiveness) * strategy.leverage;
+        const size = roundPrice(notional / price);
+        if (size > 0) {
+          handleOrder(bot, market, {
+            base: bot.symbol,
+            quote: 'USD',
+            side: decision.side,
+            size,
+            leverage: strategy.leverage,
+            wallet: 'derivatives',
+          });
+        }
+      }
+    }
+    markToMarket(bot, market);
+    bot.balance = accountEquity(bot, market);
+  });
+}
+
+function botRows(room) {
+  return room.bots.map((bot) => ({
+    id: bot.id,
+    name: bot.name,
+    archetype: bot.archetype,
+    balance: bot.balance,
+    realizedPnl: bot.realizedPnl,
+    unrealizedPnl: bot.unrealizedPnl,
+    fees: bot.fees || 0,
+    netPnl: roundBalance(bot.realizedPnl - (bot.fees || 0)),
+    openPositions: bot.positions.length,
+  }));
+}
+
+function humanRows(room) {
+  return roomMembers(room).map((member) => ({
+    id: member.id,
+    name: member.playerName,
+    balance: accountEquity(member, room.market),
+    realizedPnl: member.realizedPnl,
+    unrealizedPnl: member.unrealizedPnl,
+    fees: member.fees || 0,
+    netPnl: roundBalance(member.realizedPnl - (member.fees || 0)),
+    openPositions: member.positions.length,
+    isHuman: true,
+    isAlgo: Boolean(member.apiKey),
+  }));
+}
+
+// Humans and bots share one leaderboard, ranked on realized PnL, or on realized PnL
+// minus fees when the room asks for it.
+function leaderboardRows(room) {
+  const key = room.rankNetOfFees ? 'netPnl' : 'realizedPnl';
+  return botRows(room)
+    .concat(humanRows(room))
+    .sort((a, b) => b[key] - a[key]);
+}
+
+// Settles every open position at the mark price (no book impact) and drops resting orders.
+function settleAccount(account, market) {
+  account.orders = [];
+  account.positions.slice().forEach((position) => {
+    const px = pairPriceFor(market.prices, position.symbol, position.quote || 'USD') || position.entryPrice;
+    reducePosition(account, market, position, position.quantity, px);
+  });
+  markToMarket(account, market);
+}
+
+// Market interventions, from a scenario timeline or the Admin console: moves spread over
+// ticks, halts until a time, one-off price targets, volatility multipliers and liquidity
+// waiting to be added to the book. The tick applies them.
+function emptyInterventions() {
+  return { moves: {}, halts: {}, targets: {}, volatility: {}, liquidity: [] };
+}
+
+function startMove(market, asset, direction, percent, durationMs) {
+  const ticks = Math.max(1, Math.round(durationMs / TICK_MS));
+  const total = direction === 'crash' ? 1 - percent / 100 : 1 + percent / 100;
+  market.interventions.moves[asset] = { ratio: total ** (1 / ticks), ticksLeft: ticks };
+}
+
+function isHalted(market, asset) {
+  return (market.interventions?.halts[asset] || 0) > market.clock;
+}
+
+function haltedAssets(market) {
+  return Object.keys(market.interventions.halts).filter((asset) => isHalted(market, asset));
+}
+
+// The forced price for this tick, or null when nothing overrides the asset's usual feed.
+function interventionPrice(market, asset, current) {
+  const { targets, moves } = market.interventions;
+  if (isHalted(market, asset)) return current;
+  if (targets[asset]) {
+    const target = targets[asset];
+    delete targets[asset];
+    return target;
+  }
+  const move = moves[asset];
+  if (!move) return null;
+  move.ticksLeft -= 1;
+  if (move.ticksLeft <= 0) delete moves[asset];
+  return current * move.ratio;
+}
+
+// Spreads injected liquidity over a side's levels like the book's own depth; the refill
+// then lets it fade back towards the usual size.
+function applyInjectedLiquidity(market) {
+  market.interventions.liquidity.splice(0).forEach(({ symbol, side, notionalUsd }) => {
+    const levelBook = market.orderBook[symbol];
+    const price = market.prices[symbol];
+    if (!levelBook || !price) return;
+    const sides = side === 'both' ? ['bids', 'asks'] : [side];
+    const weights = Array.from({ length: BOOK_LEVELS }, (_, i) => targetLevelSize(price, i));
+    const totalWeight = weights.reduce((acc, w) => acc + w, 0) * sides.length;
+    sides.forEach((bookSide) => {
+      levelBook[bookSide].forEach((level, i) => {
+        level.size = roundPrice(level.size + (notionalUsd * (weights[i] / totalWeight)) / level.price);
+      });
+    });
+  });
+}
+
+// Fires the timeline entries that are due: headlines go to the room feed, crashes and pumps
+// spread their move evenly over their duration, halts freeze an asset's price and its orders.
+function fireScenarioEvents(room) {
+  const { market, scenario } = room;
+  const elapsed = market.clock - room.round.startedAt;
+  while (market.scenario.nextEvent < scenario.timeline.length && scenario.timeline[market.scenario.nextEvent].at <= elapsed) {
+    const event = scenario.timeline[market.scenario.nextEvent];
+    market.scenario.nextEvent += 1;
+    if (event.headline) market.events.push({ type: 'news', name: scenario.title, symbol: event.asset, headline: event.headline });
+    if (event.type === 'crash' || event.type === 'pump') {
+      startMove(market, event.asset, event.type, event.percent, event.durationMs);
+    } else if (event.type === 'halt') {
+      market.interventions.halts[event.asset] = market.clock + event.durationMs;
+    }
+    if (event.id) roomMembers(room).forEach((member) => checkExposure(member, event));
+  }
+}
+
+// exposed_during objectives are judged the moment their event fires.
+function checkExposure(session, event) {
+  if (session.scenario?.status !== 'running') return;
+  session.scenario.objectives.forEach((objective) => {
+    if (objective.type !== 'exposed_during' || objective.event !== event.id || objective.status !== 'pending') return;
+    const exposed = session.positions.some(
+      (p) => p.symbol === event.asset && !p.liquidated && p.leverage >= (objective.minLeverage || 1)
+    );
+    objective.status = exposed ? 'done' : 'failed';
+  });
+  resolveScenario(session.scenario);
+}
+
+function resolveScenario(progress) {
+  if (progress.objectives.some((o) => o.status === 'failed')) progress.status = 'failed';
+  else if (progress.objectives.every((o) => o.status === 'done')) progress.status = 'passed';
+}
+
+// beat_bot compares returns: bots start with several times a player's balance.
+function returnPct(account, market) {
+  return roundBalance(((accountEquity(account, market) - account.startingBalance) / account.startingBalance) * 100);
+}
+
+// Per tick: targets latch once met, floors and the no-liquidation rule fail as soon as broken.
+function updateObjectives(session, room) {
+  const progress = session.scenario;
+  if (progress?.status !== 'running') return;
+  const equity = accountEquity(session, room.market);
+  progress.objectives.forEach((objective) => {
+    if (objective.status !== 'pending') return;
+    if (objective.type === 'reach_equity' || objective.type === 'keep_equity') objective.current = equity;
+    if (objective.type === 'reach_equity' && equity >= objective.value) objective.status = 'done';
+    if (objective.type === 'keep_equity' && equity < objective.value) objective.status = 'failed';
+    if (objective.type === 'no_liquidation' && session.liquidations > 0) objective.status = 'failed';
+    if (objective.type === 'beat_bot') {
+      const bot = room.bots.find((b) => b.name === objective.bot);
+      objective.current = returnPct(session, room.market);
+      objective.target = bot ? returnPct(bot, room.market) : 0;
+    }
+  });
+  resolveScenario(progress);
+}
+
+function scenarioResolved(room) {
+  const members = roomMembers(room);
+  return members.length > 0 && members.every((member) => member.scenario?.status !== 'running');
+}
+
+// At the bell whatever is still pending is settled: floors held, targets missed, bots compared.
+function finishScenario(session, room, finalReturnPct) {
+  const progress = session.scenario;
+  if (progress.status === 'running') {
+    progress.objectives.forEach((objective) => {
+      if (objective.status !== 'pending') return;
+      if (objective.type === 'beat_bot') {
+        const bot = room.bots.find((b) => b.name === objective.bot);
+        objective.current = finalReturnPct;
+        objective.target = bot ? returnPct(bot, room.market) : 0;
+        objective.status = objective.current > objective.target ? 'done' : 'failed';
+      } else {
+        objective.status = objective.type === 'keep_equity' || objective.type === 'no_liquidation' ? 'done' : 'failed';
+      }
+    });
+    resolveScenario(progress);
+  }
+  const passed = progress.status === 'passed';
+  const done = progress.objectives.filter((o) => o.status === 'done').length;
+  const secondsLeft = Math.max(0, Math.round((room.round.endsAt - room.market.clock) / 1000));
+  progress.score = Math.max(
+    0,
+    done * scenarioScoring.objective +
+      (passed ? scenarioScoring.pass + secondsLeft * scenarioScoring.secondLeft : 0) +
+      Math.max(0, Math.round(finalReturnPct * scenarioScoring.returnPct)) -
+      session.liquidations * scenarioScoring.liquidation
+  );
+  return progress;
+}
+
+function endRound(room) {
+  const { market } = room;
+  const members = roomMembers(room);
+  members.forEach((member) => settleAccount(member, market));
+  room.bots.forEach((bot) => {
+    settleAccount(bot, market);
+    bot.balance = accountEquity(bot, market);
+  });
+  const rankings = leaderboardRows(room).map((row, i) => ({ ...row, rank: i + 1 }));
+  const players = {};
+  members.forEach((member) => {
+    const row = rankings.find((r) => r.id === member.id);
+    const finalReturnPct = roundBalance(((row.balance - member.startingBalance) / member.startingBalance) * 100);
+    players[member.id] = {
+      rank: row.rank,
+      won: row.rank === 1,
+      realizedPnl: member.realizedPnl,
+      fees: row.fees,
+      netPnl: row.netPnl,
+      balance: row.balance,
+      startingBalance: member.startingBalance,
+      returnPct: finalReturnPct,
+      trades: member.trades,
+      liquidations: member.liquidations,
+      scenario: member.scenario ? finishScenario(member, room, finalReturnPct) : null,
+    };
+  });
+  room.round.status = 'ended';
+  room.round.endedAt = room.market.clock;
+  room.round.results = {
+    round: room.round.number,
+    podium: rankings.slice(0, 3),
+    rankings,
+    players,
+  };
+  // A re-simulation only reads its results back; the live game files them.
+  if (room.standIns) return;
+  recordHallOfFame(room);
+  if (room.game?.reproducible) {
+    room.game.rounds.push({ number: room.round.number, rankings });
+    persistGameRecord(room.game);
+  }
+}
+
+// Round state as one member sees it: shared podium and rankings plus their own stats.
+function roundState(room, session) {
+  if (!room.round) return null;
+  const { results, ...round } = room.round;
+  return {
+    ...round,
+    remainingMs: round.status === 'running' ? Math.max(0, round.endsAt - room.market.clock) : 0,
+    results: results && {
+      round: results.round,
+      podium: results.podium,
+      rankings: results.rankings,
+      player: results.players[session.id] || null,
+    },
+  };
+}
+
+// Rejections carry a stable code from the shared protocol for the client to localize.
+function fail(code, details = {}) {
+  return { error: protocol.errors[code], code, ...details };
+}
+
+// Checks one value against its protocol.json rule. Absent values only pass when optional, and
+// null counts as absent unless the rule is `nullable: false`; nested objects are checked field
+// by field with dotted names.
+function validateField(name, rule, value, context) {
+  const invalid = () => fail('INVALID_FIELD', { field: name });
+  if (value === null && rule.nullable === false) return invalid();
+  if (value === undefined || value === null) return rule.optional ? null : invalid();
+  switch (rule.type) {
+    case 'object':
+      if (typeof value !== 'object' || Array.isArray(value)) return invalid();
+      return validateFields(protocol.definitions[rule.fields], value, context, `${name}.`);
+    case 'boolean':
+      return typeof value === 'boolean' ? null : invalid();
+    case 'array':
+      if (!Array.isArray(value) || value.length > rule.maxItems) return invalid();
+      for (const [i, item] of value.entries()) {
+        const problem = validateField(`${name}.${i}`, rule.items, item, context);
+        if (problem) return problem;
+      }
+      return null;
+    case 'string':
+      if (typeof value !== 'string' || value.length > rule.maxLength) return invalid();
+      break;
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return invalid();
+      if (rule.type === 'integer' && !Number.isInteger(value)) return invalid();
+      if ((rule.min !== undefined && value < rule.min) || (rule.gt !== undefined && value <= rule.gt)) return invalid();
+      if ((rule.max !== undefined && value > rule.max) || (rule.nonZero && value === 0)) return invalid();
+      break;
+    default:
+      return invalid();
+  }
+  if (rule.enum && !protocol[rule.enum].includes(value)) return invalid();
+  const cap = rule.leverageCap && protocol.leverageCaps[context.mode];
+  if (cap && value > cap) return fail('LEVERAGE_TOO_HIGH', { field: name, limit: cap });
+  return null;
+}
+
+function validateFields(fields, payload, context, prefix = '') {
+  for (const [name, rule] of Object.entries(fields)) {
+    const problem = validateField(`${prefix}${name}`, rule, payload[name], context);
+    if (problem) return problem;
+  }
+  return null;
+}
+
+// Validates an inbound payload against the event's schema. Unknown fields are ignored;
+// `context.mode` (the sender's room mode) picks the leverage cap.
+function validatePayload(event, payload, context = {}) {
+  const schema = protocol.events[event];
+  const fields = typeof schema === 'string' ? protocol.definitions[schema] : schema;
+  if (payload === undefined || payload === null) return validateFields(fields, {}, context);
+  if (typeof payload !== 'object' || Array.isArray(payload)) return fail('INVALID_PAYLOAD');
+  return validateFields(fields, payload, context);
+}
+
+function rejectInvalid(socket, event, payload, callback) {
+  const session = sessionForSocket(socket);
+  const problem = validatePayload(event, payload, { mode: session && roomFor(session)?.mode });
+  if (!problem) return false;
+  logNetwork('socket', `${event} rejected`, problem);
+  if (typeof callback === 'function') callback(problem);
+  return true;
+}
+
+function roundClosedProblem(session) {
+  const room = roomFor(session);
+  if (room?.status === 'playing' && room.round.status === 'running') return null;
+  return fail(room?.status === 'lobby' ? 'GAME_NOT_STARTED' : 'ROUND_OVER');
+}
+
+function rejectIfRoundOver(session, callback) {
+  const problem = roundClosedProblem(session);
+  if (!problem) return false;
+  if (callback) callback(problem);
+  return true;
+}
+
+function rejectUnlessHost(session, room, callback) {
+  if (room.isPrivate || room.hostId === session.id) return false;
+  if (callback) callback(fail('NOT_HOST'));
+  return true;
+}
+
+function emitSession(socket, session) {
+  const room = roomFor(session);
+  if (room.market) refreshMarks(session, room.market);
+  socket.emit('session_update', sanitizeSession(session));
+}
+
+function sendStream(ws, message) {
+  if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(message));
+}
+
+// Reaches a member on their socket and on any plain WebSocket stream their API key opened.
+function emitToMember(session, event, payload) {
+  // Stand-ins share their player's id but must never reach the player.
+  if (session.standIn) return null;
+  const socket = session.socketId ? io.sockets.sockets.get(session.socketId) : null;
+  if (socket) socket.emit(event, payload);
+  apiStreams.get(session.id)?.forEach((ws) => sendStream(ws, { event, data: payload }));
+  return socket;
+}
+
+function emitSessionToMember(session) {
+  const room = roomFor(session);
+  if (room.market) refreshMarks(session, room.market);
+  emitToMember(session, 'session_update', sanitizeSession(session));
+}
+
+function emitSessionToRoom(room) {
+  roomMembers(room).forEach(emitSessionToMember);
+}
+
+function accountState(session) {
+  return {
+    holdings: session.holdings,
+    derivatives: session.derivatives,
+    positions: session.positions,
+    orders: session.orders,
+    realizedPnl: session.realizedPnl,
+    unrealizedPnl: session.unrealizedPnl,
+    fees: session.fees || 0,
+    volumeUsd: session.volumeUsd || 0,
+    // Lets the client refetch its history only when something was recorded.
+    ledgerSize: session.ledger.length,
+    alerts: session.alerts,
+    marginCallPct: session.marginCallPct,
+    scenario: session.scenario || null,
+  };
+}
+
+function subscribedSymbols(session) {
+  return session.subscriptions || assets;
+}
+
+// What every member of a room is sent alike on a tick, computed once.
+function sharedMarketView(room) {
+  const { market } = room;
+  return {
+    prices: market.prices,
+    lastCandles: lastCandles(market),
+    patterns: patternView(room),
+    funding: market.funding,
+    insuranceFund: market.insuranceFund || 0,
+    halted: haltedAssets(market),
+    feed: market.feed || null,
+    leaderboard: leaderboardRows(room),
+  };
+}
+
+// The part of a member's market that goes out as deltas: every price, the books and latest
+// candles of the subscribed symbols, and the leaderboard. Copied, since trades between ticks
+// move the market's prices and candles in place and the view must stay what was sent.
+function streamView(session, room, shared) {
+  const symbols = subscribedSymbols(session);
+  const candles = {};
+  Object.entries(shared.lastCandles).forEach(([timeframe, bySymbol]) => {
+    candles[timeframe] = Object.fromEntries(
+      Object.entries(bySymbol)
+        .filter(([symbol]) => symbols.includes(symbol))
+        .map(([symbol, candle]) => [symbol, { ...candle }])
+    );
+  });
+  return {
+    prices: { ...shared.prices },
+    lastCandles: candles,
+    orderBook: orderBookView(session, room.market, symbols),
+    leaderboard: shared.leaderboard,
+  };
+}
+
+function sameJson(a, b) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Levels that appeared or changed size, and the ones that went as size 0; null when nothing moved.
+function bookDiff(previous, next) {
+  const diff = {};
+  ['bids', 'asks'].forEach((side) => {
+    const before = new Map(previous[side].map((level) => [bookLevelKey(level), level.size]));
+    const after = new Set(next[side].map(bookLevelKey));
+    diff[side] = next[side]
+      .filter((level) => before.get(bookLevelKey(level)) !== level.size)
+      .concat(previous[side].filter((level) => !after.has(bookLevelKey(level))).map((level) => ({ ...level, size: 0 })));
+  });
+  return diff.bids.length || diff.asks.length ? diff : null;
+}
+
+// Everything in `view` the member does not have yet, given they hold `previous`.
+function marketDelta(previous, view) {
+  const prices = Object.fromEntries(Object.entries(view.prices).filter(([symbol, price]) => previous.prices[symbol] !== price));
+  const lastCandles = {};
+  Object.entries(view.lastCandles).forEach(([timeframe, bySymbol]) => {
+    lastCandles[timeframe] = Object.fromEntries(
+      Object.entries(bySymbol).filter(([symbol, candle]) => !sameJson(previous.lastCandles[timeframe]?.[symbol], candle))
+    );
+  });
+  // A symbol subscribed since the last update arrives as a whole book.
+  const orderBook = {};
+  const bookDeltas = {};
+  Object.entries(view.orderBook).forEach(([symbol, book]) => {
+    if (!previous.orderBook[symbol]) {
+      orderBook[symbol] = book;
+      return;
+    }
+    const diff = bookDiff(previous.orderBook[symbol], book);
+    if (diff) bookDeltas[symbol] = diff;
+  });
+  const rows = new Map(previous.leaderboard.map((row) => [row.id, row]));
+  const ids = view.leaderboard.map((row) => row.id);
+  return {
+    prices,
+    lastCandles,
+    orderBook,
+    bookDeltas,
+    leaderboard: view.leaderboard.filter((row) => !sameJson(rows.get(row.id), row)),
+    leaderboardRemoved: previous.leaderboard.filter((row) => !ids.includes(row.id)).map((row) => row.id),
+    leaderboardOrder: sameJson(ids, previous.leaderboard.map((row) => row.id)) ? null : ids,
+  };
+}
+
+function fullMarketView(view) {
+  return { ...view, bookDeltas: {}, leaderboardRemoved: [], leaderboardOrder: null };
+}
+
+// Sent whole on every update: small, and they change as a block.
+function marketExtras(session, room, shared) {
+  return {
+    patterns: shared.patterns,
+    funding: shared.funding,
+    insuranceFund: shared.insuranceFund,
+    halted: shared.halted,
+    feed: shared.feed,
+    account: accountState(session),
+    round: roundState(room, session),
+  };
+}
+
+// A member's tick: numbered, and only what changed since their last update unless they have
+// none yet. A client that sees a gap in `seq` asks for market_resync.
+function marketUpdate(session, room, shared) {
+  const view = streamView(session, room, shared);
+  const previous = marketStreams.get(session.id);
+  const seq = (previous?.seq || 0) + 1;
+  marketStreams.set(session.id, { seq, view });
+  return {
+    seq,
+    snapshot: !previous,
+    ...(previous ? marketDelta(previous.view, view) : fullMarketView(view)),
+    ...marketExtras(session, room, shared),
+  };
+}
+
+// The view a member's stream stands at, whole. It moves nothing on, so every consumer of the
+// stream (the UI, a bot's socket, its plain WebSocket) can resync without tripping the others.
+function marketResync(session, room) {
+  if (!room.market) return fail('GAME_NOT_STARTED');
+  const shared = sharedMarketView(room);
+  if (!marketStreams.has(session.id)) marketStreams.set(session.id, { seq: 1, view: streamView(session, room, shared) });
+  const { seq, view } = marketStreams.get(session.id);
+  return { seq, snapshot: true, ...fullMarketView(view), ...marketExtras(session, room, shared) };
+}
+
+function subscribeMarket(session, symbols) {
+  session.subscriptions = symbols ? Array.from(new Set(symbols)) : null;
+  return { symbols: subscribedSymbols(session) };
+}
+
+// A session_update carries the member's market whole, so the stream restarts from it under
+// the next sequence number; anyone who missed it sees the gap and resyncs.
+function sanitizeSession(session) {
+  const room = roomFor(session);
+  let stream = null;
+  if (room.market) {
+    const shared = sharedMarketView(room);
+    stream = { seq: (marketStreams.get(session.id)?.seq || 0) + 1, view: streamView(session, room, shared) };
+    marketStreams.set(session.id, stream);
+  }
+  return {
+    sessionToken: session.token,
+    playerId: session.id,
+    playerName: session.playerName,
+    difficulty: room.difficulty,
+    mode: room.mode,
+    priceProvider: room.priceProvider,
+    room: roomState(room),
+    ...accountState(session),
+    // Pending interventions stay with the host; players only see which assets are halted.
+    market: room.market && {
+      prices: stream.view.prices,
+      orderBook: stream.view.orderBook,
+      patterns: patternView(room),
+      funding: room.market.funding,
+      insuranceFund: room.market.insuranceFund || 0,
+      fees: room.market.fees,
+      fxRates: room.market.fxRates,
+      halted: haltedAssets(room.market),
+      feed: room.market.feed || null,
+    },
+    marketSeq: stream?.seq ?? null,
+    leaderboard: stream?.view.leaderboard ?? [],
+    startedAt: room.startedAt || session.startedAt,
+    round: roundState(room, session),
+    faucetClaimed: session.faucetClaimed,
+  };
+}
+
+// Counts one request against a key's (or an address's) current window.
+function consumeApiQuota(id) {
+  const now = Date.now();
+  let quota = apiQuotas.get(id);
+  if (!quota || now - quota.startedAt >= API_RATE_WINDOW_MS) {
+    quota = { startedAt: now, count: 0 };
+    apiQuotas.set(id, quota);
+  }
+  quota.count += 1;
+  return {
+    limit: API_RATE_LIMIT,
+    remaining: Math.max(0, API_RATE_LIMIT - quota.count),
+    resetAt: quota.startedAt + API_RATE_WINDOW_MS,
+    limited: quota.count > API_RATE_LIMIT,
+  };
+}
+
+function rateLimitFailure(quota) {
+  return fail('RATE_LIMITED', { limit: quota.limit, retryAfterMs: Math.max(0, quota.resetAt - Date.now()) });
+}
+
+// API sessions have no socket to hold them: every call restarts their grace period.
+function touchApiSession(session) {
+  if (!session.socketId) session.disconnectedAt = Date.now();
+}
+
+function apiAccount(session, room) {
+  if (room.market) refreshMarks(session, room.market);
+  return {
+    ...accountState(session),
+    balance: room.market ? accountEquity(session, room.market) : session.startingBalance,
+    faucetClaimed: session.faucetClaimed,
+  };
+}
+
+// Commands shared by the REST routes and the plain WebSocket stream. They take the key's
+// session, its room and a validated payload, and reply like the socket event of the same name.
+const apiCommands = {
+  get_account: (session, room) => apiAccount(session, room),
+  get_market: (session, room) => {
+    if (!room.market) return fail('GAME_NOT_STARTED');
+    const { prices, funding, insuranceFund, fees, fxRates: rates } = room.market;
+    return { prices, fxRates: rates, funding, insuranceFund: insuranceFund || 0, fees, round: roundState(room, session) };
+  },
+  get_order_book: (session, room, payload) => {
+    if (!room.market) return fail('GAME_NOT_STARTED');
+    const orderBook = orderBookView(session, room.market);
+    return { orderBook: payload.symbol ? { [payload.symbol]: orderBook[payload.symbol] } : orderBook };
+  },
+  get_candles: (session, room, payload) => (room.market ? candlePage(room.market, payload) : fail('GAME_NOT_STARTED')),
+  get_history: (session, room, payload) => ledgerPage(session, payload),
+  get_leaderboard: (session, room) => ({ leaderboard: room.market ? leaderboardRows(room) : [] }),
+  subscribe: (session, room, payload) => subscribeMarket(session, payload.symbols),
+  market_resync: (session, room) => marketResync(session, room),
+  get_analytics: (session, room, payload) => analyticsFor(session, room, payload.compareWith),
+  create_alert: (session, room, payload) => (room.market ? createAlert(session, room.market, payload) : fail('GAME_NOT_STARTED')),
+  delete_alert: (session, room, payload) => deleteAlert(session, payload.alertId),
+  convert: (session, room, payload) => (room.market ? convertHoldings(session, room.market, payload) : fail('GAME_NOT_STARTED')),
+  transfer: (session, room, payload) => (room.market ? transferFunds(session, room.market, payload) : fail('GAME_NOT_STARTED')),
+  set_margin_call: (session, room, payload) => {
+    session.marginCallPct = payload.distancePct;
+    return { distancePct: session.marginCallPct };
+  },
+  set_ready: (session, room, payload) => {
+    room.ready[session.id] = payload.ready;
+    emitRoomUpdate(room);
+    return { ready: payload.ready };
+  },
+  place_order: (session, room, order) => {
+    const result = submitOrder(session, room.market, order);
+    const orderEvents = result.resting ? evaluateOrders(session, room.market) : [];
+    orderEvents.forEach((event) => emitToMember(session, 'order_event', event));
+    return result;
+  },
+  cancel_order: (session, room, payload) => cancelOrder(session, payload.orderId),
+  amend_order: (session, room, payload) => amendOrder(session, payload),
+  close_position: (session, room, payload) => closePosition(session, room.market, payload.positionId, payload.fraction ?? 1),
+  reduce_position: (session, room, payload) => reducePositionBy(session, room.market, payload.positionId, payload.quantity),
+};
+
+// Admin console, for the host of an Admin room during a round. Each command only queues its
+// change on the market (or the bot): the next tick applies it. Results are logged for the debrief.
+const ADMIN_LOG_LIMIT = 500;
+const HALT_UNTIL_RESUMED = Number.MAX_SAFE_INTEGER;
+
+const adminCommands = {
+  admin_set_price: (room, { symbol, price }) => {
+    if (symbol === 'USD') return fail('INVALID_FIELD', { field: 'symbol' });
+    room.market.interventions.targets[symbol] = price;
+    return { symbol, price };
+  },
+  admin_set_volatility: (room, { symbol, multiplier }) => {
+    if (multiplier === 1) delete room.market.interventions.volatility[symbol];
+    else room.market.interventions.volatility[symbol] = multiplier;
+    return { symbol, multiplier };
+  },
+  admin_move: (room, { symbol, direction, percent, seconds }) => {
+    if (symbol === 'USD') return fail('INVALID_FIELD', { field: 'symbol' });
+    startMove(room.market, symbol, direction, percent, seconds * 1000);
+    return { symbol, direction, percent, seconds };
+  },
+  admin_halt: (room, { symbol, halted, seconds }) => {
+    const { halts } = room.market.interventions;
+    if (halted) halts[symbol] = seconds ? room.market.clock + seconds * 1000 : HALT_UNTIL_RESUMED;
+    else delete halts[symbol];
+    return { symbol, halted, until: halted ? halts[symbol] : null };
+  },
+  admin_inject_liquidity: (room, { symbol, side, notionalUsd }) => {
+    room.market.interventions.liquidity.push({ symbol, side, notionalUsd });
+    return { symbol, side, notionalUsd };
+  },
+  admin_set_bot: (room, { botId, aggressiveness }) => {
+    const bot = room.bots.find((b) => b.id === botId);
+    if (!bot) return fail('BOT_NOT_FOUND');
+    bot.aggressiveness = aggressiveness;
+    return { botId, name: bot.name, aggressiveness };
+  },
+  admin_news: (room, { headline }, session) => {
+    room.market.events.push({ type: 'news', name: session.playerName, headline });
+    return { headline };
+  },
+};
+
+function logAdminAction(room, session, action, result) {
+  room.adminLog = room.adminLog || [];
+  const entry = { at: Date.now(), by: session.playerName, action, ...result };
+  room.adminLog.push(entry);
+  if (room.adminLog.length > ADMIN_LOG_LIMIT) room.adminLog.shift();
+  logNetwork('admin', `${action} by ${session.playerName}`, result);
+  return entry;
+}
+
+// Scenarios are scored challenges: the console stays off even when their mode is Admin.
+function rejectUnlessAdmin(session, room, callback) {
+  if (rejectUnlessHost(session, room, callback)) return true;
+  const problem = room.mode !== 'Admin' ? 'ADMIN_ONLY' : room.scenario ? 'ADMIN_IN_SCENARIO' : null;
+  if (!problem) return false;
+  if (callback) callback(fail(problem));
+  return true;
+}
+
+const apiTradingCommands = new Set([
+  'place_order',
+  'cancel_order',
+  'amend_order',
+  'close_position',
+  'reduce_position',
+  'convert',
+  'transfer',
+]);
+
+function runApiCommand(session, event, payload) {
+  const command = Object.hasOwn(apiCommands, event) ? apiCommands[event] : null;
+  if (!command) return fail('UNKNOWN_COMMAND');
+  const room = roomFor(session);
+  const problem =
+    validatePayload(event, payload, { mode: room.mode }) || (apiTradingCommands.has(event) && roundClosedProblem(session));
+  if (problem) return problem;
+  if (apiTradingCommands.has(event) && !payload?.preview) recordAction(room, session, event, payload ?? {});
+  const result = command(session, room, payload ?? {});
+  if (apiTradingCommands.has(event)) {
+    if (!payload?.preview) markAfterAction(room, session, event);
+    emitSessionToMember(session);
+    flushMarketEvents(room);
+  }
+  return result;
+}
+
+// Playing a saved game again: each recorded action goes back through the engine call its live
+// handler makes, without the replies. Joins seat a stand-in, departures unseat it.
+const recordedActions = {
+  ...Object.fromEntries(Array.from(apiTradingCommands, (event) => [event, apiCommands[event]])),
+  ...Object.fromEntries(
+    Object.entries(adminCommands).map(([event, command]) => [event, (session, room, payload) => command(room, payload, session)])
+  ),
+  set_position_tpsl: (session, room, payload) => protectPosition(session, room.market, payload),
+  adjust_margin: (session, room, payload) => adjustMargin(session, room.market, payload.positionId, payload.amount),
+  claim_faucet: (session) => claimFaucet(session),
+  continue_round: (session, room) => startRound(room, room.round.number + 1),
+  leave: (session, room) => {
+    room.memberIds = room.memberIds.filter((id) => id !== session.id);
+  },
+};
+
+// A recorded player's account: their id and name, but no socket, ledger or live session.
+function seatStandIn(room, { id, name }) {
+  const member = { id, playerName: name, standIn: true };
+  resetAccount(member, startingBalanceFor(room.mode));
+  if (room.scenario && room.market) startScenario(member, room);
+  room.standIns.set(id, member);
+  room.memberIds.push(id);
+}
+
+// Marks whoever a recorded action leaves to be marked, live and in a replay alike, so that the
+// liquidations it sets off between ticks land at the same point: the member who acted, or the
+// whole room when the next round starts. Departures and Admin commands mark no one.
+function markAfterAction(room, session, event) {
+  if (!room.market || event === 'leave' || Object.hasOwn(adminCommands, event)) return;
+  const marked = event === 'continue_round' ? roomMembers(room) : [session];
+  marked.forEach((member) => markToMarket(member, room.market));
+}
+
+function applyRecordedAction(room, action) {
+  if (action.event === 'join') {
+    seatStandIn(room, { id: action.memberId, name: action.payload.playerName });
+    return;
+  }
+  const member = room.standIns.get(action.memberId);
+  if (!member || !Object.hasOwn(recordedActions, action.event)) return;
+  recordedActions[action.event](member, room, action.payload);
+  markAfterAction(room, member, action.event);
+}
+
+function roundLines(rounds) {
+  return JSON.stringify(
+    rounds.map(({ number, rankings }) => [number, rankings.map(({ id, balance, realizedPnl, fees }) => [id, balance, realizedPnl, fees])])
+  );
+}
+
+// Rebuilds a saved game from its record and steps it to the end, playing each action after the
+// tick it followed. Every tick leaves a frame for the viewer: prices, each player's equity, the
+// actions that led into it and the room events it raised. `verified` tells whether the final
+// standings came out exactly as recorded.
+function simulateGame(game) {
+  const room = {
+    id: `game-${game.id}`,
+    memberIds: [],
+    ready: {},
+    ...game.settings,
+    replay: null,
+    status: 'lobby',
+    market: null,
+    bots: [],
+    round: null,
+    standIns: new Map(),
+  };
+  game.members.forEach((member) => seatStandIn(room, member));
+  startRoomGame(room, game);
+  const players = new Map(game.members.map((member) => [member.id, member.name]));
+  const frames = [];
+  const rounds = [];
+  let next = 0;
+  let played = [];
+  const playDue = () => {
+    while (next < game.actions.length && game.actions[next].tick <= room.market.tick) {
+      const action = game.actions[next];
+      next += 1;
+      if (action.event === 'join') players.set(action.memberId, action.payload.playerName);
+      applyRecordedAction(room, action);
+      played.push({ name: players.get(action.memberId), event: action.event, payload: action.payload });
+    }
+  };
+  playDue();
+  while (room.round.status === 'running') {
+    stepRoom(room);
+    const { market } = room;
+    if (room.round.status === 'ended') rounds.push({ number: room.round.number, rankings: room.round.results.rankings });
+    frames.push({
+      tick: market.tick,
+      time: market.clock,
+      round: room.round.number,
+      prices: Object.fromEntries(assets.filter((asset) => asset !== 'USD').map((asset) => [asset, market.prices[asset]])),
+      equity: Object.fromEntries(roomMembers(room).map((member) => [member.id, accountEquity(member, market)])),
+      actions: played,
+      events: market.events.splice(0),
+    });
+    played = [];
+    playDue();
+  }
+  return {
+    id: game.id,
+    seed: game.seed,
+    daily: game.daily,
+    startedAt: game.startedAt,
+    difficulty: game.settings.difficulty,
+    mode: game.settings.mode,
+    scenario: game.settings.scenario?.title || null,
+    players: Array.from(players, ([id, name]) => ({ id, name })),
+    rounds: game.rounds,
+    frames,
+    verified: roundLines(rounds) === roundLines(game.rounds),
+  };
+}
+
+// Re-simulations are pure but not free: the last few are kept, keyed by how many rounds they cover.
+const gameReplays = new Map();
+
+function gameReplay(game) {
+  const key = `${game.id}:${game.rounds.length}`;
+  if (!gameReplays.has(key)) {
+    gameReplays.set(key, simulateGame(game));
+    if (gameReplays.size > GAME_REPLAY_CACHE_SIZE) gameReplays.delete(gameReplays.keys().next().value);
+  }
+  return gameReplays.get(key);
+}
+
+let ticksSinceSnapshot = 0;
+
+async function tick() {
+  reapSessions();
+  const requestedProviders = [];
+  rooms.forEach((room) => {
+    if (room.status === 'playing' && room.difficulty === 'Real-World' && room.priceProvider !== 'replay') {
+      requestedProviders.push(room.priceProvider || 'internal');
+    }
+  });
+  await refreshPriceSnapshots(requestedProviders);
+  stepFeedMarkets();
+  // Rooms keep ticking while members are disconnected: the round clock is the server's, not the socket's.
+  rooms.forEach((room) => {
+    // A lobby has no market yet; an ended round keeps its market frozen until the room continues or restarts.
+    if (room.status !== 'playing' || room.round.status !== 'running') return;
+    stepRoom(room);
+    flushMarketEvents(room);
+  });
+
+  ticksSinceSnapshot += 1;
+  if (ticksSinceSnapshot >= SNAPSHOT_EVERY_TICKS) {
+    ticksSinceSnapshot = 0;
+    await persistSessions();
+  }
+}
+
+// The prices, candles and book of a room with a market of its own: replayed, scripted, simulated,
+// or from its feed for a Real-World room steered from the Admin console.
+function stepRoomPrices(room, random) {
+  const members = roomMembers(room);
+  const { difficulty, market, priceProvider } = room;
+  const prices = { ...market.prices };
+  const replayed = room.replay ? stepReplay(room) : {};
+  const live = difficulty === 'Real-World' && Boolean(priceFeeds[priceProvider]);
+  if (room.scenario) fireScenarioEvents(room);
+  assets.forEach((asset) => {
+    if (!prices[asset]) return;
+    if (replayed[asset]) {
+      prices[asset] = replayed[asset];
+      return;
+    }
+    const current = prices[asset];
+    const scripted = interventionPrice(market, asset, current);
+    let nextPrice = current;
+    if (asset === 'USD') {
+      nextPrice = 1;
+    } else if (scripted !== null) {
+      nextPrice = scripted;
+    } else if (fxCurrencies.includes(asset)) {
+      nextPrice = stepFx(current, market.fxRates[asset], random);
+    } else if (difficulty === 'Real-World') {
+      // Without a fresh quote anywhere along the fallback chain the price holds until one comes back.
+      const quote = live ? feedQuote(priceProvider, asset) : null;
+      if (quote) nextPrice = quote.price;
+    } else {
+      const bias = members.reduce(
+        (acc, member) =>
+          acc + member.positions.reduce((sum, p) => (p.symbol === asset ? sum + (p.side === 'long' ? -0.002 : 0.002) : sum), 0),
+        0
+      );
+      const ratio = stepPattern(market, asset, difficulty, -Math.sign(bias));
+      const simulated =
+        ratio === null ? applyDifficultyDrift(current, difficulty, bias, random) : current * ratio * (1 + bias);
+      // The Admin console can damp or amplify the simulated move.
+      nextPrice = current + (simulated - current) * (market.interventions.volatility[asset] ?? 1);
+    }
+    nextPrice = Math.max(0.0001, nextPrice);
+    prices[asset] = roundPrice(nextPrice);
+    updateCandles(market, asset, prices[asset], syntheticVolume(current, prices[asset], random));
+  });
+  market.prices = prices;
+  if (live) market.feed = roomFeedState(priceProvider);
+  assets.forEach((asset) => {
+    const closes = market.closes[asset] || [];
+    closes.push(prices[asset]);
+    if (closes.length > CLOSE_TRAIL_LENGTH) closes.shift();
+    market.closes[asset] = closes;
+  });
+  replenishOrderBook(market.orderBook, prices, market.fees.spread, random);
+}
+
+// One tick of a running room: ends the round when it is due, otherwise moves the game clock,
+// the prices, the book and the bots on, and settles every member's orders. Live games and
+// re-simulations of saved ones go through the same step.
+function stepRoom(room) {
+  const members = roomMembers(room);
+  const { difficulty, market } = room;
+  // The step that ends a round counts too, so an action taken between rounds is recorded
+  // after it and never lands in the round before.
+  market.tick += 1;
+  // A replay that reaches the end of its range ends the round early, and so does a scenario
+  // every member has already passed or failed.
+  if (market.clock >= room.round.endsAt || replayFinished(room) || (room.scenario && scenarioResolved(room))) {
+    endRound(room);
+    members.forEach((member) => {
+      const socket = emitToMember(member, 'round_ended', roundState(room, member).results);
+      if (socket) emitSession(socket, member);
+    });
+    return;
+  }
+  market.clock += TICK_MS;
+  const random = marketRandom(market);
+  // Real-World rooms follow the live reference rates; the others simulate around their own.
+  if (difficulty === 'Real-World') market.fxRates = { ...fxRates };
+  if (market.feedMarket) {
+    // The feed's market has already moved this tick: the room's members and bots trade in it.
+    market.feed = feedMarkets.get(market.feedMarket).feed;
+  } else {
+    stepRoomPrices(room, random);
+  }
+  applyInjectedLiquidity(market);
+  updateBots(room);
+  const accounts = members.concat(room.bots);
+  market.funding = {
+    rates: fundingRates(accounts, market),
+    nextAt: market.funding?.nextAt || market.clock + FUNDING_INTERVAL_MS,
+  };
+  if (market.clock >= market.funding.nextAt) {
+    settleFunding(accounts, market);
+    market.funding.nextAt = market.clock + FUNDING_INTERVAL_MS;
+  }
+  // Computed once for the room, on the first member with somewhere to send it; each member's
+  // update only adds their book and account.
+  let shared = null;
+  members.forEach((session) => {
+    // Resting orders run before liquidations so a stop-loss gets a chance to fire first.
+    const orderEvents = evaluateOrders(session, market);
+    markToMarket(session, market);
+    updateObjectives(session, room);
+    // Alerts and margin calls wait for a connected member rather than firing into the void.
+    if (session.standIn || (!session.socketId && !apiStreams.has(session.id))) return;
+    const alertHits = checkAlerts(session, market);
+    const marginCalls = checkMarginCalls(session, market);
+    shared = shared || sharedMarketView(room);
+    emitToMember(session, 'market_update', marketUpdate(session, room, shared));
+    orderEvents.forEach((event) => emitToMember(session, 'order_event', event));
+    alertHits.forEach((hit) => emitToMember(session, 'alert_triggered', hit));
+    marginCalls.forEach((call) => emitToMember(session, 'margin_call', call));
+  });
+  accounts.forEach((account) => sampleEquity(account, market));
+}
+
+// Ledger export for retros: /history?token=<session token>&format=csv|json, with the same
+// symbol / type / from / to filters as get_history but no page limit.
+app.get('/history', (req, res) => {
+  const session = sessionForToken(req.get('x-session-token') || req.query.token);
+  if (!session) {
+    res.status(404).json(fail('SESSION_NOT_FOUND'));
+    return;
+  }
+  const entries = filterLedger(session, req.query);
+  const filename = `cryptycoon-${session.playerName.replace(/[^\w-]+/g, '_')}-history`;
+  if (req.query.format === 'csv') {
+    res.attachment(`${filename}.csv`).type('text/csv').send(ledgerCsv(entries));
+    return;
+  }
+  res.attachment(`${filename}.json`).json({ playerName: session.playerName, entries });
+});
+
+// Health of the live price feeds: status, data age, failures and when a paused feed is retried.
+app.get('/price-feeds', (_req, res) => res.json(priceFeedReport()));
+
+// A saved game played again for the replay viewer, by the gameId a room or a hall of fame entry gives.
+app.get('/games/:id', async (req, res) => {
+  const game = await loadGameRecord(req.params.id);
+  if (!game) {
+    res.status(404).json(fail('GAME_NOT_FOUND'));
+    return;
+  }
+  res.json(gameReplay(game));
+});
+
+// All-time results, best realized PnL first: /hall-of-fame?difficulty=&mode=&since=&seed=&limit=.
+app.get('/hall-of-fame', (req, res) => {
+  const records = hallOfFameRecords(req.query);
+  res.json({
+    total: records.length,
+    results: records
+      .slice()
+      .sort((a, b) => b.realizedPnl - a.realizedPnl)
+      .slice(0, hallOfFameLimit(req.query.limit)),
+  });
+});
+
+// Lifetime stats per player, on the same filters; `since` turns it into a weekly table.
+app.get('/hall-of-fame/players', (req, res) => {
+  const profiles = playerProfiles(hallOfFameRecords(req.query));
+  res.json({ total: profiles.length, players: profiles.slice(0, hallOfFameLimit(req.query.limit)) });
+});
+
+app.get('/hall-of-fame/players/:name', (req, res) => {
+  const key = profileKey(req.params.name);
+  const records = hallOfFameRecords(req.query).filter((record) => profileKey(record.playerName) === key);
+  if (!records.length) {
+    res.status(404).json(fail('PLAYER_NOT_FOUND'));
+    return;
+  }
+  res.json({
+    profile: playerProfiles(records)[0],
+    results: records.slice().sort((a, b) => b.endedAt - a.endedAt).slice(0, hallOfFameLimit(req.query.limit)),
+  });
+});
+
+// Trading API for algorithmic clients, on the same market and leaderboard as the UI.
+// Keys come from POST /api/v1/sessions and travel in X-API-Key or Authorization: Bearer.
+const api = express.Router();
+api.use(express.json({ limit: '32kb' }));
+
+const apiErrorStatuses = {
+  INVALID_PAYLOAD: 400,
+  INVALID_FIELD: 400,
+  LEVERAGE_TOO_HIGH: 400,
+  INVALID_API_KEY: 401,
+  NOT_HOST: 403,
+  ROOM_NOT_FOUND: 404,
+  POSITION_NOT_FOUND: 404,
+  ORDER_NOT_FOUND: 404,
+  GAME_NOT_STARTED: 409,
+  ROUND_OVER: 409,
+  RATE_LIMITED: 429,
+};
+
+function apiKeyFrom(headers) {
+  const bearer = /^Bearer\s+(\S+)$/i.exec(headers.authorization || '');
+  return headers['x-api-key'] || bearer?.[1];
+}
+
+function sendApiReply(res, reply, status = 200) {
+  res.status(reply.code ? apiErrorStatuses[reply.code] || 422 : status).json(reply);
+}
+
+function rejectIfRateLimited(res, id) {
+  const quota = consumeApiQuota(id);
+  res.set({
+    'X-RateLimit-Limit': String(quota.limit),
+    'X-RateLimit-Remaining': String(quota.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(quota.resetAt / 1000)),
+  });
+  if (!quota.limited) return false;
+  const failure = rateLimitFailure(quota);
+  res.set('Retry-After', String(Math.ceil(failure.retryAfterMs / 1000)));
+  sendApiReply(res, failure);
+  return true;
+}
+
+// Query strings only carry text: numeric fields are parsed against the command's schema.
+function queryPayload(event, query) {
+  const fields = protocol.events[event];
+  const payload = {};
+  Object.entries(query).forEach(([name, value]) => {
+    const type = fields[name]?.type;
+    payload[name] = (type === 'number' || type === 'integer') && value !== '' ? Number(value) : value;
+  });
+  return payload;
+}
+
+// Opens a session for a script: a private game started right away, or a seat in a public
+// room by its code (the host starts it once every member, scripts included, is ready).
+api.post('/sessions', (req, res) => {
+  if (rejectIfRateLimited(res, `ip:${req.ip}`)) return;
+  const payload = req.body ?? {};
+  const joining = payload.roomCode !== undefined;
+  const problem = joining
+    ? validatePayload('join_room', { playerName: payload.playerName, code: payload.roomCode })
+    : validatePayload('start_game', payload);
+  if (problem) {
+    sendApiReply(res, problem);
+    return;
+  }
+  const room = joining ? publicRoomByCode(payload.roomCode) : createRoom(payload, { isPrivate: true });
+  if (!room) {
+    sendApiReply(res, fail('ROOM_NOT_FOUND'));
+    return;
+  }
+  const session = createSession(payload, room);
+  session.apiKey = generateApiKey();
+  touchApiSession(session);
+  if (joining) {
+    emitRoomEvent(room, { type: 'join', name: session.playerName });
+    emitRoomUpdate(room);
+  } else {
+    startRoomGame(room);
+  }
+  logNetwork('api', 'API session created', { sessionId: session.id, roomCode: room.code });
+  res.status(201).json({
+    apiKey: session.apiKey,
+    sessionToken: session.token,
+    playerId: session.id,
+    roomCode: room.code,
+    room: roomState(room),
+  });
+});
+
+api.use((req, res, next) => {
+  const session = sessionForApiKey(apiKeyFrom(req.headers));
+  if (!session) {
+    sendApiReply(res, fail('INVALID_API_KEY'));
+    return;
+  }
+  if (rejectIfRateLimited(res, session.apiKey)) return;
+  touchApiSession(session);
+  res.locals.session = session;
+  next();
+});
+
+function apiRoute(event, payloadOf) {
+  return (req, res) => sendApiReply(res, runApiCommand(res.locals.session, event, payloadOf(req)));
+}
+
+api.get('/account', apiRoute('get_account', () => ({})));
+api.get('/market', apiRoute('get_market', () => ({})));
+api.get('/orderbook', apiRoute('get_order_book', (req) => queryPayload('get_order_book', req.query)));
+api.get('/candles', apiRoute('get_candles', (req) => queryPayload('get_candles', req.query)));
+api.get('/history', apiRoute('get_history', (req) => queryPayload('get_history', req.query)));
+api.get('/leaderboard', apiRoute('get_leaderboard', () => ({})));
+api.get('/analytics', apiRoute('get_analytics', (req) => queryPayload('get_analytics', req.query)));
+api.post('/ready', apiRoute('set_ready', (req) => req.body));
+api.post('/alerts', apiRoute('create_alert', (req) => req.body));
+api.delete('/alerts/:alertId', apiRoute('delete_alert', (req) => ({ alertId: req.params.alertId })));
+api.put('/margin-call', apiRoute('set_margin_call', (req) => req.body));
+api.post('/convert', apiRoute('convert', (req) => req.body));
+api.post('/transfers', apiRoute('transfer', (req) => req.body));
+api.post('/orders', apiRoute('place_order', (req) => req.body));
+api.patch('/orders/:orderId', apiRoute('amend_order', (req) => ({ ...req.body, orderId: req.params.orderId })));
+api.delete('/orders/:orderId', apiRoute('cancel_order', (req) => ({ orderId: req.params.orderId })));
+api.post('/positions/:positionId/close', apiRoute('close_position', (req) => ({ ...req.body, positionId: req.params.positionId })));
+api.post('/positions/:positionId/reduce', apiRoute('reduce_position', (req) => ({ ...req.body, positionId: req.params.positionId })));
+
+// Malformed JSON bodies land here from express.json(); Express needs all four arguments.
+api.use((error, req, res, next) => {
+  sendApiReply(res, fail('INVALID_PAYLOAD'));
+});
+
+app.use('/api/v1', api);
+
+// Plain WebSocket stream: the same pushes as Socket.IO as { event, data } frames, plus
+// { id, event, payload } requests answered with { id, event, data }.
+const streamServer = new WebSocketServer({ noServer: true, maxPayload: 64 * 1024 });
+
+function openStream(ws, session) {
+  const streams = apiStreams.get(session.id) || new Set();
+  streams.add(ws);
+  apiStreams.set(session.id, streams);
+  logNetwork('api', 'Stream opened', { sessionId: session.id, streams: streams.size });
+  sendStream(ws, { event: 'session_update', data: sanitizeSession(session) });
+  ws.on('message', (raw) => {
+    let message;
+    try {
+      message = JSON.parse(raw);
+    } catch (error) {
+      message = null;
+    }
+    const id = message?.id ?? null;
+    if (!message || typeof message !== 'object' || typeof message.event !== 'string') {
+      sendStream(ws, { id, event: null, data: fail('INVALID_PAYLOAD') });
+      return;
+    }
+    const quota = consumeApiQuota(session.apiKey);
+    const data = quota.limited ? rateLimitFailure(quota) : runApiCommand(session, message.event, message.payload);
+    sendStream(ws, { id, event: message.event, data });
+  });
+  ws.on('close', () => {
+    streams.delete(ws);
+    if (!streams.size) apiStreams.delete(session.id);
+    touchApiSession(session);
+    logNetwork('api', 'Stream closed', { sessionId: session.id });
+  });
+}
+
+// Socket.IO answers upgrades on its own path; this one only takes the stream's.
+httpServer.on('upgrade', (req, socket, head) => {
+  const url = new URL(req.url, 'http://localhost');
+  if (url.pathname !== API_STREAM_PATH) return;
+  const session = sessionForApiKey(url.searchParams.get('apiKey') || apiKeyFrom(req.headers));
+  if (!session) {
+    socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+    return;
+  }
+  streamServer.handleUpgrade(req, socket, head, (ws) => openStream(ws, session));
+});
+
+// Socket.IO clients may authenticate with { auth: { apiKey } } instead of resuming a token.
+io.use((socket, next) => {
+  const apiKey = socket.handshake.auth?.apiKey;
+  if (!apiKey) {
+    next();
+    return;
+  }
+  if (!sessionForApiKey(apiKey)) {
+    next(new Error(protocol.errors.INVALID_API_KEY));
+    return;
+  }
+  socket.data.apiKey = apiKey;
+  next();
+});
+
+io.on('connection', (socket) => {
+  logNetwork('socket', 'Client connected', {
+    socketId: socket.id,
+    address: socket.handshake?.address,
+    headers: socket.handshake?.headers,
+  });
+
+  if (socket.data.apiKey) {
+    const session = sessionForApiKey(socket.data.apiKey);
+    bindSocket(session, socket);
+    emitSession(socket, session);
+    // Key holders share their quota with REST and the stream; a limited event is dropped.
+    socket.use(([event, ...args], next) => {
+      const quota = consumeApiQuota(socket.data.apiKey);
+      if (!quota.limited) {
+        next();
+        return;
+      }
+      logNetwork('socket', `${event} rate limited`, { socketId: socket.id });
+      const callback = args[args.length - 1];
+      if (typeof callback === 'function') callback(rateLimitFailure(quota));
+    });
+  }
+
+  socket.on('start_game', (payload, callback) => {
+    logNetwork('socket', 'start_game received', { socketId: socket.id, payload });
+    if (rejectInvalid(socket, 'start_game', payload, callback)) return;
+    const previous = sessionForSocket(socket);
+    if (previous) deleteSession(previous);
+    const room = createRoom(payload, { isPrivate: true });
+    const session = createSession(payload, room);
+    bindSocket(session, socket);
+    startRoomGame(room);
+    emitSession(socket, session);
+    if (callback) callback({ started: true });
+  });
+
+  socket.on('create_room', (payload, callback) => {
+    logNetwork('socket', 'create_room received', { socketId: socket.id, payload });
+    if (rejectInvalid(socket, 'create_room', payload, callback)) return;
+    const previous = sessionForSocket(socket);
+    if (previous) deleteSession(previous);
+    const room = createRoom(payload);
+    const session = createSession(payload, room);
+    bindSocket(session, socket);
+    emitSession(socket, session);
+    if (callback) callback({ code: room.code });
+  });
+
+  socket.on('join_room', (payload, callback) => {
+    logNetwork('socket', 'join_room received', { socketId: socket.id, payload });
+    if (rejectInvalid(socket, 'join_room', payload, callback)) return;
+    const room = publicRoomByCode(payload?.code);
+    if (!room) {
+      if (callback) callback(fail('ROOM_NOT_FOUND'));
+      return;
+    }
+    const previous = sessionForSocket(socket);
+    if (previous) deleteSession(previous);
+    const session = createSession(payload, room);
+    // Joining mid-game is allowed: the newcomer starts from the mode's balance on the live market.
+    bindSocket(session, socket);
+    emitRoomEvent(room, { type: 'join', name: session.playerName });
+    emitRoomUpdate(room);
+    emitSession(socket, session);
+    if (callback) callback({ code: room.code });
+  });
+
+  socket.on('set_ready', (payload, callback) => {
+    logNetwork('socket', 'set_ready received', { socketId: socket.id, payload });
+    if (rejectInvalid(socket, 'set_ready', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session) return;
+    const room = roomFor(session);
+    room.ready[session.id] = Boolean(payload?.ready);
+    emitRoomUpdate(room);
+    if (callback) callback({ ready: room.ready[session.id] });
+  });
+
+  socket.on('update_room_settings', (payload, callback) => {
+    logNetwork('socket', 'update_room_settings received', { socketId: socket.id, payload });
+    if (rejectInvalid(socket, 'update_room_settings', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session) return;
+    const room = roomFor(session);
+    if (rejectUnlessHost(session, room, callback)) return;
+    if (room.status !== 'lobby') {
+      if (callback) callback(fail('GAME_ALREADY_STARTED'));
+      return;
+    }
+    Object.assign(room, roomSettings(payload, room));
+    // Changing the rules invalidates everyone's ready check.
+    Object.keys(room.ready).forEach((id) => {
+      room.ready[id] = false;
+    });
+    emitRoomUpdate(room);
+    if (callback) callback(roomState(room));
+  });
+
+  socket.on('start_room', (payload, callback) => {
+    logNetwork('socket', 'start_room received', { socketId: socket.id });
+    if (rejectInvalid(socket, 'start_room', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session) return;
+    const room = roomFor(session);
+    if (rejectUnlessHost(session, room, callback)) return;
+    if (room.status !== 'lobby') {
+      if (callback) callback(fail('GAME_ALREADY_STARTED'));
+      return;
+    }
+    if (!room.memberIds.every((id) => room.ready[id])) {
+      if (callback) callback(fail('NOT_EVERYONE_READY'));
+      return;
+    }
+    startRoomGame(room);
+    emitRoomUpdate(room);
+    emitSessionToRoom(room);
+    if (callback) callback({ round: room.round.number });
+  });
+
+  socket.on('get_candles', (payload, callback) => {
+    logNetwork('socket', 'get_candles received', { socketId: socket.id, payload });
+    if (rejectInvalid(socket, 'get_candles', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session || !callback) return;
+    const room = roomFor(session);
+    if (!room.market) {
+      callback(fail('GAME_NOT_STARTED'));
+      return;
+    }
+    callback(candlePage(room.market, payload));
+  });
+
+  socket.on('get_history', (payload, callback) => {
+    logNetwork('socket', 'get_history received', { socketId: socket.id, payload });
+    if (rejectInvalid(socket, 'get_history', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session || !callback) return;
+    callback(ledgerPage(session, payload));
+  });
+
+  socket.on('get_analytics', (payload, callback) => {
+    logNetwork('socket', 'get_analytics received', { socketId: socket.id, payload });
+    if (rejectInvalid(socket, 'get_analytics', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session || !callback) return;
+    callback(analyticsFor(session, roomFor(session), payload?.compareWith));
+  });
+
+  socket.on('subscribe', (payload, callback) => {
+    logNetwork('socket', 'subscribe received', { socketId: socket.id, payload });
+    if (rejectInvalid(socket, 'subscribe', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session) return;
+    const result = subscribeMarket(session, payload?.symbols);
+    if (callback) callback(result);
+  });
+
+  socket.on('market_resync', (payload, callback) => {
+    logNetwork('socket', 'market_resync received', { socketId: socket.id });
+    if (rejectInvalid(socket, 'market_resync', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session || !callback) return;
+    callback(marketResync(session, roomFor(session)));
+  });
+
+  socket.on('list_replay_datasets', (payload, callback) => {
+    logNetwork('socket', 'list_replay_datasets received', { socketId: socket.id });
+    if (rejectInvalid(socket, 'list_replay_datasets', payload, callback)) return;
+    if (callback) callback({ datasets: listReplayDatasets(), speeds: replaySpeeds });
+  });
+
+  Object.entries(adminCommands).forEach(([event, command]) => {
+    socket.on(event, (payload, callback) => {
+      logNetwork('socket', `${event} received`, { socketId: socket.id, payload });
+      if (rejectInvalid(socket, event, payload, callback)) return;
+      const session = sessionForSocket(socket);
+      if (!session) return;
+      if (rejectIfRoundOver(session, callback)) return;
+      const room = roomFor(session);
+      if (rejectUnlessAdmin(session, room, callback)) return;
+      recordAction(room, session, event, payload);
+      const result = command(room, payload, session);
+      // A steered market says nothing about the players: the game leaves the rankings.
+      if (!result.code && !room.game.unranked) {
+        room.game.unranked = true;
+        emitRoomUpdate(room);
+      }
+      if (callback) callback(result.code ? result : { entry: logAdminAction(room, session, event, result) });
+    });
+  });
+
+  // The console's journal stays readable between rounds, for the debrief.
+  socket.on('get_admin_log', (payload, callback) => {
+    logNetwork('socket', 'get_admin_log received', { socketId: socket.id });
+    if (rejectInvalid(socket, 'get_admin_log', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session) return;
+    const room = roomFor(session);
+    if (rejectUnlessAdmin(session, room, callback)) return;
+    if (callback) callback({ entries: room.adminLog || [] });
+  });
+
+  socket.on('list_scenarios', (payload, callback) => {
+    logNetwork('socket', 'list_scenarios received', { socketId: socket.id });
+    if (rejectInvalid(socket, 'list_scenarios', payload, callback)) return;
+    if (callback) callback({ scenarios: listScenarios().map(scenarioSummary) });
+  });
+
+  socket.on('resume_session', (payload, callback) => {
+    logNetwork('socket', 'resume_session received', { socketId: socket.id });
+    if (rejectInvalid(socket, 'resume_session', payload, callback)) return;
+    const session = sessionForToken(payload?.token);
+    if (!session) {
+      if (callback) callback(fail('SESSION_NOT_FOUND'));
+      return;
+    }
+    bindSocket(session, socket);
+    emitSession(socket, session);
+    if (callback) callback({ resumed: true });
+  });
+
+  socket.on('leave_session', (payload, callback) => {
+    logNetwork('socket', 'leave_session received', { socketId: socket.id });
+    if (rejectInvalid(socket, 'leave_session', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (session) deleteSession(session);
+    socket.data.sessionId = null;
+    if (callback) callback({ left: true });
+  });
+
+  socket.on('place_order', (order, callback) => {
+    logNetwork('socket', 'place_order received', { socketId: socket.id, order });
+    if (rejectInvalid(socket, 'place_order', order, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session) return;
+    if (rejectIfRoundOver(session, callback)) return;
+    const room = roomFor(session);
+    recordAction(room, session, 'place_order', order);
+    const result = submitOrder(session, room.market, order);
+    const orderEvents = result.resting ? evaluateOrders(session, room.market) : [];
+    markAfterAction(room, session, 'place_order');
+    emitSession(socket, session);
+    if (callback) callback(result);
+    emitOrderEvents(socket, orderEvents);
+    flushMarketEvents(room);
+  });
+
+  socket.on('cancel_order', (payload, callback) => {
+    logNetwork('socket', 'cancel_order received', { socketId: socket.id, payload });
+    if (rejectInvalid(socket, 'cancel_order', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session) return;
+    if (rejectIfRoundOver(session, callback)) return;
+    const room = roomFor(session);
+    recordAction(room, session, 'cancel_order', payload);
+    const result = cancelOrder(session, payload?.orderId);
+    markAfterAction(room, session, 'cancel_order');
+    emitSession(socket, session);
+    if (callback) callback(result);
+  });
+
+  socket.on('amend_order', (payload, callback) => {
+    logNetwork('socket', 'amend_order received', { socketId: socket.id, payload });
+    if (rejectInvalid(socket, 'amend_order', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session) return;
+    if (rejectIfRoundOver(session, callback)) return;
+    const room = roomFor(session);
+    recordAction(room, session, 'amend_order', payload);
+    const result = amendOrder(session, payload);
+    markAfterAction(room, session, 'amend_order');
+    emitSession(socket, session);
+    if (callback) callback(result);
+  });
+
+  socket.on('set_position_tpsl', (payload, callback) => {
+    logNetwork('socket', 'set_position_tpsl received', { socketId: socket.id, payload });
+    if (rejectInvalid(socket, 'set_position_tpsl', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session) return;
+    if (rejectIfRoundOver(session, callback)) return;
+    const room = roomFor(session);
+    recordAction(room, session, 'set_position_tpsl', payload);
+    const result = protectPosition(session, room.market, payload);
+    markAfterAction(room, session, 'set_position_tpsl');
+    emitSession(socket, session);
+    if (callback) callback(result);
+  });
+
+  socket.on('adjust_margin', (payload, callback) => {
+    logNetwork('socket', 'adjust_margin received', { socketId: socket.id, payload });
+    if (rejectInvalid(socket, 'adjust_margin', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session) return;
+    if (rejectIfRoundOver(session, callback)) return;
+    const room = roomFor(session);
+    recordAction(room, session, 'adjust_margin', payload);
+    const result = adjustMargin(session, room.market, payload?.positionId, payload?.amount);
+    markAfterAction(room, session, 'adjust_margin');
+    emitSession(socket, session);
+    if (callback) callback(result);
+  });
+
+  socket.on('close_position', (payload, callback) => {
+    logNetwork('socket', 'close_position received', { socketId: socket.id, payload });
+    if (rejectInvalid(socket, 'close_position', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session) return;
+    if (rejectIfRoundOver(session, callback)) return;
+    const room = roomFor(session);
+    recordAction(room, session, 'close_position', payload);
+    const result = closePosition(session, room.market, payload?.positionId, payload?.fraction ?? 1);
+    markAfterAction(room, session, 'close_position');
+    emitSession(socket, session);
+    if (callback) callback(result);
+    flushMarketEvents(room);
+  });
+
+  socket.on('reduce_position', (payload, callback) => {
+    logNetwork('socket', 'reduce_position received', { socketId: socket.id, payload });
+    if (rejectInvalid(socket, 'reduce_position', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session) return;
+    if (rejectIfRoundOver(session, callback)) return;
+    const room = roomFor(session);
+    recordAction(room, session, 'reduce_position', payload);
+    const result = reducePositionBy(session, room.market, payload?.positionId, Number(payload?.quantity));
+    markAfterAction(room, session, 'reduce_position');
+    emitSession(socket, session);
+    if (callback) callback(result);
+    flushMarketEvents(room);
+  });
+
+  socket.on('continue_round', (payload, callback) => {
+    logNetwork('socket', 'continue_round received', { socketId: socket.id });
+    if (rejectInvalid(socket, 'continue_round', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session) return;
+    const room = roomFor(session);
+    if (rejectUnlessHost(session, room, callback)) return;
+    if (room.round?.status !== 'ended') {
+      if (callback) callback(fail('ROUND_STILL_RUNNING'));
+      return;
+    }
+    if (replayFinished(room)) {
+      if (callback) callback(fail('REPLAY_FINISHED'));
+      return;
+    }
+    // A scenario is a single round: replaying it goes through restart_round.
+    if (room.scenario) {
+      if (callback) callback(fail('SCENARIO_FINISHED'));
+      return;
+    }
+    recordAction(room, session, 'continue_round');
+    startRound(room, room.round.number + 1);
+    markAfterAction(room, session, 'continue_round');
+    emitSessionToRoom(room);
+    if (callback) callback({ round: room.round.number });
+  });
+
+  socket.on('restart_round', (payload, callback) => {
+    logNetwork('socket', 'restart_round received', { socketId: socket.id });
+    if (rejectInvalid(socket, 'restart_round', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session) return;
+    const room = roomFor(session);
+    if (rejectUnlessHost(session, room, callback)) return;
+    // Only a finished round can be replayed from scratch: the lobby goes through start_room and
+    // its ready check, and a running round plays out first.
+    if (room.round?.status !== 'ended') {
+      if (callback) callback(fail(room.round ? 'ROUND_STILL_RUNNING' : 'GAME_NOT_STARTED'));
+      return;
+    }
+    startRoomGame(room);
+    emitSessionToRoom(room);
+    if (callback) callback({ round: room.round.number });
+  });
+
+  socket.on('create_alert', (payload, callback) => {
+    logNetwork('socket', 'create_alert received', { socketId: socket.id, payload });
+    if (rejectInvalid(socket, 'create_alert', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session) return;
+    const room = roomFor(session);
+    const result = room.market ? createAlert(session, room.market, payload) : fail('GAME_NOT_STARTED');
+    emitSession(socket, session);
+    if (callback) callback(result);
+  });
+
+  socket.on('delete_alert', (payload, callback) => {
+    logNetwork('socket', 'delete_alert received', { socketId: socket.id, payload });
+    if (rejectInvalid(socket, 'delete_alert', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session) return;
+    const result = deleteAlert(session, payload?.alertId);
+    emitSession(socket, session);
+    if (callback) callback(result);
+  });
+
+  socket.on('set_margin_call', (payload, callback) => {
+    logNetwork('socket', 'set_margin_call received', { socketId: socket.id, payload });
+    if (rejectInvalid(socket, 'set_margin_call', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session) return;
+    session.marginCallPct = payload.distancePct;
+    emitSession(socket, session);
+    if (callback) callback({ distancePct: session.marginCallPct });
+  });
+
+  socket.on('convert', (payload, callback) => {
+    logNetwork('socket', 'convert received', { socketId: socket.id, payload });
+    if (rejectInvalid(socket, 'convert', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session) return;
+    if (rejectIfRoundOver(session, callback)) return;
+    const room = roomFor(session);
+    if (!payload.preview) recordAction(room, session, 'convert', payload);
+    const result = room.market ? convertHoldings(session, room.market, payload) : fail('GAME_NOT_STARTED');
+    if (!payload.preview) {
+      markAfterAction(room, session, 'convert');
+      emitSession(socket, session);
+    }
+    if (callback) callback(result);
+  });
+
+  socket.on('transfer', (payload, callback) => {
+    logNetwork('socket', 'transfer received', { socketId: socket.id, payload });
+    if (rejectInvalid(socket, 'transfer', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session) return;
+    if (rejectIfRoundOver(session, callback)) return;
+    const room = roomFor(session);
+    recordAction(room, session, 'transfer', payload);
+    const result = room.market ? transferFunds(session, room.market, payload) : fail('GAME_NOT_STARTED');
+    markAfterAction(room, session, 'transfer');
+    emitSession(socket, session);
+    if (callback) callback(result);
+  });
+
+  socket.on('claim_faucet', (payload, callback) => {
+    logNetwork('socket', 'claim_faucet received', { socketId: socket.id });
+    if (rejectInvalid(socket, 'claim_faucet', payload, callback)) return;
+    const session = sessionForSocket(socket);
+    if (!session) return;
+    const room = roomFor(session);
+    recordAction(room, session, 'claim_faucet');
+    const result = claimFaucet(session);
+    markAfterAction(room, session, 'claim_faucet');
+    emitSession(socket, session);
+    if (callback) callback(result);
+  });
+
+  socket.on('disconnect', () => {
+    logNetwork('socket', 'Client disconnected', { socketId: socket.id });
+    const session = sessionForSocket(socket);
+    if (session && session.socketId === socket.id) {
+      session.socketId = null;
+      session.disconnectedAt = Date.now();
+      const room = roomFor(session);
+      if (room) emitRoomUpdate(room);
+    }
+  });
+});
+
+// Run directly, this file is the server; required by the tests, it only exposes the engine below.
+if (require.main === module) {
+  restoreSessions();
+  loadHallOfFame();
+
+  ['SIGINT', 'SIGTERM'].forEach((signal) => {
+    process.on(signal, () => {
+      persistSessionsSync();
+      logNetwork('server', `Sessions saved, shutting down (${signal})`, { sessions: sessions.size });
+      // Game actions still being appended are let through first.
+      flushGameRecords().then(() => process.exit(0));
+    });
+  });
+
+  setInterval(() => {
+    tick().catch((error) => logRefreshError('Tick execution failed', { error: error?.message }));
+  }, TICK_MS);
+
+  httpServer.listen(PORT, () => {
+    logNetwork('server', `Server listening on port ${PORT}`, { port: PORT });
+  });
+}
+
+module.exports = {
+  createRoom,
+  createSession,
+  startRoomGame,
+  stepRoom,
+  stepFeedMarkets,
+  validatePayload,
+  runApiCommand,
+  markToMarket,
+  settleFunding,
+  sharedMarketView,
+  marketUpdate,
+  loadGameRecord,
+  flushGameRecords,
+  simulateGame,
+};
@@ -0,0 +1,128 @@
+// Local stand-in for the Binance and CoinGecko price APIs, so Real-World rooms can be played and
+// tested offline. Start it with `npm run mock-exchange`, then run the game server with
+// BINANCE_API_URL=http://localhost:4100 COINGECKO_API_URL=http://localhost:4100.
+//
+// Prices random-walk every second from plausible levels. Faults can be injected to exercise the
+// server's fallbacks: MOCK_FAILURE_RATE (0-1) answers that share of requests with a 503,
+// MOCK_LATENCY_MS delays every answer, MOCK_RATE_LIMIT caps requests per minute with a 429, and
+// POST /mock/outage?seconds=60 takes both APIs down for a while (&api=binance or coingecko for
+// one of them; seconds=0 brings them back).
+const express = require('express');
+
+const PORT = process.env.MOCK_EXCHANGE_PORT || 4100;
+const FAILURE_RATE = Number(process.env.MOCK_FAILURE_RATE) || 0;
+const LATENCY_MS = Number(process.env.MOCK_LATENCY_MS) || 0;
+const RATE_LIMIT = Number(process.env.MOCK_RATE_LIMIT) || 0;
+const STEP_MS = 1000;
+const VOLATILITY = 0.002;
+
+// The symbols and ids the server's feeds ask for.
+const markets = [
+  { asset: 'BTC', price: 67000, symbol: 'BTCUSDT', id: 'bitcoin' },
+  { asset: 'ETH', price: 3100, symbol: 'ETHUSDT', id: 'ethereum' },
+  { asset: 'ICP', price: 12, symbol: 'ICPUSDT', id: 'internet-computer' },
+  { asset: 'XCN', price: 0.0009, id: 'chain-2' },
+  { asset: 'USDT', price: 1, id: 'tether' },
+  { asset: 'DASH', price: 32, symbol: 'DASHUSDT', id: 'dash' },
+  { asset: 'NEAR', price: 5, symbol: 'NEARUSDT', id: 'near' },
+  { asset: 'SOL', price: 145, symbol: 'SOLUSDT', id: 'solana' },
+];
+
+// Per API, when its outage ends.
+const outages = { binance: 0, coingecko: 0 };
+let windowStart = Date.now();
+let windowRequests = 0;
+
+function log(message, meta) {
+  console.log(`[${new Date().toISOString()}][mock-exchange] ${message}`, meta || '');
+}
+
+function formatPrice(value) {
+  return value < 1 ? value.toFixed(8) : value.toFixed(2);
+}
+
+setInterval(() => {
+  markets.forEach((market) => {
+    // The stablecoin stays pegged.
+    if (market.asset === 'USDT') return;
+    market.price = Math.max(market.price * (1 + (Math.random() - 0.5) * 2 * VOLATILITY), 1e-8);
+  });
+}, STEP_MS);
+
+const app = express();
+
+app.post('/mock/outage', (req, res) => {
+  const seconds = Math.max(Number(req.query.seconds) || 0, 0);
+  const apis = outages[req.query.api] !== undefined ? [req.query.api] : Object.keys(outages);
+  apis.forEach((api) => {
+    outages[api] = Date.now() + seconds * 1000;
+  });
+  log(seconds ? 'Outage started' : 'Outage cleared', { apis, seconds });
+  res.json({ apis, until: seconds ? Date.now() + seconds * 1000 : null });
+});
+
+// Faults apply to the exchange APIs only, never to the outage switch above.
+app.use('/api', (req, res, next) => {
+  const now = Date.now();
+  if (now - windowStart >= 60_000) {
+    windowStart = now;
+    windowRequests = 0;
+  }
+  windowRequests += 1;
+  if (RATE_LIMIT && windowRequests > RATE_LIMIT) {
+    res.set('Retry-After', String(Math.ceil((windowStart + 60_000 - now) / 1000)));
+    res.status(429).json({ code: -1003, msg: 'Too many requests.' });
+    return;
+  }
+  const api = req.path.startsWith('/v3/simple') ? 'coingecko' : 'binance';
+  if (now < outages[api] || Math.random() < FAILURE_RATE) {
+    res.status(503).json({ code: -1001, msg: 'Service unavailable.' });
+    return;
+  }
+  setTimeout(next, LATENCY_MS);
+});
+
+// Binance: ?symbol=BTCUSDT for one ticker, ?symbols=["BTCUSDT","ETHUSDT"] for several, nothing for all.
+app.get('/api/v3/ticker/price', (req, res) => {
+  const listed = markets.filter((market) => market.symbol);
+  const ticker = (market) => ({ symbol: market.symbol, price: formatPrice(market.price) });
+  if (req.query.symbol) {
+    const market = listed.find((m) => m.symbol === req.query.symbol);
+    if (!market) {
+      res.status(400).json({ code: -1121, msg: 'Invalid symbol.' });
+      return;
+    }
+    res.json(ticker(market));
+    return;
+  }
+  let symbols = null;
+  try {
+    symbols = req.query.symbols ? JSON.parse(req.query.symbols) : null;
+  } catch (error) {
+    res.status(400).json({ code: -1100, msg: 'Illegal characters found in parameter symbols.' });
+    return;
+  }
+  const wanted = symbols ? listed.filter((market) => symbols.includes(market.symbol)) : listed;
+  if (symbols && wanted.length < symbols.length) {
+    res.status(400).json({ code: -1121, msg: 'Invalid symbol.' });
+    return;
+  }
+  res.json(wanted.map(ticker));
+});
+
+// CoinGecko: ?ids=bitcoin,ethereum&vs_currencies=usd. Unknown ids are left out, as upstream does.
+app.get('/api/v3/simple/price', (req, res) => {
+  const ids = String(req.query.ids || '').split(',');
+  const currencies = String(req.query.vs_currencies || '').split(',');
+  const quotes = {};
+  markets
+    .filter((market) => ids.includes(market.id))
+    .forEach((market) => {
+      quotes[market.id] = currencies.includes('usd') ? { usd: Number(formatPrice(market.price)) } : {};
+    });
+  res.json(quotes);
+});
+
+app.listen(PORT, () => {
+  log(`Listening on http://localhost:${PORT}`, { failureRate: FAILURE_RATE, latencyMs: LATENCY_MS, rateLimit: RATE_LIMIT });
+});
@@ -0,0 +1,48 @@
+// Loads the game engine for a test file without starting the server. Everything it saves goes
+// to a temporary DATA_DIR, removed when the file's process exits.
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cryptycoon-test-'));
+process.env.DATA_DIR = dataDir;
+process.on('exit', () => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+const engine = require('../index.js');
+
+// A solo game started right away, as start_game does it.
+function startGame(payload) {
+  const room = engine.createRoom(payload, { isPrivate: true });
+  const session = engine.createSession(payload, room);
+  engine.startRoomGame(room);
+  return { room, session };
+}
+
+// A seeded Medium game in `mode` with its starting balance in `wallet`: moved to derivatives,
+// as leveraged orders need, unless the test trades spot.
+function startTrading(mode = 'EZ-Mode', { wallet = 'derivatives' } = {}) {
+  const game = startGame({ playerName: 'Trader', difficulty: 'Medium', mode, seed: 'trading-test' });
+  if (wallet === 'derivatives') {
+    send(game.session, 'transfer', { currency: 'USD', amount: game.session.holdings.USD, to: 'derivatives' });
+  }
+  return game;
+}
+
+// Sends a command through the same path as the REST API and the stream, failing on a rejection.
+function send(session, event, payload) {
+  const result = engine.runApiCommand(session, event, payload);
+  if (result?.code) throw new Error(`${event} rejected: ${result.code}`);
+  return result;
+}
+
+// Steps a room to the end of its round. `onTick` runs before the first step and after every
+// step that leaves the round running, with the tick the market is at.
+function playRound(room, onTick = () => {}) {
+  onTick(room.market.tick);
+  while (room.round.status === 'running') {
+    engine.stepRoom(room);
+    if (room.round.status === 'running') onTick(room.market.tick);
+  }
+}
+
+module.exports = { ...engine, startGame, startTrading, send, playRound };
@@ -0,0 +1,36 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { startTrading, send } = require('./engine');
+
+test('takers pay the rate of the tier their traded volume reached', () => {
+  const { room, session } = startTrading('Whale');
+  const order = { base: 'BTC', quote: 'USD', leverage: 50, wallet: 'derivatives' };
+  const size = 600_000 / room.market.prices.BTC;
+  assert.equal(send(session, 'place_order', { ...order, side: 'buy', size }).feeRate, 0.0005);
+  assert.equal(send(session, 'place_order', { ...order, side: 'sell', size }).feeRate, 0.0005);
+  // Past 1M of volume the next fill is charged at the second tier.
+  assert.ok(session.volumeUsd >= 1_000_000);
+  assert.equal(send(session, 'place_order', { ...order, side: 'buy', size: 0.01 }).feeRate, 0.0004);
+});
+
+test('fees are booked in USD and in the ledger as charged', () => {
+  const { session } = startTrading();
+  const result = send(session, 'place_order', { base: 'ETH', quote: 'USD', side: 'buy', size: 1, leverage: 10, wallet: 'derivatives' });
+  assert.equal(result.liquidity, 'taker');
+  assert.equal(session.fees, result.fee);
+  assert.equal(session.ledger.at(-1).type, 'fee');
+  assert.equal(session.ledger.at(-1).amount, -result.fee);
+});
+
+test('a wallet short of the fee pays what it holds and only that is booked', () => {
+  const { room, session } = startTrading();
+  // Margin takes all but one cent of the wallet; the fee would be about two dollars.
+  const ask = room.market.orderBook.ETH.asks[0].price;
+  const size = ((session.derivatives.USD - 0.01) * 10) / ask;
+  const result = send(session, 'place_order', { base: 'ETH', quote: 'USD', side: 'buy', size, leverage: 10, wallet: 'derivatives' });
+  assert.equal(result.fee, 0.01);
+  assert.equal(session.derivatives.USD, 0);
+  assert.equal(session.fees, 0.01);
+  assert.equal(session.ledger.at(-1).amount, -0.01);
+});
@@ -0,0 +1,74 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { startTrading, send, markToMarket, settleFunding } = require('./engine');
+
+function open(session, order) {
+  send(session, 'place_order', { quote: 'USD', side: 'buy', wallet: 'derivatives', ...order });
+  return session.positions[session.positions.length - 1];
+}
+
+// Moves the mark and lets the engine settle the account, as a tick would.
+function markAt(room, session, symbol, price) {
+  room.market.prices[symbol] = price;
+  markToMarket(session, room.market);
+}
+
+test('an isolated position is liquidated at its liquidation price and loses only its margin', () => {
+  const { room, session } = startTrading();
+  const position = open(session, { base: 'ETH', size: 1, leverage: 10 });
+  const wallet = session.derivatives.USD;
+  markAt(room, session, 'ETH', position.liquidationPrice * 1.001);
+  assert.equal(session.positions.length, 1);
+  markAt(room, session, 'ETH', position.liquidationPrice * 0.999);
+  assert.equal(session.positions.length, 0);
+  assert.equal(session.liquidations, 1);
+  assert.equal(session.derivatives.USD, wallet);
+});
+
+test('bigger positions fall into higher maintenance tiers', () => {
+  const { room, session } = startTrading('Whale');
+  // Both at x100, so 1% of margin: the small one keeps 0.4% maintenance, the 2M one needs 2.5%.
+  const small = open(session, { base: 'ETH', size: 10, leverage: 100 });
+  assert.ok(small.liquidationPrice < small.entryPrice * 0.995);
+  open(session, { base: 'BTC', size: 2_000_000 / room.market.prices.BTC, leverage: 100 });
+  assert.equal(session.liquidations, 1);
+  assert.deepEqual(session.positions.map((p) => p.symbol), ['ETH']);
+});
+
+test('a cross breach takes every cross position down and leaves isolated ones', () => {
+  const { room, session } = startTrading();
+  open(session, { base: 'ETH', size: 0.5, leverage: 10, marginMode: 'cross' });
+  open(session, { base: 'SOL', size: 5, leverage: 10, marginMode: 'cross' });
+  open(session, { base: 'BTC', size: 0.002, leverage: 10 });
+  // ETH alone crashing drains the shared wallet, so SOL goes with it.
+  markAt(room, session, 'ETH', room.market.prices.ETH * 0.1);
+  assert.deepEqual(session.positions.map((p) => p.symbol), ['BTC']);
+  assert.equal(session.liquidations, 2);
+});
+
+test('funding an isolated margin cannot pay is booked only as far as the margin went', () => {
+  const { room, session } = startTrading();
+  const position = open(session, { base: 'ETH', size: 1, leverage: 10 });
+  const { margin } = position;
+  const realized = session.realizedPnl;
+  // A rate no margin can cover: the whole notional is due.
+  settleFunding([session], { ...room.market, funding: { rates: { ETH: 1 } } });
+  assert.equal(position.margin, 0);
+  assert.equal(position.fundingPaid, Math.round(margin * 100) / 100);
+  assert.equal(session.ledger.at(-1).amount, -position.fundingPaid);
+  assert.ok(Math.abs(session.realizedPnl - (realized - margin)) < 0.01);
+});
+
+test('an isolated liquidation refunds the wallet before the cross positions are weighed', () => {
+  const { room, session } = startTrading('Whale');
+  // In the 1% maintenance tier, what a liquidation leaves outweighs its 0.5% fee.
+  const isolated = open(session, { base: 'ETH', size: 300_000 / room.market.prices.ETH, leverage: 50 });
+  const cross = open(session, { base: 'SOL', size: 100_000 / room.market.prices.SOL, leverage: 10, marginMode: 'cross' });
+  // SOL a dollar past where the wallet alone stops covering it; the ETH refund makes up for it.
+  room.market.prices.ETH = isolated.liquidationPrice * 0.999;
+  room.market.prices.SOL = cross.liquidationPrice - 1;
+  markToMarket(session, room.market);
+  assert.equal(session.liquidations, 1);
+  assert.deepEqual(session.positions.map((p) => p.symbol), ['SOL']);
+});
@@ -0,0 +1,78 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+  startGame,
+  startTrading,
+  send,
+  runApiCommand,
+  stepRoom,
+  stepFeedMarkets,
+  sharedMarketView,
+  marketUpdate,
+} = require('./engine');
+
+// What the server would push to the member on the room's next tick.
+function nextUpdate(room, session) {
+  stepRoom(room);
+  return marketUpdate(session, room, sharedMarketView(room));
+}
+
+test('the stream opens with a snapshot and numbers every delta after it', () => {
+  const { room, session } = startTrading('EZ-Mode', { wallet: 'spot' });
+  const first = nextUpdate(room, session);
+  assert.equal(first.snapshot, true);
+  assert.deepEqual(Object.keys(first.bookDeltas), []);
+  const prices = { ...first.prices };
+  let seq = first.seq;
+  for (let i = 0; i < 5; i += 1) {
+    const update = nextUpdate(room, session);
+    assert.equal(update.snapshot, false);
+    assert.equal(update.seq, seq + 1);
+    seq = update.seq;
+    Object.assign(prices, update.prices);
+  }
+  const resync = runApiCommand(session, 'market_resync', {});
+  assert.equal(resync.snapshot, true);
+  assert.equal(resync.seq, seq);
+  assert.deepEqual(resync.prices, prices);
+});
+
+test('subscriptions narrow the books to the chosen symbols', () => {
+  const { room, session } = startTrading('EZ-Mode', { wallet: 'spot' });
+  nextUpdate(room, session);
+  send(session, 'subscribe', { symbols: ['BTC'] });
+  const resync = runApiCommand(session, 'market_resync', {});
+  for (let i = 0; i < 5; i += 1) {
+    const update = nextUpdate(room, session);
+    assert.deepEqual(Object.keys(update.orderBook).filter((symbol) => symbol !== 'BTC'), []);
+    assert.deepEqual(Object.keys(update.bookDeltas).filter((symbol) => symbol !== 'BTC'), []);
+  }
+  assert.ok(Object.keys(resync.prices).length > 1);
+  assert.deepEqual(Object.keys(runApiCommand(session, 'market_resync', {}).orderBook), ['BTC']);
+});
+
+test('Real-World rooms on one feed trade in the same market, each member on their subscription', () => {
+  const realWorld = (playerName, mode) => startGame({ playerName, difficulty: 'Real-World', priceProvider: 'internal', mode });
+  const first = realWorld('Alice', 'Whale');
+  const second = realWorld('Bob', 'EZ-Mode');
+  const steered = realWorld('Host', 'Admin');
+  assert.equal(second.room.market.orderBook, first.room.market.orderBook);
+  assert.equal(second.room.market.candles, first.room.market.candles);
+  assert.notEqual(steered.room.market.orderBook, first.room.market.orderBook);
+
+  const bestAsk = ({ room }) => ({ ...room.market.orderBook.BTC.asks[0] });
+  const before = bestAsk(second);
+  const ownBook = bestAsk(steered);
+  send(first.session, 'place_order', { base: 'BTC', quote: 'USD', side: 'buy', size: 0.2, wallet: 'spot' });
+  assert.ok(bestAsk(second).size < before.size);
+  assert.deepEqual(bestAsk(steered), ownBook);
+
+  stepFeedMarkets();
+  [first, second].forEach(({ room }) => stepRoom(room));
+  assert.equal(first.room.market.prices, second.room.market.prices);
+  send(second.session, 'subscribe', { symbols: ['BTC'] });
+  const update = marketUpdate(second.session, second.room, sharedMarketView(second.room));
+  assert.deepEqual(Object.keys(update.orderBook), ['BTC']);
+  assert.deepEqual(update.orderBook.BTC.asks[0], bestAsk(first));
+});
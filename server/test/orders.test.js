@@ -0,0 +1,29 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { startTrading, send } = require('./engine');
+
+function protectiveOrders(session, position) {
+  return session.orders.filter((order) => order.positionId === position.id).map((order) => order.type);
+}
+
+test('take-profit and stop-loss go to the position the order filled into', () => {
+  const { room, session } = startTrading();
+  const order = { base: 'ETH', quote: 'USD', size: 0.1, leverage: 10, wallet: 'derivatives' };
+  const price = room.market.prices.ETH;
+  send(session, 'place_order', { ...order, side: 'buy' });
+  send(session, 'place_order', { ...order, side: 'buy', marginMode: 'cross', takeProfit: price * 1.2, stopLoss: price * 0.9 });
+  const [isolated, cross] = session.positions;
+  assert.deepEqual([isolated.marginMode, cross.marginMode], ['isolated', 'cross']);
+  assert.deepEqual(protectiveOrders(session, isolated), []);
+  assert.deepEqual(protectiveOrders(session, cross), ['take_profit', 'stop_loss']);
+});
+
+test('an order that only reduces the other side protects nothing', () => {
+  const { room, session } = startTrading();
+  const order = { base: 'ETH', quote: 'USD', leverage: 10, wallet: 'derivatives' };
+  send(session, 'place_order', { ...order, side: 'buy', size: 0.2 });
+  send(session, 'place_order', { ...order, side: 'sell', size: 0.1, stopLoss: room.market.prices.ETH * 1.1 });
+  assert.equal(session.positions.length, 1);
+  assert.deepEqual(session.orders, []);
+});
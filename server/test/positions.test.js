@@ -0,0 +1,55 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { startTrading, send, runApiCommand } = require('./engine');
+
+// A trading game with a x10 ETH long open.
+function withEthLong(quantity = 1) {
+  const { room, session } = startTrading();
+  send(session, 'place_order', { base: 'ETH', quote: 'USD', side: 'buy', size: quantity, leverage: 10, wallet: 'derivatives' });
+  return { room, session, position: session.positions[0] };
+}
+
+function assertClose(actual, expected) {
+  assert.ok(Math.abs(actual - expected) < 1e-6, `${actual} is not ${expected}`);
+}
+
+test('selling more than a long closes it and flips into a short of the rest', () => {
+  const { session } = withEthLong();
+  const result = send(session, 'place_order', { base: 'ETH', quote: 'USD', side: 'sell', size: 1.5, leverage: 10, wallet: 'derivatives' });
+  assert.equal(result.flipped, true);
+  assertClose(result.closedQuantity, 1);
+  assert.equal(session.positions.length, 1);
+  assert.equal(session.positions[0].side, 'short');
+  assertClose(session.positions[0].quantity, 0.5);
+});
+
+test('reduce and close take a position down step by step', () => {
+  const { session, position } = withEthLong();
+  const margin = position.margin;
+  send(session, 'reduce_position', { positionId: position.id, quantity: 0.4 });
+  assertClose(position.quantity, 0.6);
+  assertClose(position.margin, margin * 0.6);
+  send(session, 'close_position', { positionId: position.id, fraction: 0.5 });
+  assertClose(position.quantity, 0.3);
+  send(session, 'close_position', { positionId: position.id });
+  assert.equal(session.positions.length, 0);
+  // What is left is the wallet, less fees and whatever crossing the spread cost.
+  assert.ok(session.derivatives.USD > 900 && session.derivatives.USD < 1000);
+});
+
+test('a reduce-only order never opens the other side', () => {
+  const { session } = withEthLong();
+  const result = send(session, 'place_order', { base: 'ETH', quote: 'USD', side: 'sell', size: 3, reduceOnly: true, wallet: 'derivatives' });
+  assertClose(result.filledSize, 1);
+  assert.equal(session.positions.length, 0);
+});
+
+test('a flip the wallet cannot margin still closes the position', () => {
+  const { session } = withEthLong();
+  const result = runApiCommand(session, 'place_order', { base: 'ETH', quote: 'USD', side: 'sell', size: 40, leverage: 10, wallet: 'derivatives' });
+  assert.equal(result.code, 'FLIP_REJECTED');
+  assert.equal(result.cause, 'INSUFFICIENT_MARGIN');
+  assertClose(result.closedQuantity, 1);
+  assert.equal(session.positions.length, 0);
+});
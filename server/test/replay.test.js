@@ -0,0 +1,137 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+// Ten ticks a round.
+process.env.ROUND_DURATION_MS = '30000';
+const {
+  startGame,
+  send,
+  playRound,
+  stepRoom,
+  validatePayload,
+  createRoom,
+  createSession,
+  startRoomGame,
+  runApiCommand,
+  flushGameRecords,
+  loadGameRecord,
+  simulateGame,
+} = require('./engine');
+
+async function replayOf(room) {
+  await flushGameRecords();
+  return simulateGame(await loadGameRecord(room.game.id));
+}
+
+test('a seeded game played again from its record comes out verified', async () => {
+  const { room, session } = startGame({ playerName: 'Replayer', difficulty: 'Hard', mode: 'Admin', seed: 'replay-test' });
+  let actions = 0;
+  const act = (event, payload) => {
+    actions += 1;
+    return send(session, event, payload);
+  };
+  playRound(room, (tick) => {
+    const { prices } = room.market;
+    if (tick === 0) {
+      act('transfer', { currency: 'USD', amount: 6000, to: 'derivatives' });
+      act('place_order', { base: 'BTC', quote: 'USD', side: 'buy', size: 0.05, leverage: 5, wallet: 'derivatives' });
+      act('place_order', { base: 'ETH', quote: 'USD', side: 'buy', size: 0.5, type: 'limit', limitPrice: prices.ETH * 0.999, leverage: 2, wallet: 'derivatives' });
+      act('place_order', { base: 'SOL', quote: 'USD', side: 'buy', size: 2, wallet: 'spot' });
+    }
+    if (tick === 3) act('reduce_position', { positionId: session.positions[0].id, quantity: 0.02 });
+    if (tick === 5) act('close_position', { positionId: session.positions[0].id, fraction: 0.5 });
+    if (tick === 6) act('place_order', { base: 'SOL', quote: 'USD', side: 'sell', size: 3, leverage: 3, wallet: 'derivatives' });
+  });
+
+  const replay = await replayOf(room);
+  assert.equal(replay.verified, true);
+  assert.equal(replay.rounds.length, 1);
+  assert.equal(replay.frames.reduce((count, frame) => count + frame.actions.length, 0), actions);
+  assert.equal(replay.frames.at(-1).equity[session.id], room.round.results.players[session.id].balance);
+});
+
+test('a liquidation between ticks replays the same', async () => {
+  // A 2% spread puts a x100 long under water the moment it fills.
+  const fees = { maker: 0.0002, taker: 0.0005, spread: 0.02 };
+  const { room, session } = startGame({ playerName: 'Liquidated', difficulty: 'Easy', mode: 'Admin', seed: 'liquidation-test', fees });
+  playRound(room, (tick) => {
+    if (tick !== 0) return;
+    send(session, 'transfer', { currency: 'USD', amount: 10000, to: 'derivatives' });
+    send(session, 'place_order', { base: 'BTC', quote: 'USD', side: 'buy', size: 900000 / room.market.prices.BTC, leverage: 100, wallet: 'derivatives' });
+    assert.equal(session.liquidations, 1);
+    assert.equal(session.positions.length, 0);
+    // Only a replay that liquidates at the same moment opens this as a fresh position.
+    send(session, 'place_order', { base: 'BTC', quote: 'USD', side: 'buy', size: 0.01, leverage: 10, wallet: 'derivatives' });
+    assert.equal(session.positions.length, 1);
+  });
+
+  const replay = await replayOf(room);
+  assert.equal(replay.verified, true);
+  assert.equal(replay.frames[0].events.filter((event) => event.type === 'liquidation').length, 1);
+  // Records are stamped on the game clock, so a replay lands on the same times.
+  assert.equal(room.round.endedAt, room.market.clock);
+  assert.ok(session.ledger.every((entry) => entry.at >= room.startedAt && entry.at <= room.round.endedAt));
+});
+
+test('reading an account between ticks leaves its liquidation to the replayed tick', async () => {
+  const settings = { difficulty: 'Easy', mode: 'Admin', seed: 'read-test' };
+  const room = createRoom(settings);
+  const seller = createSession({ ...settings, playerName: 'Seller' }, room);
+  const holder = createSession({ ...settings, playerName: 'Holder' }, room);
+  startRoomGame(room);
+  playRound(room, (tick) => {
+    if (tick !== 0) return;
+    send(holder, 'transfer', { currency: 'USD', amount: 10000, to: 'derivatives' });
+    send(holder, 'place_order', { base: 'BTC', quote: 'USD', side: 'buy', size: 0.5, leverage: 100, wallet: 'derivatives' });
+    // The seller sweeping the bids sinks BTC under the holder's liquidation price.
+    send(seller, 'transfer', { currency: 'USD', amount: 10000, to: 'derivatives' });
+    send(seller, 'place_order', { base: 'BTC', quote: 'USD', side: 'sell', size: 12, leverage: 100, wallet: 'derivatives' });
+    assert.ok(room.market.prices.BTC < holder.positions[0].liquidationPrice);
+    const account = runApiCommand(holder, 'get_account');
+    assert.equal(account.positions.length, 1);
+    assert.equal(holder.liquidations, 0);
+  });
+
+  const replay = await replayOf(room);
+  assert.equal(replay.verified, true);
+});
+
+test('alerts run on the game clock and leave the recorded ids alone', async () => {
+  const { room, session } = startGame({ playerName: 'Watcher', difficulty: 'Medium', mode: 'EZ-Mode', seed: 'alerts-test' });
+  playRound(room, (tick) => {
+    if (tick === 0) {
+      send(session, 'transfer', { currency: 'USD', amount: 500, to: 'derivatives' });
+      const { alert } = send(session, 'create_alert', { symbol: 'BTC', kind: 'above', price: room.market.prices.BTC * 2 });
+      assert.equal(alert.id, 'alert-1');
+      assert.equal(alert.createdAt, room.market.clock);
+      send(session, 'place_order', { base: 'ETH', quote: 'USD', side: 'buy', size: 0.1, leverage: 5, wallet: 'derivatives' });
+    }
+    // The replay, which creates no alert, must find the position under the same id.
+    if (tick === 4) send(session, 'close_position', { positionId: session.positions[0].id });
+  });
+  assert.equal(session.positions.length, 0);
+
+  const replay = await replayOf(room);
+  assert.equal(replay.verified, true);
+});
+
+test('the same seed builds the same market', () => {
+  const ticks = (seed) => {
+    const { room } = startGame({ playerName: 'Twin', difficulty: 'Medium', mode: 'EZ-Mode', seed });
+    for (let i = 0; i < 5; i += 1) stepRoom(room);
+    return room.market.prices;
+  };
+  assert.deepEqual(ticks('twin-seed'), ticks('twin-seed'));
+  assert.notDeepEqual(ticks('twin-seed'), ticks('other-seed'));
+});
+
+test('a seed that is not a string is turned away before it reaches the room', () => {
+  ['start_game', 'create_room', 'update_room_settings'].forEach((event) => {
+    assert.equal(validatePayload(event, { seed: null })?.code, 'INVALID_FIELD');
+    assert.equal(validatePayload(event, { seed: 42 })?.code, 'INVALID_FIELD');
+  });
+  assert.equal(validatePayload('start_game', { seed: ' replay-test ' }), null);
+  assert.equal(createRoom({ seed: ' replay-test ' }).seed, 'replay-test');
+  // Settings from elsewhere than a validated payload fall back instead of throwing.
+  assert.equal(createRoom({ seed: null }).seed, null);
+});
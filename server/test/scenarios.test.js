@@ -0,0 +1,43 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { startGame, send, playRound } = require('./engine');
+
+// flash-crash: be exposed at x20 when BTC loses 40%, and never get liquidated. Positions are
+// cross margin at six times the wallet, so the drift before the crash cannot take them out.
+function playFlashCrash(order) {
+  const { room, session } = startGame({ playerName: 'Challenger', scenario: 'flash-crash', seed: 'scenario-test' });
+  playRound(room, (tick) => {
+    if (tick !== 0) return;
+    const size = (session.derivatives.USD * 6) / room.market.prices.BTC;
+    send(session, 'place_order', { base: 'BTC', quote: 'USD', size, wallet: 'derivatives', marginMode: 'cross', ...order });
+  });
+  return { room, session, result: room.round.results.players[session.id].scenario };
+}
+
+function statuses(progress) {
+  return Object.fromEntries(progress.objectives.map((objective) => [objective.type, objective.status]));
+}
+
+test('a x20 short through the flash crash passes with a score', () => {
+  const { room, result } = playFlashCrash({ side: 'sell', leverage: 20 });
+  assert.equal(result.status, 'passed');
+  assert.deepEqual(statuses(result), { exposed_during: 'done', no_liquidation: 'done' });
+  assert.ok(result.score > 0);
+  // no_liquidation can only be settled at the bell.
+  assert.equal(room.round.endedAt, room.round.endsAt);
+});
+
+test('a x20 long gets liquidated in the crash and fails early', () => {
+  const { room, session, result } = playFlashCrash({ side: 'buy', leverage: 20 });
+  assert.equal(session.liquidations, 1);
+  assert.equal(result.status, 'failed');
+  assert.equal(statuses(result).no_liquidation, 'failed');
+  assert.ok(room.round.endedAt < room.round.endsAt);
+});
+
+test('exposure under the required leverage fails when the crash fires', () => {
+  const { result } = playFlashCrash({ side: 'sell', leverage: 10 });
+  assert.equal(result.status, 'failed');
+  assert.equal(statuses(result).exposed_during, 'failed');
+});
@@ -0,0 +1,47 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const { startTrading, send, runApiCommand, markToMarket } = require('./engine');
+
+test('a spot buy must leave room for its fee', () => {
+  const { room, session } = startTrading('EZ-Mode', { wallet: 'spot' });
+  const ask = room.market.orderBook.ETH.asks[0].price;
+  const order = { base: 'ETH', quote: 'USD', side: 'buy', wallet: 'spot' };
+  const whole = runApiCommand(session, 'place_order', { ...order, size: session.holdings.USD / ask });
+  assert.equal(whole.code, 'INSUFFICIENT_BALANCE_SPOT');
+  assert.equal(session.holdings.USD, 1000);
+  const result = send(session, 'place_order', { ...order, size: (session.holdings.USD * 0.999) / ask });
+  assert.ok(session.holdings.USD >= 0);
+  assert.equal(session.fees, result.fee);
+  assert.ok(session.holdings.ETH > 0);
+});
+
+test('a spot sell needs the base it sells', () => {
+  const { session } = startTrading('EZ-Mode', { wallet: 'spot' });
+  const result = runApiCommand(session, 'place_order', { base: 'ETH', quote: 'USD', side: 'sell', size: 0.1, wallet: 'spot' });
+  assert.equal(result.code, 'INSUFFICIENT_BALANCE_SPOT');
+});
+
+test('transfers move balances between the wallets', () => {
+  const { session } = startTrading('EZ-Mode', { wallet: 'spot' });
+  send(session, 'transfer', { currency: 'USD', amount: 400, to: 'derivatives' });
+  assert.equal(session.holdings.USD, 600);
+  assert.equal(session.derivatives.USD, 400);
+  send(session, 'transfer', { currency: 'USD', amount: 150, to: 'spot' });
+  assert.equal(session.holdings.USD, 750);
+  assert.equal(session.derivatives.USD, 250);
+  assert.equal(runApiCommand(session, 'transfer', { currency: 'USD', amount: 251, to: 'spot' }).code, 'INSUFFICIENT_BALANCE');
+});
+
+test('cross positions keep the balance that covers their maintenance', () => {
+  const { room, session } = startTrading();
+  send(session, 'place_order', { base: 'ETH', quote: 'USD', side: 'buy', size: 3, leverage: 100, marginMode: 'cross', wallet: 'derivatives' });
+  // Close to the liquidation price the wallet is what holds the position up.
+  room.market.prices.ETH = session.positions[0].liquidationPrice * 1.01;
+  markToMarket(session, room.market);
+  const result = runApiCommand(session, 'transfer', { currency: 'USD', amount: session.derivatives.USD, to: 'spot' });
+  assert.equal(result.code, 'TRANSFER_WOULD_LIQUIDATE');
+  assert.equal(session.positions.length, 1);
+  send(session, 'transfer', { currency: 'USD', amount: 1, to: 'spot' });
+  assert.equal(session.holdings.USD, 1);
+});
@@ -0,0 +1,808 @@
+// Socket protocol shared by the client and the server. protocol.json holds everything the
+// server needs at runtime (enums, limits, payload schemas, error codes); this module types it
+// for the client. Keep the unions below in step with the lists in protocol.json.
+import spec from './protocol.json';
+
+export type Asset = 'BTC' | 'ETH' | 'ICP' | 'XCN' | 'USDT' | 'DASH' | 'NEAR' | 'SOL' | 'USD' | 'EUR' | 'JPY' | 'CNY' | 'TRY';
+export type FiatCurrency = 'USD' | 'EUR' | 'JPY' | 'CNY' | 'TRY';
+export type Difficulty = 'Real-World' | 'Easy' | 'Medium' | 'Hard';
+export type Mode = 'EZ-Mode' | 'Admin' | 'Whale';
+export type PriceProvider = 'internal' | 'coingecko' | 'binance' | 'replay';
+export type OrderType = 'market' | 'limit' | 'stop' | 'stop_limit';
+export type OrderSide = 'buy' | 'sell';
+export type MarginMode = 'isolated' | 'cross';
+export type Wallet = 'spot' | 'derivatives';
+export type Timeframe = '1m' | '5m' | '15m' | '1h';
+export type ReplaySpeed = 1 | 10 | 60;
+export type AlertKind = 'above' | 'below' | 'move';
+export type LedgerEntryType = 'fill' | 'conversion' | 'fee' | 'liquidation' | 'funding' | 'faucet' | 'close' | 'transfer';
+export type ScenarioEventType = 'news' | 'crash' | 'pump' | 'halt';
+export type AdminMove = 'crash' | 'pump';
+export type BookSide = 'bids' | 'asks' | 'both';
+export type ObjectiveType = 'reach_equity' | 'keep_equity' | 'no_liquidation' | 'exposed_during' | 'beat_bot';
+export type ErrorCode = keyof typeof spec.errors;
+
+export const assets = spec.assets as Asset[];
+export const fiatCurrencies = spec.fiatCurrencies as FiatCurrency[];
+export const difficulties = spec.difficulties as Difficulty[];
+export const modes = spec.modes as Mode[];
+export const priceProviders = spec.priceProviders as PriceProvider[];
+export const orderTypes = spec.orderTypes as OrderType[];
+export const marginModes = spec.marginModes as MarginMode[];
+export const wallets = spec.wallets as Wallet[];
+export const timeframes = spec.timeframes as Timeframe[];
+export const replaySpeeds = spec.replaySpeeds as ReplaySpeed[];
+export const alertKinds = spec.alertKinds as AlertKind[];
+export const ledgerEntryTypes = spec.ledgerEntryTypes as LedgerEntryType[];
+export const objectiveTypes = spec.objectiveTypes as ObjectiveType[];
+export const adminMoves = spec.adminMoves as AdminMove[];
+export const bookSides = spec.bookSides as BookSide[];
+export const leverageCaps: Record<Mode, number> = spec.leverageCaps;
+export const playerNameMaxLength = spec.playerNameMaxLength;
+
+// Every rejection carries a stable code to localize; `error` is the server's English text.
+export type ErrorAck = {
+  error: string;
+  code: ErrorCode;
+  // The offending field for INVALID_FIELD and LEVERAGE_TOO_HIGH, dotted for nested objects.
+  field?: string;
+  // The mode's cap for LEVERAGE_TOO_HIGH.
+  limit?: number;
+  // Why the flip failed for FLIP_REJECTED.
+  cause?: ErrorCode;
+};
+
+// An ack is either the event's result or a rejection; `if (response.code)` tells them apart.
+export type Reply<T> = (T & { error?: undefined; code?: undefined }) | ErrorAck;
+type Ack<T> = (response: Reply<T>) => void;
+type EmptyPayload = Record<string, never>;
+
+export type ReplayDataset = {
+  id: string;
+  assets: string[];
+  from: number;
+  to: number;
+};
+
+export type ReplayRequest = {
+  dataset?: string;
+  from?: number;
+  to?: number;
+  speed?: ReplaySpeed;
+};
+
+// A scenario as the picker and the lobby show it; the event timeline is only revealed in play.
+export type ScenarioSummary = {
+  id: string;
+  title: string;
+  description: string;
+  difficulty: Difficulty;
+  mode: Mode;
+  durationMs: number;
+  assets: string[] | null;
+  holdings: Record<string, number>;
+  derivatives: Record<string, number>;
+  events: number;
+  objectives: ScenarioObjectiveSpec[];
+};
+
+// `value` for reach_equity / keep_equity (USD), `bot` for beat_bot, `event` and
+// `minLeverage` for exposed_during.
+export type ScenarioObjectiveSpec = {
+  type: ObjectiveType;
+  value?: number;
+  bot?: string;
+  event?: string;
+  minLeverage?: number;
+};
+
+export type ScenarioObjective = ScenarioObjectiveSpec & {
+  status: 'pending' | 'done' | 'failed';
+  // Equity in USD for reach_equity / keep_equity; for beat_bot, the member's return
+  // against the bot's, in percent.
+  current?: number;
+  target?: number;
+};
+
+export type ScenarioProgress = {
+  id: string;
+  title: string;
+  status: 'running' | 'passed' | 'failed';
+  objectives: ScenarioObjective[];
+  // Set when the round ends.
+  score: number | null;
+};
+
+export type ReplaySettings = {
+  dataset: string;
+  from: number;
+  to: number;
+  speed: ReplaySpeed;
+  cursor: number;
+};
+
+export type Candle = {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+};
+
+export type BookLevel = {
+  price: number;
+  size: number;
+  own?: boolean;
+};
+
+export type OrderBook = {
+  bids: BookLevel[];
+  asks: BookLevel[];
+};
+
+export type PatternHint = {
+  name: 'falling_wedge' | 'rising_wedge' | 'breakout' | 'fake_breakout' | 'pump' | 'capitulation' | 'range';
+  phase: string;
+  expected: 'breakout_up' | 'breakout_down' | 'reversal_up' | 'reversal_down' | 'none';
+  remainingTicks: number;
+};
+
+export type FeeRates = { maker: number; taker: number; spread: number };
+
+export type FeeSchedule = {
+  spread: number;
+  tiers: { minVolumeUsd: number; maker: number; taker: number }[];
+};
+
+export type FundingState = { rates: Record<string, number>; nextAt: number };
+
+// idle: never polled yet. degraded: answering, with failures in between or on a fallback feed.
+// down: stale or paused by its circuit breaker (a room is down when some asset has no fresh price).
+export type FeedStatus = 'idle' | 'ok' | 'degraded' | 'down';
+
+// Where a Real-World room's prices came from on the last tick.
+export type PriceFeedState = {
+  requested: PriceProvider;
+  // Feeds that actually priced the room, fallbacks included.
+  sources: string[];
+  status: FeedStatus;
+  // Age of the oldest price in use when the tick ran.
+  ageMs: number | null;
+};
+
+// GET /price-feeds
+export type PriceFeedReport = {
+  fallback: string[];
+  feeds: {
+    id: string;
+    label: string;
+    status: FeedStatus;
+    assets: string[];
+    ageMs: number | null;
+    failures: number;
+    lastError: string | null;
+    // When a paused feed is tried again.
+    retryAt: number | null;
+  }[];
+};
+
+export type MarketState = {
+  prices: Record<string, number>;
+  orderBook: Record<string, OrderBook>;
+  // Null when the room hides hints (Hard only).
+  patterns?: Record<string, PatternHint> | null;
+  funding?: FundingState;
+  insuranceFund?: number;
+  fees?: FeeSchedule;
+  // Assets whose trading is halted (scenario timeline or Admin console).
+  halted?: string[];
+  // Real-World rooms on a live feed only.
+  feed?: PriceFeedState | null;
+  // Reference rates, units of each fiat per USD.
+  fxRates?: Record<string, number>;
+};
+
+export type Position = {
+  id: string;
+  symbol: string;
+  quote: string;
+  side: 'long' | 'short';
+  entryPrice: number;
+  quantity: number;
+  leverage: number;
+  margin: number;
+  marginMode: MarginMode;
+  liquidationPrice: number | null;
+  // Maintenance margin over equity, in percent: the position is liquidated at 100.
+  marginRatio: number;
+  fundingPaid?: number;
+  // Within the session's margin-call distance of its liquidation price.
+  marginCalled?: boolean;
+};
+
+export type RestingOrder = {
+  id: string;
+  type: OrderType | 'take_profit' | 'stop_loss';
+  base: string;
+  quote: string;
+  side: OrderSide;
+  size?: number;
+  leverage?: number;
+  limitPrice?: number;
+  stopPrice?: number;
+  triggered?: boolean;
+  positionId?: string;
+  reduceOnly: boolean;
+  createdAt: number;
+};
+
+export type AccountState = {
+  // Spot balances; `derivatives` backs positions and is funded by transfers from spot.
+  holdings: Record<string, number>;
+  derivatives: Record<string, number>;
+  positions: Position[];
+  orders: RestingOrder[];
+  realizedPnl: number;
+  unrealizedPnl: number;
+  fees: number;
+  volumeUsd: number;
+  ledgerSize: number;
+  alerts: PriceAlert[];
+  marginCallPct: number;
+  scenario: ScenarioProgress | null;
+};
+
+// One-shot: `price` for above / below, `percent` from `basePrice` (either way) for move.
+export type PriceAlert = {
+  id: string;
+  symbol: string;
+  kind: AlertKind;
+  price?: number;
+  percent?: number;
+  basePrice?: number;
+  createdAt: number;
+};
+
+export type AlertPayload = { symbol: string; kind: AlertKind; price?: number; percent?: number };
+
+export type AlertHit = { alert: PriceAlert; price: number; at: number };
+
+export type MarginCall = {
+  positionId: string;
+  symbol: string;
+  quote: string;
+  side: Position['side'];
+  leverage: number;
+  price: number;
+  liquidationPrice: number;
+  distancePct: number;
+  marginRatio: number;
+  at: number;
+};
+
+export type Liquidation = {
+  positionId: string;
+  symbol: string;
+  quote: string;
+  side: Position['side'];
+  marginMode: MarginMode;
+  leverage: number;
+  quantity: number;
+  entryPrice: number;
+  price: number;
+  realizedPnl: number;
+  fee: number;
+  currency: string;
+  at: number;
+};
+
+export type LedgerEntry = {
+  id: number;
+  at: number;
+  round: number | null;
+  type: LedgerEntryType;
+  symbol?: string;
+  quote?: string;
+  side?: string;
+  quantity?: number;
+  price?: number;
+  // Signed change to the account in `currency`; fills carry price and quantity instead.
+  amount?: number;
+  currency?: string;
+  detail?: string;
+};
+
+export type OrderResult = {
+  wallet?: Wallet;
+  averagePrice?: number;
+  fills?: { price: number; size: number }[];
+  filledSize?: number;
+  unfilledSize?: number;
+  closedQuantity?: number;
+  realizedPnl?: number;
+  flipped?: boolean;
+  fee?: number;
+  feeRate?: number;
+  liquidity?: 'maker' | 'taker';
+  spreadCost?: number;
+  orderId?: string;
+  resting?: boolean;
+  cancelled?: boolean;
+  amended?: boolean;
+};
+
+export type OrderResponse = Reply<OrderResult>;
+
+export type OrderEvent = {
+  type: 'triggered' | 'partially_filled' | 'filled' | 'rejected';
+  order: RestingOrder;
+  result?: OrderResponse;
+};
+
+export type BotArchetype = 'momentum' | 'mean_reversion' | 'market_maker' | 'degen' | 'whale';
+
+export type LeaderboardRow = {
+  id: string;
+  name: string;
+  archetype?: BotArchetype;
+  balance: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  fees: number;
+  netPnl: number;
+  openPositions?: number;
+  isHuman?: boolean;
+  // Set for members trading through an API key.
+  isAlgo?: boolean;
+};
+
+export type EquitySample = { time: number; equity: number; leverage: number };
+
+export type AssetExposure = { long: number; short: number; net: number };
+
+// Ratios stay null until there is something to divide by (no closed trade, flat curve...).
+export type AccountStats = {
+  equity: number;
+  returnPct: number;
+  maxDrawdownPct: number;
+  maxDrawdownUsd: number;
+  // Per-tick returns scaled to one hour.
+  sharpe: number | null;
+  sortino: number | null;
+  closedTrades: number;
+  winRatePct: number | null;
+  averageWin: number | null;
+  averageLoss: number | null;
+  profitFactor: number | null;
+  trades: number;
+  liquidations: number;
+  exposure: Record<string, AssetExposure>;
+  leverage: { current: number; average: number; max: number };
+};
+
+export type BotSummary = { id: string; name: string; archetype: BotArchetype };
+
+export type Analytics = {
+  player: { stats: AccountStats; curve: EquitySample[] };
+  bots: (BotSummary & { stats: AccountStats })[];
+  comparison: (BotSummary & { curve: EquitySample[] }) | null;
+};
+
+export type RoomMember = {
+  id: string;
+  name: string;
+  ready: boolean;
+  connected: boolean;
+  isHost: boolean;
+  isAlgo: boolean;
+};
+
+export type RoomState = {
+  id: string;
+  code: string;
+  isPrivate: boolean;
+  hostId: string;
+  status: 'lobby' | 'playing';
+  difficulty: Difficulty;
+  mode: Mode;
+  priceProvider: PriceProvider;
+  replay: ReplaySettings | null;
+  hideHints: boolean;
+  rankNetOfFees: boolean;
+  // Only applied in Admin rooms.
+  fees: FeeRates;
+  scenario: ScenarioSummary | null;
+  // The running game's seed, or the one chosen for the next game (null draws a random one).
+  seed: string | null;
+  daily: boolean;
+  // Set once a reproducible game has started: GET /games/:gameId plays it again.
+  gameId: string | null;
+  // Set once the Admin console has acted on the game: it stays out of the hall of fame.
+  unranked: boolean;
+  members: RoomMember[];
+};
+
+export type RoomEvent = {
+  type: 'join' | 'leave' | 'big_trade' | 'liquidation' | 'news';
+  name: string;
+  // Scenario news: `name` is the scenario title.
+  headline?: string;
+  symbol?: string;
+  side?: string;
+  size?: number;
+  notionalUsd?: number;
+  leverage?: number;
+  at: number;
+};
+
+export type RankingRow = LeaderboardRow & {
+  rank: number;
+};
+
+export type RoundResults = {
+  round: number;
+  podium: RankingRow[];
+  rankings: RankingRow[];
+  player: {
+    rank: number;
+    won: boolean;
+    realizedPnl: number;
+    fees: number;
+    netPnl: number;
+    balance: number;
+    startingBalance: number;
+    returnPct: number;
+    trades: number;
+    liquidations: number;
+    scenario: ScenarioProgress | null;
+  };
+};
+
+export type RoundState = {
+  number: number;
+  startedAt: number;
+  endsAt: number;
+  durationMs: number;
+  status: 'running' | 'ended';
+  remainingMs: number;
+  results: RoundResults | null;
+};
+
+export type SessionState = AccountState & {
+  sessionToken: string;
+  playerId: string;
+  playerName: string;
+  difficulty: Difficulty;
+  mode: Mode;
+  priceProvider: PriceProvider;
+  room: RoomState;
+  // Null while the room waits in its lobby.
+  market: MarketState | null;
+  // Where the market stream restarts from: the next market_update carries this plus one.
+  marketSeq: number | null;
+  leaderboard: LeaderboardRow[];
+  startedAt: number;
+  round: RoundState | null;
+  faucetClaimed: boolean;
+};
+
+// Per price level: its new size, 0 once it is gone. A level is its price plus `own`.
+export type BookDelta = { bids: BookLevel[]; asks: BookLevel[] };
+
+// One tick of a member's market, numbered per session. A snapshot holds the whole view of the
+// subscribed symbols; otherwise only what changed since update `seq - 1`, and a client that
+// missed one asks for market_resync. patterns through round are always sent whole.
+export type MarketUpdate = {
+  seq: number;
+  snapshot: boolean;
+  // Changed prices only, every asset's in a snapshot.
+  prices: Record<string, number>;
+  // Subscribed symbols whose latest candle changed.
+  lastCandles: Record<Timeframe, Record<string, Candle>>;
+  // Whole books: every subscribed symbol in a snapshot, newly subscribed ones otherwise.
+  orderBook: Record<string, OrderBook>;
+  bookDeltas: Record<string, BookDelta>;
+  // Changed rows, all of them in a snapshot, listed in ranking order.
+  leaderboard: LeaderboardRow[];
+  leaderboardRemoved: string[];
+  // Row ids in ranking order, when the order changed.
+  leaderboardOrder: string[] | null;
+  patterns: Record<string, PatternHint> | null;
+  funding: FundingState;
+  insuranceFund: number;
+  halted: string[];
+  feed: PriceFeedState | null;
+  account: AccountState;
+  round: RoundState | null;
+};
+
+export type RoomSetupPayload = {
+  playerName?: string;
+  difficulty?: Difficulty;
+  mode?: Mode;
+  priceProvider?: PriceProvider;
+  replay?: ReplayRequest;
+  hideHints?: boolean;
+  rankNetOfFees?: boolean;
+  fees?: Partial<FeeRates>;
+  // A scenario id from list_scenarios; an empty string goes back to free play.
+  scenario?: string;
+  // The same seed, settings and actions give the same game; empty draws a random seed per game.
+  seed?: string;
+  // Today's challenge: the day's seed on Medium / EZ-Mode, the same market for everyone.
+  daily?: boolean;
+};
+
+export type JoinRoomPayload = { playerName?: string; code: string };
+
+export type CandleRequest = {
+  symbol: string;
+  timeframe?: Timeframe;
+  from?: number;
+  to?: number;
+  limit?: number;
+};
+
+export type HistoryRequest = {
+  symbol?: string;
+  type?: LedgerEntryType;
+  from?: number;
+  to?: number;
+  limit?: number;
+};
+
+export type PlaceOrderPayload = {
+  type?: OrderType;
+  base: string;
+  quote: string;
+  side: OrderSide;
+  size: number;
+  leverage?: number;
+  marginMode?: MarginMode;
+  // Defaults to spot at leverage 1; leverage, reduce-only and position orders use derivatives.
+  wallet?: Wallet;
+  reduceOnly?: boolean;
+  limitPrice?: number;
+  stopPrice?: number;
+  takeProfit?: number;
+  stopLoss?: number;
+};
+
+export type AmendOrderPayload = {
+  orderId: string;
+  size?: number;
+  limitPrice?: number;
+  stopPrice?: number;
+};
+
+export type ConvertPayload = { from: string; to: string; amount: number; preview?: boolean };
+
+export type ConvertQuote = { from: string; to: string; amount: number; rate: number; received: number; preview?: true };
+
+export type TransferPayload = { currency: string; amount: number; to: Wallet };
+
+export type TransferResult = TransferPayload & { spot: number; derivatives: number };
+
+export type MarginAdjustment = {
+  positionId: string;
+  margin: number;
+  leverage: number;
+  liquidationPrice: number | null;
+};
+
+export interface ClientToServerEvents {
+  start_game: (payload: RoomSetupPayload, ack?: Ack<{ started: true }>) => void;
+  create_room: (payload: RoomSetupPayload, ack?: Ack<{ code: string }>) => void;
+  join_room: (payload: JoinRoomPayload, ack?: Ack<{ code: string }>) => void;
+  set_ready: (payload: { ready: boolean }, ack?: Ack<{ ready: boolean }>) => void;
+  update_room_settings: (payload: RoomSetupPayload, ack?: Ack<RoomState>) => void;
+  start_room: (payload?: EmptyPayload, ack?: Ack<{ round: number }>) => void;
+  get_candles: (payload: CandleRequest, ack: Ack<{ candles: Candle[] }>) => void;
+  get_history: (payload: HistoryRequest, ack: Ack<{ total: number; entries: LedgerEntry[] }>) => void;
+  get_analytics: (payload: { compareWith?: string }, ack: Ack<Analytics>) => void;
+  // Books and candles for these symbols only; without `symbols`, all of them (the default).
+  subscribe: (payload: { symbols?: string[] }, ack?: Ack<{ symbols: string[] }>) => void;
+  // The market as the stream stands, after a gap in market_update's seq.
+  market_resync: (payload: EmptyPayload, ack: Ack<MarketUpdate>) => void;
+  list_replay_datasets: (payload: EmptyPayload, ack: Ack<{ datasets: ReplayDataset[]; speeds: ReplaySpeed[] }>) => void;
+  list_scenarios: (payload: EmptyPayload, ack: Ack<{ scenarios: ScenarioSummary[] }>) => void;
+  resume_session: (payload: { token: string }, ack?: Ack<{ resumed: true }>) => void;
+  leave_session: (payload?: EmptyPayload, ack?: Ack<{ left: true }>) => void;
+  place_order: (payload: PlaceOrderPayload, ack?: (response: OrderResponse) => void) => void;
+  cancel_order: (payload: { orderId: string }, ack?: (response: OrderResponse) => void) => void;
+  amend_order: (payload: AmendOrderPayload, ack?: (response: OrderResponse) => void) => void;
+  set_position_tpsl: (
+    payload: { positionId: string; takeProfit?: number; stopLoss?: number },
+    ack?: Ack<{ positionId: string }>
+  ) => void;
+  adjust_margin: (payload: { positionId: string; amount: number }, ack?: Ack<MarginAdjustment>) => void;
+  close_position: (payload: { positionId: string; fraction?: number }, ack?: (response: OrderResponse) => void) => void;
+  reduce_position: (payload: { positionId: string; quantity: number }, ack?: (response: OrderResponse) => void) => void;
+  continue_round: (payload?: EmptyPayload, ack?: Ack<{ round: number }>) => void;
+  restart_round: (payload?: EmptyPayload, ack?: Ack<{ round: number }>) => void;
+  claim_faucet: (payload?: EmptyPayload, ack?: Ack<{ claimed: true }>) => void;
+  create_alert: (payload: AlertPayload, ack?: Ack<{ alert: PriceAlert }>) => void;
+  delete_alert: (payload: { alertId: string }, ack?: Ack<{ alertId: string; deleted: true }>) => void;
+  set_margin_call: (payload: { distancePct: number }, ack?: Ack<{ distancePct: number }>) => void;
+  convert: (payload: ConvertPayload, ack: Ack<ConvertQuote>) => void;
+  transfer: (payload: TransferPayload, ack?: Ack<TransferResult>) => void;
+  admin_set_price: (payload: { symbol: string; price: number }, ack?: AdminAck) => void;
+  // 1 is the usual volatility, 0 freezes the simulated drift.
+  admin_set_volatility: (payload: { symbol: string; multiplier: number }, ack?: AdminAck) => void;
+  admin_move: (payload: { symbol: string; direction: AdminMove; percent: number; seconds: number }, ack?: AdminAck) => void;
+  // Without `seconds` a halt lasts until resumed.
+  admin_halt: (payload: { symbol: string; halted: boolean; seconds?: number }, ack?: AdminAck) => void;
+  admin_inject_liquidity: (payload: { symbol: string; side: BookSide; notionalUsd: number }, ack?: AdminAck) => void;
+  admin_set_bot: (payload: { botId: string; aggressiveness: number }, ack?: AdminAck) => void;
+  admin_news: (payload: { headline: string }, ack?: AdminAck) => void;
+  get_admin_log: (payload: EmptyPayload, ack: Ack<{ entries: AdminLogEntry[] }>) => void;
+}
+
+// Admin console journal: who did what and when, with the action's parameters.
+export type AdminLogEntry = {
+  at: number;
+  by: string;
+  action: string;
+  symbol?: string;
+  price?: number;
+  multiplier?: number;
+  direction?: AdminMove;
+  percent?: number;
+  seconds?: number;
+  halted?: boolean;
+  until?: number | null;
+  side?: BookSide;
+  notionalUsd?: number;
+  botId?: string;
+  name?: string;
+  aggressiveness?: number;
+  headline?: string;
+};
+type AdminAck = Ack<{ entry: AdminLogEntry }>;
+
+export interface ServerToClientEvents {
+  session_update: (session: SessionState) => void;
+  market_update: (update: MarketUpdate) => void;
+  room_update: (room: RoomState) => void;
+  room_event: (event: RoomEvent) => void;
+  order_event: (event: OrderEvent) => void;
+  round_ended: (results: RoundResults) => void;
+  session_detached: (payload: { reason: string }) => void;
+  alert_triggered: (hit: AlertHit) => void;
+  margin_call: (call: MarginCall) => void;
+  liquidated: (liquidation: Liquidation) => void;
+}
+
+// Algorithmic clients: POST /api/v1/sessions answers with a key, then REST calls and the
+// plain WebSocket stream run the commands below with the same payloads and replies as the
+// socket events of the same name.
+export type ApiSessionRequest = RoomSetupPayload & { roomCode?: string };
+
+export type ApiSession = {
+  apiKey: string;
+  sessionToken: string;
+  playerId: string;
+  roomCode: string;
+  room: RoomState;
+};
+
+export type ApiMarket = {
+  // USD value of one unit of every asset; fxRates quote each fiat in units per USD.
+  prices: Record<string, number>;
+  fxRates: Record<string, number>;
+  // Absent until the room's first tick.
+  funding?: FundingState;
+  insuranceFund: number;
+  fees: FeeSchedule;
+  round: RoundState | null;
+};
+
+export interface ApiCommands {
+  get_account: (payload: EmptyPayload) => Reply<AccountState & { balance: number; faucetClaimed: boolean }>;
+  get_market: (payload: EmptyPayload) => Reply<ApiMarket>;
+  get_order_book: (payload: { symbol?: string }) => Reply<{ orderBook: Record<string, OrderBook> }>;
+  get_candles: (payload: CandleRequest) => Reply<{ candles: Candle[] }>;
+  get_history: (payload: HistoryRequest) => Reply<{ total: number; entries: LedgerEntry[] }>;
+  get_leaderboard: (payload: EmptyPayload) => Reply<{ leaderboard: LeaderboardRow[] }>;
+  get_analytics: (payload: { compareWith?: string }) => Reply<Analytics>;
+  subscribe: (payload: { symbols?: string[] }) => Reply<{ symbols: string[] }>;
+  market_resync: (payload: EmptyPayload) => Reply<MarketUpdate>;
+  create_alert: (payload: AlertPayload) => Reply<{ alert: PriceAlert }>;
+  delete_alert: (payload: { alertId: string }) => Reply<{ alertId: string; deleted: true }>;
+  set_margin_call: (payload: { distancePct: number }) => Reply<{ distancePct: number }>;
+  convert: (payload: ConvertPayload) => Reply<ConvertQuote>;
+  transfer: (payload: TransferPayload) => Reply<TransferResult>;
+  set_ready: (payload: { ready: boolean }) => Reply<{ ready: boolean }>;
+  place_order: (payload: PlaceOrderPayload) => OrderResponse;
+  cancel_order: (payload: { orderId: string }) => OrderResponse;
+  amend_order: (payload: AmendOrderPayload) => OrderResponse;
+  close_position: (payload: { positionId: string; fraction?: number }) => OrderResponse;
+  reduce_position: (payload: { positionId: string; quantity: number }) => OrderResponse;
+}
+
+// Plain WebSocket frames, JSON encoded. Requests carry a caller-chosen id echoed by the reply;
+// pushes reuse the ServerToClientEvents names (session_update, market_update, order_event, liquidated...).
+export type StreamRequest = { [E in keyof ApiCommands]: { id?: string | number; event: E; payload?: Parameters<ApiCommands[E]>[0] } }[keyof ApiCommands];
+export type StreamReply = { id: string | number | null; event: string; data: unknown };
+export type StreamPush = { [E in keyof ServerToClientEvents]: { event: E; data: Parameters<ServerToClientEvents[E]>[0] } }[keyof ServerToClientEvents];
+
+// Hall of fame over plain HTTP: GET /hall-of-fame, /hall-of-fame/players and
+// /hall-of-fame/players/:name, all filtered by difficulty, mode, since (epoch or ISO), seed
+// ('daily' for today's challenge) and limit.
+// One result per player and game, updated at the end of each of its rounds.
+export type HallOfFameEntry = {
+  id: string;
+  playerName: string;
+  isAlgo: boolean;
+  difficulty: Difficulty;
+  mode: Mode;
+  priceProvider: PriceProvider;
+  scenario: string | null;
+  seed: string | null;
+  daily: boolean;
+  // Null for games that cannot be played again (live or historical feeds).
+  gameId: string | null;
+  rounds: number;
+  realizedPnl: number;
+  netPnl: number;
+  returnPct: number;
+  maxDrawdownPct: number;
+  trades: number;
+  liquidations: number;
+  won: boolean;
+  durationMs: number;
+  startedAt: number;
+  endedAt: number;
+};
+
+// Lifetime stats, keyed on the player name (case-insensitive).
+export type PlayerProfile = {
+  playerName: string;
+  games: number;
+  wins: number;
+  realizedPnl: number;
+  bestRealizedPnl: number;
+  averageReturnPct: number;
+  worstDrawdownPct: number;
+  trades: number;
+  liquidations: number;
+  playTimeMs: number;
+  firstPlayedAt: number;
+  lastPlayedAt: number;
+};
+
+export type HallOfFameFilters = { difficulty?: Difficulty; mode?: Mode; since?: number; seed?: string; limit?: number };
+export type HallOfFamePage = { total: number; results: HallOfFameEntry[] };
+export type PlayerProfilesPage = { total: number; players: PlayerProfile[] };
+export type PlayerProfileDetail = { profile: PlayerProfile; results: HallOfFameEntry[] };
+
+// GET /games/:id: a saved game re-simulated from its seed and recorded actions, one frame per tick.
+export type GameReplayFrame = {
+  tick: number;
+  // Game clock.
+  time: number;
+  round: number;
+  prices: Partial<Record<Asset, number>>;
+  // USD equity per player id.
+  equity: Record<string, number>;
+  // What players did just before this tick.
+  actions: { name: string; event: string; payload: Record<string, unknown> }[];
+  events: Omit<RoomEvent, 'at'>[];
+};
+
+export type GameReplay = {
+  id: string;
+  seed: string;
+  daily: boolean;
+  startedAt: number;
+  difficulty: Difficulty;
+  mode: Mode;
+  scenario: string | null;
+  players: { id: string; name: string }[];
+  // Final standings as recorded when each round ended.
+  rounds: { number: number; rankings: LeaderboardRow[] }[];
+  frames: GameReplayFrame[];
+  // The re-simulation ended on exactly the recorded standings.
+  verified: boolean;
+};